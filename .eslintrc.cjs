@@ -0,0 +1,19 @@
+module.exports = {
+  root: true,
+  env: { browser: true, es2020: true },
+  extends: [
+    'eslint:recommended',
+    'plugin:@typescript-eslint/recommended',
+    'plugin:react-hooks/recommended',
+  ],
+  ignorePatterns: ['dist', '.eslintrc.cjs'],
+  parser: '@typescript-eslint/parser',
+  plugins: ['react-refresh'],
+  rules: {
+    'react-refresh/only-export-components': ['warn', { allowConstantExport: true }],
+    // Chart callbacks and validation tests work with loosely typed data
+    '@typescript-eslint/no-explicit-any': 'off',
+    // Destructuring a field away to leave the rest is how tests drop fields
+    '@typescript-eslint/no-unused-vars': ['error', { ignoreRestSiblings: true }],
+  },
+};
@@ -1,7 +1,7 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { 
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, 
-  ResponsiveContainer, ReferenceArea
+  ResponsiveContainer, ReferenceArea, BarChart, Bar, ReferenceLine
 } from 'recharts';
 import { 
   Wallet, ArrowUpRight, ShieldCheck, Clock, Plus, Trash2, 
@@ -9,8 +9,9 @@ import {
   Download, Upload, X, Building2, AlertCircle
 } from 'lucide-react';
 import type { 
-  Asset, Expense, SalaryData, 
-  EquityContract 
+  Asset, Expense, HouseholdMember, CreditPointsProfile, Gender, AcademicDegree, Payslip, AnnuityOptions, 
+  RightsFixingOptions, PensionContributions, SalaryStep, PartTimeJob, LifePhase, LifePhaseType, 
+  EquityContract, AssetClassAmounts, GlidePath, WithdrawalStrategy, WithdrawalStrategyType, RetirementHeatmap 
 } from './types';
 import {
   calculateNetEquity,
@@ -19,11 +20,44 @@ import {
   calculateTotalAssets,
   calculatePensionValue,
   calculateInvestmentValue,
+  calculateInvestmentCostBasis,
+  calculateInvestmentAllocation,
   findOptimalWithdrawal,
+  runMonteCarlo,
+  runHistoricalBacktest,
+  getWorstStartYears,
+  calculateSpendingSummary,
+  findEarliestRetirement,
+  runSensitivityAnalysis,
+  hasLifePhases,
+  getSimulationMonthDate,
+  calculateAgeAtDate,
+  buildHouseholdParams,
+  buildStudyFundParams,
+  calculatePensionInflow,
+  calculateInvestmentFees,
+  getHouseholdTimeline,
+  shiftHouseholdTimeline,
+  calculateCreditPoints,
+  calculatePayslip,
+  getMemberGender,
+  buildOldAgePension,
+  calculateConversionFactor,
+  calculateTaxCredit,
+  compareRightsFixingAllocations,
+  FIXED_COEFFICIENT,
+  MIN_ANNUITY_AGE,
+  LEGACY_START_DATE,
+  LIFE_PHASE_LABELS,
+  getLifePhaseLabel,
+  monthsBetween,
+  addMonthsToDate,
+  type SimulationParams,
 } from './utils/calculations';
 import {
   EquityCompany,
   PropertyPlan,
+  AssetClassPlan,
   AppExportData,
   EXPORT_VERSION,
   importFromJson,
@@ -31,6 +65,8 @@ import {
   readFileAsText,
   createDefaultEquityCompany,
   createDefaultContract,
+  migrateLegacyHousehold,
+  householdToSalaryData,
 } from './utils/storage';
 import {
   defaultAssets,
@@ -39,10 +75,25 @@ import {
   defaultSalaryData,
   defaultEquityCompanies,
   defaultPropertyPlan,
+  defaultAssetClassPlan,
+  defaultWithdrawalStrategy,
   defaultSimulationParams,
+  defaultCreditPointsProfile,
+  defaultAnnuityOptions,
+  defaultRightsFixingOptions,
+  defaultPensionContributions,
+  DEFAULT_SALARY_GROWTH,
+  DEFAULT_PART_TIME_PERCENT,
   DEFAULT_INITIAL_AGE,
   END_OF_LIFE_AGE,
 } from './data/defaultState';
+import { HISTORICAL_RETURNS } from './data/historicalReturns';
+
+// Today's date as YYYY-MM-DD (local time)
+const todayIsoDate = (): string => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
 
 // Number formatting helper
 const formatNumber = (num: number): string => {
@@ -92,6 +143,7 @@ const FormattedNumberInput: React.FC<FormattedNumberInputProps> = ({ value, onCh
 // State persistence constants
 const STATE_STORAGE_KEY = 'prisha-financial-state';
 const SAVE_DEBOUNCE_MS = 2000; // Save after 2 seconds of no changes
+const HEATMAP_DEBOUNCE_MS = 800; // Recompute the heatmap once plan edits pause
 
 // Atomic Components
 interface StockInputProps {
@@ -116,9 +168,10 @@ interface MiniCardProps {
   label: string;
   value: number;
   color: 'slate' | 'rose';
+  display?: string; // Overrides the formatted ₪ value (e.g. percentages)
 }
 
-const MiniCard: React.FC<MiniCardProps> = ({ label, value, color }) => {
+const MiniCard: React.FC<MiniCardProps> = ({ label, value, color, display }) => {
   const themes = { 
     slate: "bg-slate-900 text-emerald-400", 
     rose: "bg-white text-slate-800 border border-slate-100 shadow-sm" 
@@ -126,7 +179,7 @@ const MiniCard: React.FC<MiniCardProps> = ({ label, value, color }) => {
   return (
     <div className={`${themes[color]} p-4 rounded-2xl flex flex-col justify-center min-w-[150px] shadow-sm text-right`}>
       <span className="text-[9px] font-black uppercase mb-1 opacity-60">{label}</span>
-      <span className="text-lg font-black tracking-tighter text-left">₪{formatNumber(value || 0)}</span>
+      <span className="text-lg font-black tracking-tighter text-left">{display ?? `₪${formatNumber(value || 0)}`}</span>
     </div>
   );
 };
@@ -137,11 +190,29 @@ interface SalaryBoxProps {
   net: number;
   onGross: (v: number) => void;
   onNet: (v: number) => void;
+  payslip?: Payslip; // Net is derived from gross: shows the breakdown instead of a net input
+  onDeriveNet?: (derive: boolean) => void;
 }
 
-const SalaryBox: React.FC<SalaryBoxProps> = ({ name, gross, net, onGross, onNet }) => (
+const PAYSLIP_LINES: Array<{ key: keyof Payslip; label: string }> = [
+  { key: 'incomeTax', label: 'מס הכנסה' },
+  { key: 'nationalInsurance', label: 'ביטוח לאומי' },
+  { key: 'healthTax', label: 'מס בריאות' },
+  { key: 'pension', label: 'פנסיה (עובד)' },
+  { key: 'studyFund', label: 'קרן השתלמות (עובד)' },
+];
+
+const SalaryBox: React.FC<SalaryBoxProps> = ({ name, gross, net, onGross, onNet, payslip, onDeriveNet }) => (
   <div className="space-y-3 p-4 bg-white rounded-3xl border border-slate-100 shadow-sm text-right">
-    <p className="text-xs font-black text-slate-500 uppercase border-b pb-1">{name}</p>
+    <div className="flex items-center justify-between border-b pb-1">
+      <p className="text-xs font-black text-slate-500 uppercase">{name}</p>
+      {onDeriveNet && (
+        <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={!!payslip} onChange={(e) => onDeriveNet(e.target.checked)} />
+          חישוב נטו מהברוטו
+        </label>
+      )}
+    </div>
     <div className="space-y-1">
       <label className="text-[10px] font-bold text-slate-400 uppercase">ברוטו</label>
       <FormattedNumberInput 
@@ -150,17 +221,640 @@ const SalaryBox: React.FC<SalaryBoxProps> = ({ name, gross, net, onGross, onNet
         onChange={onGross} 
       />
     </div>
-    <div className="space-y-1">
-      <label className="text-[10px] font-bold text-slate-400 uppercase">נטו</label>
-      <FormattedNumberInput 
-        className="w-full bg-slate-50 border border-slate-100 rounded p-1 text-sm font-black outline-none focus:ring-1 focus:ring-blue-100 text-right" 
-        value={net || 0} 
-        onChange={onNet} 
-      />
-    </div>
+    {payslip ? (
+      <div className="space-y-1 text-xs">
+        {PAYSLIP_LINES.map(line => (
+          <div key={line.key} className="flex justify-between text-slate-500">
+            <span>{line.label}</span>
+            <span className="font-bold text-red-500">-₪{formatNumber(Math.round(payslip[line.key]))}</span>
+          </div>
+        ))}
+        <div className="flex justify-between border-t pt-1 font-black text-slate-800">
+          <span>נטו</span>
+          <span className="text-emerald-600">₪{formatNumber(Math.round(payslip.net))}</span>
+        </div>
+      </div>
+    ) : (
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold text-slate-400 uppercase">נטו</label>
+        <FormattedNumberInput 
+          className="w-full bg-slate-50 border border-slate-100 rounded p-1 text-sm font-black outline-none focus:ring-1 focus:ring-blue-100 text-right" 
+          value={net || 0} 
+          onChange={onNet} 
+        />
+      </div>
+    )}
   </div>
 );
 
+const ASSET_TYPE_LABELS: Record<Asset['type'], string> = {
+  liquid: 'נזיל',
+  invest: 'השקעה',
+  pension: 'פנסיה',
+  hishtalmut: 'השתלמות',
+};
+
+const DEGREE_LABELS: Record<AcademicDegree, string> = {
+  none: 'ללא',
+  bachelor: 'תואר ראשון',
+  master: 'תואר שני',
+  doctorate: 'דוקטורט',
+};
+
+interface CreditPointsBoxProps {
+  profile?: CreditPointsProfile;
+  gender: Gender; // The member's gender, set on the member card
+  year: number; // Tax year the points are shown for
+  onChange: (profile: CreditPointsProfile | undefined) => void;
+}
+
+const CreditPointsBox: React.FC<CreditPointsBoxProps> = ({ profile, gender, year, onChange }) => {
+  const update = (changes: Partial<CreditPointsProfile>) => profile && onChange({ ...profile, ...changes });
+  const selectClass = "w-full p-2 bg-slate-50 border border-slate-100 rounded-xl font-bold text-sm outline-none text-right";
+  return (
+    <div className="space-y-3 p-4 bg-white rounded-3xl border border-slate-100 shadow-sm text-right">
+      <div className="flex items-center justify-between border-b pb-1">
+        <label className="flex items-center gap-2 text-xs font-black text-slate-500 uppercase cursor-pointer">
+          <input 
+            type="checkbox" 
+            checked={!!profile} 
+            onChange={(e) => onChange(e.target.checked ? { ...defaultCreditPointsProfile, gender } : undefined)} 
+          />
+          נקודות זיכוי
+        </label>
+        {profile && (
+          <span className="text-xs font-black text-blue-500">{calculateCreditPoints(profile, year).toFixed(2)} נק׳ ({year})</span>
+        )}
+      </div>
+      {profile && (
+        <>
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div className="space-y-0.5">
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">תואר אקדמי</label>
+              <select className={selectClass} value={profile.degree} onChange={(e) => update({ degree: e.target.value as AcademicDegree })}>
+                {(Object.keys(DEGREE_LABELS) as AcademicDegree[]).map(degree => (
+                  <option key={degree} value={degree}>{DEGREE_LABELS[degree]}</option>
+                ))}
+              </select>
+            </div>
+            {profile.degree !== 'none' && (
+              <StockInput label="שנת סיום התואר" val={profile.degreeYear} onChange={(v) => update({ degreeYear: Math.round(v) })} />
+            )}
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">שנות לידה של ילדים</label>
+            <div className="flex flex-wrap items-center gap-2">
+              {profile.childBirthYears.map((birthYear, i) => (
+                <div key={i} className="flex items-center gap-1 bg-slate-50 border border-slate-100 rounded-lg px-2 py-1">
+                  <input 
+                    type="number" 
+                    className="w-16 bg-transparent text-xs font-black outline-none text-left" 
+                    value={birthYear} 
+                    onChange={(e) => update({ childBirthYears: profile.childBirthYears.map((y, j) => (j === i ? Math.round(parseFloat(e.target.value) || 0) : y)) })} 
+                  />
+                  <button 
+                    onClick={() => update({ childBirthYears: profile.childBirthYears.filter((_, j) => j !== i) })} 
+                    className="text-slate-300 hover:text-red-500"
+                  >
+                    <Trash2 size={12}/>
+                  </button>
+                </div>
+              ))}
+              <button 
+                onClick={() => update({ childBirthYears: [...profile.childBirthYears, year] })} 
+                className="p-1 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-all"
+              >
+                <Plus size={14}/>
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-0.5">
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">תאריך עלייה</label>
+              <input 
+                type="date" 
+                className={selectClass} 
+                value={profile.immigrationDate ?? ''} 
+                onChange={(e) => update({ immigrationDate: e.target.value || undefined })} 
+              />
+            </div>
+            <div className="space-y-0.5">
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">תאריך שחרור מצה״ל</label>
+              <input 
+                type="date" 
+                className={selectClass} 
+                value={profile.dischargeDate ?? ''} 
+                onChange={(e) => update({ dischargeDate: e.target.value || undefined })} 
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface SalaryPathBoxProps {
+  growth?: number;
+  steps?: SalaryStep[];
+  deriveNet: boolean; // Steps take only a gross salary
+  defaultStepDate: string;
+  onChange: (changes: Pick<HouseholdMember, 'salaryGrowth' | 'salarySteps'>) => void;
+}
+
+const SalaryPathBox: React.FC<SalaryPathBoxProps> = ({ growth, steps, deriveNet, defaultStepDate, onChange }) => {
+  const enabled = growth !== undefined || steps !== undefined;
+  const currentSteps = steps ?? [];
+  const updateStep = (idx: number, changes: Partial<SalaryStep>) => 
+    onChange({ salaryGrowth: growth, salarySteps: currentSteps.map((step, i) => (i === idx ? { ...step, ...changes } : step)) });
+  return (
+    <div className="space-y-3 p-4 bg-white rounded-3xl border border-slate-100 shadow-sm text-right">
+      <div className="flex items-center justify-between border-b pb-1">
+        <label className="flex items-center gap-2 text-xs font-black text-slate-500 uppercase cursor-pointer">
+          <input 
+            type="checkbox" 
+            checked={enabled} 
+            onChange={(e) => onChange(e.target.checked 
+              ? { salaryGrowth: DEFAULT_SALARY_GROWTH, salarySteps: [] } 
+              : { salaryGrowth: undefined, salarySteps: undefined })} 
+          />
+          מסלול שכר
+        </label>
+        <span className="text-xs font-black text-blue-500">{enabled ? 'צמוד מדד + צמיחה ריאלית' : 'שכר נומינלי קבוע'}</span>
+      </div>
+      {enabled && (
+        <>
+          <StockInput label="צמיחה ריאלית בשנה %" val={growth ?? 0} onChange={(v) => onChange({ salaryGrowth: Math.min(50, Math.max(-20, v)), salarySteps: steps })} />
+          {currentSteps.map((step, idx) => (
+            <div key={idx} className="flex items-end gap-2">
+              <input
+                type="date"
+                value={step.date}
+                onChange={(e) => e.target.value && updateStep(idx, { date: e.target.value })}
+                className="bg-slate-50 border border-slate-100 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 outline-none"
+                title="מועד השינוי"
+              />
+              <StockInput label="ברוטו" val={step.grossSalary} onChange={(v) => updateStep(idx, { grossSalary: Math.max(0, v) })} />
+              {!deriveNet && (
+                <StockInput label="נטו" val={step.netSalary} onChange={(v) => updateStep(idx, { netSalary: Math.max(0, v) })} />
+              )}
+              <button 
+                onClick={() => onChange({ salaryGrowth: growth, salarySteps: currentSteps.filter((_, i) => i !== idx) })} 
+                className="text-slate-300 hover:text-red-500 pb-2"
+              >
+                <Trash2 size={14}/>
+              </button>
+            </div>
+          ))}
+          <button 
+            onClick={() => onChange({ 
+              salaryGrowth: growth, 
+              salarySteps: [...currentSteps, { date: defaultStepDate, grossSalary: 0, netSalary: 0 }] 
+            })} 
+            className="w-full p-2 border-2 border-dashed border-slate-200 rounded-xl text-slate-400 font-bold hover:text-blue-500 transition-all text-xs text-right"
+          >
+            + קידום / החלפת עבודה (במחירי היום)
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface PartTimeBoxProps {
+  partTime?: PartTimeJob;
+  grossSalary: number;
+  netSalary: number;
+  deriveNet: boolean; // The part-time job takes only a gross salary
+  contributions?: PensionContributions;
+  onChange: (partTime: PartTimeJob | undefined) => void;
+}
+
+const PartTimeBox: React.FC<PartTimeBoxProps> = ({ partTime, grossSalary, netSalary, deriveNet, contributions, onChange }) => {
+  const update = (changes: Partial<PartTimeJob>) => partTime && onChange({ ...partTime, ...changes });
+  // A full-time salary scaled to the job percentage
+  const scaled = (jobPercent: number): PartTimeJob => ({
+    jobPercent,
+    grossSalary: Math.round((parseFloat(String(grossSalary)) || 0) * jobPercent / 100),
+    netSalary: Math.round((parseFloat(String(netSalary)) || 0) * jobPercent / 100),
+  });
+  return (
+    <div className="space-y-3 p-4 bg-white rounded-3xl border border-slate-100 shadow-sm text-right">
+      <div className="flex items-center justify-between border-b pb-1">
+        <label className="flex items-center gap-2 text-xs font-black text-slate-500 uppercase cursor-pointer">
+          <input 
+            type="checkbox" 
+            checked={!!partTime} 
+            onChange={(e) => onChange(e.target.checked ? scaled(DEFAULT_PART_TIME_PERCENT) : undefined)} 
+          />
+          משרה חלקית
+        </label>
+        <span className="text-xs font-black text-blue-500">
+          {partTime 
+            ? `פנסיה ₪${formatNumber(Math.round(calculatePensionInflow(parseFloat(String(partTime.grossSalary)) || 0, contributions)))} לחודש` 
+            : 'חצי משרה בחצי שכר'}
+        </span>
+      </div>
+      {partTime && (
+        <div className="grid grid-cols-3 gap-3 items-end">
+          <StockInput label="היקף משרה %" val={partTime.jobPercent} onChange={(v) => onChange(scaled(Math.min(100, Math.max(1, v))))} />
+          <StockInput label="ברוטו" val={partTime.grossSalary} onChange={(v) => update({ grossSalary: Math.max(0, v) })} />
+          {!deriveNet && (
+            <StockInput label="נטו" val={partTime.netSalary} onChange={(v) => update({ netSalary: Math.max(0, v) })} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Phases paid their own salary; full-time follows the salary path
+const SALARY_PHASES: LifePhaseType[] = ['partTime', 'unemployment', 'selfEmployed', 'returnToWork'];
+
+const LIFE_PHASE_COLORS: Record<LifePhaseType, string> = {
+  fullTime: 'bg-blue-500',
+  partTime: 'bg-sky-400',
+  sabbatical: 'bg-amber-400',
+  unemployment: 'bg-rose-400',
+  selfEmployed: 'bg-purple-500',
+  returnToWork: 'bg-emerald-500',
+  retired: 'bg-slate-400',
+};
+
+interface LifePhasesBoxProps {
+  phases?: LifePhase[];
+  grossSalary: number;
+  netSalary: number;
+  deriveNet: boolean; // Phases take only a gross salary
+  defaultStartDate: string;
+  onChange: (phases: LifePhase[] | undefined) => void;
+}
+
+const LifePhasesBox: React.FC<LifePhasesBoxProps> = ({ phases, grossSalary, netSalary, deriveNet, defaultStartDate, onChange }) => {
+  const currentPhases = phases ?? [];
+  const updatePhase = (idx: number, changes: Partial<LifePhase>) => 
+    onChange(currentPhases.map((phase, i) => (i === idx ? { ...phase, ...changes } : phase)));
+  // A part-time phase starts as that share of the full salary
+  const changeType = (idx: number, type: LifePhaseType) => {
+    const jobPercent = type === 'partTime' ? currentPhases[idx].jobPercent ?? DEFAULT_PART_TIME_PERCENT : undefined;
+    updatePhase(idx, {
+      type,
+      jobPercent,
+      grossSalary: SALARY_PHASES.includes(type) 
+        ? currentPhases[idx].grossSalary ?? Math.round((parseFloat(String(grossSalary)) || 0) * (jobPercent ?? 100) / 100) 
+        : undefined,
+      netSalary: SALARY_PHASES.includes(type) 
+        ? currentPhases[idx].netSalary ?? Math.round((parseFloat(String(netSalary)) || 0) * (jobPercent ?? 100) / 100) 
+        : undefined,
+    });
+  };
+  const dateClass = "bg-slate-50 border border-slate-100 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 outline-none";
+  return (
+    <div className="space-y-3 p-4 bg-white rounded-3xl border border-slate-100 shadow-sm text-right">
+      <div className="flex items-center justify-between border-b pb-1">
+        <label className="flex items-center gap-2 text-xs font-black text-slate-500 uppercase cursor-pointer">
+          <input 
+            type="checkbox" 
+            checked={phases !== undefined} 
+            onChange={(e) => onChange(e.target.checked ? [] : undefined)} 
+          />
+          שלבי חיים
+        </label>
+        <span className="text-xs font-black text-blue-500">
+          {phases !== undefined ? `${currentPhases.length} שלבים · מחוץ להם לפי שנות העבודה` : 'לפי שנות חצי משרה ופרישה'}
+        </span>
+      </div>
+      {phases !== undefined && (
+        <>
+          {currentPhases.map((phase, idx) => (
+            <div key={phase.id} className="space-y-2 border-b border-slate-50 pb-2">
+              <div className="flex items-center gap-2">
+                <select
+                  value={phase.type}
+                  onChange={(e) => changeType(idx, e.target.value as LifePhaseType)}
+                  className={dateClass}
+                >
+                  {(Object.keys(LIFE_PHASE_LABELS) as LifePhaseType[]).map(type => (
+                    <option key={type} value={type}>{LIFE_PHASE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={phase.startDate}
+                  onChange={(e) => e.target.value && updatePhase(idx, { startDate: e.target.value })}
+                  className={dateClass}
+                  title="תחילה"
+                />
+                <input
+                  type="date"
+                  value={phase.endDate ?? ''}
+                  onChange={(e) => updatePhase(idx, { endDate: e.target.value || undefined })}
+                  className={dateClass}
+                  title="סיום (ריק: ללא סוף)"
+                />
+                <button 
+                  onClick={() => onChange(currentPhases.filter((_, i) => i !== idx))} 
+                  className="text-slate-300 hover:text-red-500"
+                >
+                  <Trash2 size={14}/>
+                </button>
+              </div>
+              {SALARY_PHASES.includes(phase.type) && (
+                <div className="grid grid-cols-3 gap-3 items-end">
+                  {phase.type === 'partTime' && (
+                    <StockInput label="היקף משרה %" val={phase.jobPercent ?? DEFAULT_PART_TIME_PERCENT} onChange={(v) => updatePhase(idx, { jobPercent: Math.min(100, Math.max(1, v)) })} />
+                  )}
+                  <StockInput label={phase.type === 'unemployment' ? 'דמי אבטלה' : 'ברוטו'} val={phase.grossSalary ?? 0} onChange={(v) => updatePhase(idx, { grossSalary: Math.max(0, v) })} />
+                  {!deriveNet && (
+                    <StockInput label="נטו" val={phase.netSalary ?? 0} onChange={(v) => updatePhase(idx, { netSalary: Math.max(0, v) })} />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          <button 
+            onClick={() => {
+              const startDate = currentPhases[currentPhases.length - 1]?.endDate ?? defaultStartDate;
+              onChange([...currentPhases, { id: `phase-${Date.now()}`, type: 'sabbatical', startDate, endDate: addMonthsToDate(startDate, 12) }]);
+            }} 
+            className="w-full p-2 border-2 border-dashed border-slate-200 rounded-xl text-slate-400 font-bold hover:text-blue-500 transition-all text-xs text-right"
+          >
+            + שלב (שבתון, אבטלה, עצמאות, חזרה לעבודה...)
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface LifePhaseGanttProps {
+  household: HouseholdMember[];
+  startDate: string; // Month 0 of the chart
+  fromMonth: number; // Visible range, as on the wealth chart
+  toMonth: number;
+  onChange: (memberIdx: number, phases: LifePhase[]) => void;
+}
+
+interface PhaseDrag {
+  memberIdx: number;
+  phaseId: string;
+  mode: 'move' | 'start' | 'end';
+  originX: number;
+  width: number; // Track width in pixels
+  months: number; // Months dragged so far
+}
+
+const LifePhaseGantt: React.FC<LifePhaseGanttProps> = ({ household, startDate, fromMonth, toMonth, onChange }) => {
+  const [drag, setDrag] = useState<PhaseDrag | null>(null);
+  const span = Math.max(1, toMonth - fromMonth);
+  // A phase's months with the drag in progress applied; open-ended phases run to the end of the chart
+  const phaseMonths = (memberIdx: number, phase: LifePhase) => {
+    let start = monthsBetween(startDate, phase.startDate);
+    let end = phase.endDate ? monthsBetween(startDate, phase.endDate) : Infinity;
+    if (drag && drag.memberIdx === memberIdx && drag.phaseId === phase.id) {
+      if (drag.mode !== 'end') start = drag.mode === 'start' ? Math.min(start + drag.months, end - 1) : start + drag.months;
+      if (drag.mode !== 'start') end = drag.mode === 'end' ? Math.max(end + drag.months, start + 1) : end + drag.months;
+    }
+    return { start, end };
+  };
+  const beginDrag = (e: React.PointerEvent, memberIdx: number, phaseId: string, mode: PhaseDrag['mode']) => {
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    const track = (e.currentTarget as HTMLElement).closest('[data-gantt-track]') as HTMLElement;
+    setDrag({ memberIdx, phaseId, mode, originX: e.clientX, width: track.getBoundingClientRect().width, months: 0 });
+  };
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const months = Math.round((e.clientX - drag.originX) / drag.width * span);
+    if (months !== drag.months) setDrag({ ...drag, months });
+  };
+  const endDrag = () => {
+    if (!drag) return;
+    const phases = household[drag.memberIdx].phases ?? [];
+    if (drag.months !== 0) {
+      onChange(drag.memberIdx, phases.map(phase => {
+        if (phase.id !== drag.phaseId) return phase;
+        const { start, end } = phaseMonths(drag.memberIdx, phase);
+        return { 
+          ...phase, 
+          startDate: addMonthsToDate(startDate, start), 
+          endDate: phase.endDate ? addMonthsToDate(startDate, end) : undefined 
+        };
+      }));
+    }
+    setDrag(null);
+  };
+  const toPercent = (month: number) => (Math.min(Math.max(month, fromMonth), toMonth) - fromMonth) / span * 100;
+  
+  if (!household.some(member => member.phases?.length)) return null;
+  return (
+    // Left-to-right like the chart, inset to its plot area (Y axis on the left)
+    <div dir="ltr" className="mb-4 space-y-1" onPointerMove={moveDrag} onPointerUp={endDrag}>
+      {household.map((member, memberIdx) => member.phases?.length ? (
+        <div key={member.id} className="flex items-center">
+          <span className="w-[65px] pr-2 text-[10px] font-bold text-slate-500 text-right truncate">{member.name}</span>
+          <div data-gantt-track className="relative flex-1 h-6 mr-[5px] bg-slate-50 rounded-md">
+            {member.phases.map(phase => {
+              const { start, end } = phaseMonths(memberIdx, phase);
+              if (end <= fromMonth || start >= toMonth) return null;
+              const left = toPercent(start);
+              return (
+                <div
+                  key={phase.id}
+                  className={`absolute top-0 h-full rounded-md ${LIFE_PHASE_COLORS[phase.type]} text-white text-[10px] font-bold flex items-center justify-center overflow-hidden cursor-grab select-none touch-none`}
+                  style={{ left: `${left}%`, width: `${Math.max(0.5, toPercent(end) - left)}%` }}
+                  title={`${getLifePhaseLabel(phase)}: ${phase.startDate} – ${phase.endDate ?? 'ללא סוף'}`}
+                  onPointerDown={(e) => beginDrag(e, memberIdx, phase.id, 'move')}
+                >
+                  <span 
+                    className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize bg-black/10" 
+                    onPointerDown={(e) => beginDrag(e, memberIdx, phase.id, 'start')} 
+                  />
+                  <span className="truncate px-2">{getLifePhaseLabel(phase)}</span>
+                  {phase.endDate && (
+                    <span 
+                      className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize bg-black/10" 
+                      onPointerDown={(e) => beginDrag(e, memberIdx, phase.id, 'end')} 
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : null)}
+    </div>
+  );
+};
+
+interface PensionContributionsBoxProps {
+  contributions?: PensionContributions;
+  grossSalary: number;
+  onChange: (contributions: PensionContributions | undefined) => void;
+}
+
+const PensionContributionsBox: React.FC<PensionContributionsBoxProps> = ({ contributions, grossSalary, onChange }) => {
+  const update = (changes: Partial<PensionContributions>) => contributions && onChange({ ...contributions, ...changes });
+  const rate = (v: number) => Math.min(100, Math.max(0, v));
+  return (
+    <div className="space-y-3 p-4 bg-white rounded-3xl border border-slate-100 shadow-sm text-right">
+      <div className="flex items-center justify-between border-b pb-1">
+        <label className="flex items-center gap-2 text-xs font-black text-slate-500 uppercase cursor-pointer">
+          <input 
+            type="checkbox" 
+            checked={!!contributions} 
+            onChange={(e) => onChange(e.target.checked ? { ...defaultPensionContributions } : undefined)} 
+          />
+          הפקדות לפנסיה
+        </label>
+        <span className="text-xs font-black text-blue-500">
+          ₪{formatNumber(Math.round(calculatePensionInflow(parseFloat(String(grossSalary)) || 0, contributions)))} לחודש
+          {!contributions && ' (20%)'}
+        </span>
+      </div>
+      {contributions && (
+        <div className="grid grid-cols-3 gap-3 items-end">
+          <StockInput label="עובד %" val={contributions.employeeRate} onChange={(v) => update({ employeeRate: rate(v) })} />
+          <StockInput label="מעסיק %" val={contributions.employerRate} onChange={(v) => update({ employerRate: rate(v) })} />
+          <StockInput label="פיצויים %" val={contributions.severanceRate} onChange={(v) => update({ severanceRate: rate(v) })} />
+          <StockInput label="תקרת שכר להטבת מס" val={contributions.salaryCeiling} onChange={(v) => update({ salaryCeiling: Math.max(0, v) })} />
+          <StockInput label="הפקדה וולונטרית" val={contributions.voluntaryDeposit} onChange={(v) => update({ voluntaryDeposit: Math.max(0, v) })} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface AnnuityBoxProps {
+  options?: AnnuityOptions;
+  gender: Gender;
+  birthYear: number;
+  onChange: (options: AnnuityOptions | undefined) => void;
+}
+
+const AnnuityBox: React.FC<AnnuityBoxProps> = ({ options, gender, birthYear, onChange }) => {
+  const update = (changes: Partial<AnnuityOptions>) => options && onChange({ ...options, ...changes });
+  const selectClass = "w-full p-2 bg-slate-50 border border-slate-100 rounded-xl font-bold text-sm outline-none text-right";
+  return (
+    <div className="space-y-3 p-4 bg-white rounded-3xl border border-slate-100 shadow-sm text-right">
+      <div className="flex items-center justify-between border-b pb-1">
+        <label className="flex items-center gap-2 text-xs font-black text-slate-500 uppercase cursor-pointer">
+          <input 
+            type="checkbox" 
+            checked={!!options} 
+            onChange={(e) => onChange(e.target.checked ? { ...defaultAnnuityOptions } : undefined)} 
+          />
+          מסלול קצבה
+        </label>
+        <span className="text-xs font-black text-blue-500">
+          מקדם {(options ? calculateConversionFactor(options.startAge, gender, birthYear, options) : FIXED_COEFFICIENT).toFixed(1)}
+          {options ? ` בגיל ${options.startAge}` : ' בגיל 60'}
+        </span>
+      </div>
+      {options && (
+        <div className="grid grid-cols-3 gap-3 items-end">
+          <StockInput label="גיל תחילת קצבה" val={options.startAge} onChange={(v) => update({ startAge: Math.min(70, Math.max(60, v)) })} />
+          <div className="space-y-0.5">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">תקופת הבטחה</label>
+            <select className={selectClass} value={options.guaranteeMonths} onChange={(e) => update({ guaranteeMonths: Number(e.target.value) })}>
+              {[0, 60, 120, 180, 240].map(months => (
+                <option key={months} value={months}>{months === 0 ? 'ללא' : `${months} חודשים`}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-0.5">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">קצבת שארים</label>
+            <select className={selectClass} value={options.survivorPercent} onChange={(e) => update({ survivorPercent: Number(e.target.value) })}>
+              {[0, 30, 40, 60, 100].map(percent => (
+                <option key={percent} value={percent}>{percent === 0 ? 'ללא' : `${percent}%`}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+      {options && (options.guaranteeMonths > 0 || options.survivorPercent > 0) && (() => {
+        // The plan has no deaths, so only the cost of the protection shows in it
+        const bare = calculateConversionFactor(options.startAge, gender, birthYear, { ...options, guaranteeMonths: 0, survivorPercent: 0 });
+        const factor = calculateConversionFactor(options.startAge, gender, birthYear, options);
+        return (
+          <p className="text-xs font-bold text-amber-600">
+            ההבטחה וקצבת השארים מקטינות את הקצבה ב-{((1 - bare / factor) * 100).toFixed(1)}%. זה רק המחיר שלהן: 
+            התוכנית לא מניחה פטירה, ולכן תשלומי ההבטחה והקצבה לשארים אינם נכללים בה.
+          </p>
+        );
+      })()}
+    </div>
+  );
+};
+
+interface RightsFixingBoxProps {
+  options?: RightsFixingOptions;
+  monthlyAnnuity: number; // Expected gross annuity, today's prices
+  year: number; // Year the annuity starts
+  annualTaxCredit: number;
+  months: number; // Expected annuity period
+  onChange: (options: RightsFixingOptions | undefined) => void;
+}
+
+const RightsFixingBox: React.FC<RightsFixingBoxProps> = ({ options, monthlyAnnuity, year, annualTaxCredit, months, onChange }) => {
+  const update = (changes: Partial<RightsFixingOptions>) => options && onChange({ ...options, ...changes });
+  const comparison = options 
+    ? compareRightsFixingAllocations(monthlyAnnuity, options.severanceGrants, year, annualTaxCredit, months) 
+    : [];
+  const best = comparison.reduce<number | null>((min, row) => (min === null || row.totalTax < min ? row.totalTax : min), null);
+  return (
+    <div className="space-y-3 p-4 bg-white rounded-3xl border border-slate-100 shadow-sm text-right">
+      <div className="flex items-center justify-between border-b pb-1">
+        <label className="flex items-center gap-2 text-xs font-black text-slate-500 uppercase cursor-pointer">
+          <input 
+            type="checkbox" 
+            checked={!!options} 
+            onChange={(e) => onChange(e.target.checked ? { ...defaultRightsFixingOptions } : undefined)} 
+          />
+          קיבוע זכויות
+        </label>
+        {options && (
+          <span className="text-xs font-black text-blue-500">קצבה משוערת ₪{formatNumber(Math.round(monthlyAnnuity))} ({year})</span>
+        )}
+      </div>
+      {options && (
+        <>
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <StockInput label="מענקי פרישה חייבים" val={options.severanceGrants} onChange={(v) => update({ severanceGrants: Math.max(0, v) })} />
+            <StockInput label="% מהסל לקצבה" val={options.annuityShare} onChange={(v) => update({ annuityShare: Math.min(100, Math.max(0, v)) })} />
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-right font-bold">לקצבה</th>
+                <th className="text-right font-bold">פטור חודשי</th>
+                <th className="text-right font-bold">מס חודשי</th>
+                <th className="text-right font-bold">מס מענקים</th>
+                <th className="text-right font-bold">סה״כ מס</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map(row => (
+                <tr 
+                  key={row.annuityShare} 
+                  className={`cursor-pointer ${row.annuityShare === options.annuityShare ? 'font-black text-slate-800' : 'text-slate-500'} ${row.totalTax === best ? 'bg-emerald-50' : ''}`}
+                  onClick={() => update({ annuityShare: row.annuityShare })}
+                >
+                  <td>{row.annuityShare}%</td>
+                  <td>₪{formatNumber(Math.round(row.annuityExemption))}</td>
+                  <td>₪{formatNumber(Math.round(row.monthlyAnnuityTax))}</td>
+                  <td>₪{formatNumber(Math.round(row.grantTax))}</td>
+                  <td>₪{formatNumber(Math.round(row.totalTax))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
 interface BudgetRowProps {
   item: Expense;
   onUpdate: (field: string, value: string | number) => void;
@@ -237,6 +931,152 @@ const EquityMetric: React.FC<EquityMetricProps> = ({ label, val, color }) => (
   </div>
 );
 
+interface AllocationInputProps {
+  allocation: AssetClassAmounts;
+  onChange: (allocation: AssetClassAmounts) => void;
+}
+
+const AllocationInput: React.FC<AllocationInputProps> = ({ allocation, onChange }) => (
+  <div className="flex items-center gap-1 text-[9px] font-bold text-slate-400">
+    {([['stocks', 'מניות'], ['bonds', 'אג״ח'], ['cash', 'מזומן']] as const).map(([cls, label]) => (
+      <label key={cls} className="flex flex-col items-center">
+        {label}
+        <input 
+          type="number" 
+          min={0} 
+          max={100} 
+          className="w-12 bg-white border border-slate-100 rounded p-0.5 text-center font-black text-[10px] text-slate-700" 
+          value={allocation[cls]} 
+          onChange={(e) => onChange({ ...allocation, [cls]: parseFloat(e.target.value) || 0 })} 
+        />
+      </label>
+    ))}
+  </div>
+);
+
+interface GlidePathEditorProps {
+  title: string;
+  glidePath: GlidePath;
+  onChange: (glidePath: GlidePath) => void;
+}
+
+const GlidePathEditor: React.FC<GlidePathEditorProps> = ({ title, glidePath, onChange }) => {
+  const updatePoint = (idx: number, field: 'at' | 'stockShare', value: number) => {
+    onChange({ 
+      ...glidePath, 
+      points: glidePath.points.map((p, i) => i === idx ? { ...p, [field]: value } : p) 
+    });
+  };
+  
+  return (
+    <div className="space-y-2 p-4 bg-slate-50 rounded-2xl text-right">
+      <div className="flex justify-between items-center">
+        <p className="text-xs font-black text-slate-500 uppercase">{title}</p>
+        <select
+          className="bg-white border border-slate-100 rounded p-1 text-[10px] font-bold text-slate-600 outline-none"
+          value={glidePath.basis}
+          onChange={(e) => onChange({ ...glidePath, basis: e.target.value as GlidePath['basis'] })}
+        >
+          <option value="retirement">שנים מהפרישה</option>
+          <option value="age">גיל</option>
+        </select>
+      </div>
+      <div className="flex items-center gap-3 px-1 text-[10px] font-bold text-slate-400 uppercase">
+        <span className="w-20 text-center">{glidePath.basis === 'age' ? 'גיל' : 'שנים מהפרישה'}</span>
+        <span className="w-20 text-center">% מניות</span>
+      </div>
+      {glidePath.points.map((point, idx) => (
+        <div key={idx} className="flex items-center gap-3 group">
+          <input
+            type="number"
+            className="w-20 bg-white border border-slate-100 rounded p-1 text-center font-black text-xs"
+            value={point.at}
+            onChange={(e) => updatePoint(idx, 'at', parseFloat(e.target.value) || 0)}
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            className="w-20 bg-white border border-slate-100 rounded p-1 text-center font-black text-xs"
+            value={point.stockShare}
+            onChange={(e) => updatePoint(idx, 'stockShare', parseFloat(e.target.value) || 0)}
+          />
+          <button
+            onClick={() => onChange({ ...glidePath, points: glidePath.points.filter((_, i) => i !== idx) })}
+            className="text-slate-200 hover:text-red-500 opacity-0 group-hover:opacity-100"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange({ ...glidePath, points: [...glidePath.points, { at: 0, stockShare: 60 }] })}
+        className="flex items-center gap-1 text-slate-400 text-xs font-bold hover:text-blue-500"
+      >
+        <Plus size={12} /> נקודה
+      </button>
+    </div>
+  );
+};
+
+interface RetirementHeatmapGridProps {
+  heatmap: RetirementHeatmap;
+  transitionToHalfWorkYear: number;
+  stopWorkYear: number;
+  onSelect: (transitionToHalfWorkYear: number, stopWorkYear: number) => void;
+}
+
+const RetirementHeatmapGrid: React.FC<RetirementHeatmapGridProps> = ({ heatmap, transitionToHalfWorkYear, stopWorkYear, onSelect }) => {
+  const allValues = heatmap.values.flat();
+  const min = Math.min(...allValues);
+  const max = Math.max(...allValues);
+  // Red (lowest withdrawal) to green (highest)
+  const cellColor = (value: number) => `hsl(${max > min ? ((value - min) / (max - min)) * 140 : 140}, 70%, 55%)`;
+  
+  return (
+    <div className="overflow-x-auto" dir="ltr">
+      <div className="inline-grid gap-px" style={{ gridTemplateColumns: `2rem repeat(${heatmap.stopYears.length}, 1.25rem)` }}>
+        <div />
+        {heatmap.stopYears.map(stop => (
+          <div key={stop} className="text-[8px] text-slate-400 font-bold text-center">{stop % 5 === 0 ? stop : ''}</div>
+        ))}
+        {heatmap.halfYears.map(half => (
+          <React.Fragment key={half}>
+            <div className="text-[8px] text-slate-400 font-bold text-right pr-1">{half % 5 === 0 ? half : ''}</div>
+            {heatmap.stopYears.map(stop => {
+              const value = heatmap.values[half][stop];
+              const marginal = heatmap.marginalYearValues[half][stop];
+              const isCurrent = half === transitionToHalfWorkYear && stop === stopWorkYear;
+              return (
+                <button
+                  key={stop}
+                  onClick={() => onSelect(Math.min(half, stop), stop)}
+                  title={`חצי משרה: ${half} | פרישה: ${stop} | משיכה: ₪${formatNumber(value)}${marginal !== null ? ` | שנה נוספת: +₪${formatNumber(marginal)}` : ''}`}
+                  className={`h-4 rounded-sm ${half > stop ? 'opacity-30' : ''} ${isCurrent ? 'ring-2 ring-slate-900' : 'hover:ring-1 hover:ring-slate-500'}`}
+                  style={{ backgroundColor: cellColor(value) }}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-slate-400 font-bold mt-2" dir="rtl">
+        <span>שורות: שנים לחצי משרה · עמודות: שנים לפרישה</span>
+        <span>₪{formatNumber(min)} – ₪{formatNumber(max)}</span>
+      </div>
+    </div>
+  );
+};
+
+// Withdrawal strategy labels and short explanations
+const WITHDRAWAL_STRATEGY_INFO: Record<WithdrawalStrategyType, { label: string; description: string }> = {
+  constant: { label: 'סכום ריאלי קבוע', description: 'אותו סכום בכל חודש, צמוד לאינפלציה.' },
+  fixedPercent: { label: 'אחוז קבוע מהתיק', description: 'בכל שנה מושכים את אותו אחוז מהעושר, כך שההוצאה עולה ויורדת עם השוק.' },
+  vpw: { label: 'VPW (אחוז משתנה)', description: 'אחוז המשיכה עולה ככל שנותרות פחות שנים, כך שהתיק מתרוקן בסוף החיים.' },
+  guytonKlinger: { label: 'Guyton-Klinger', description: 'סכום צמוד עם מעקות בטיחות: קיצוץ כשאחוז המשיכה גבוה מדי, העלאה כשהוא נמוך מדי.' },
+  floorCeiling: { label: 'רצפה ותקרה', description: 'אחוז קבוע מהתיק, אבל לא פחות מהרצפה ולא יותר מהתקרה ביחס למשיכה ההתחלתית.' },
+};
+
 // Load state from localStorage
 const loadSavedState = () => {
   try {
@@ -259,14 +1099,35 @@ const App: React.FC = () => {
   // States
   const [activeTab, setActiveTab] = useState<string>('assets');
   const [returnRate, setReturnRate] = useState<number>(savedState?.simulationParams?.returnRate ?? defaultSimulationParams.returnRate);
+  const [volatility, setVolatility] = useState<number>(savedState?.simulationParams?.volatility ?? defaultSimulationParams.volatility);
   const [inflationRate, setInflationRate] = useState<number>(savedState?.simulationParams?.inflationRate ?? defaultSimulationParams.inflationRate);
-  const [transitionToHalfWorkYear, setTransitionToHalfWorkYear] = useState<number>(savedState?.simulationParams?.transitionToHalfWorkYear ?? defaultSimulationParams.transitionToHalfWorkYear);
-  const [stopWorkYear, setStopWorkYear] = useState<number>(savedState?.simulationParams?.stopWorkYear ?? defaultSimulationParams.stopWorkYear);
   
-  // Initial age (editable, affects simulation)
-  const [initialAge, setInitialAge] = useState<number>(savedState?.initialAge ?? DEFAULT_INITIAL_AGE);
+  // Plan "as of" date: today for a new plan, January 2026 for plans saved before it existed
+  const [asOfDate, setAsOfDate] = useState<string>(
+    savedState ? (savedState.asOfDate ?? LEGACY_START_DATE) : todayIsoDate()
+  );
 
-  const [salaryData, setSalaryData] = useState<SalaryData>(savedState?.salaryData ?? defaultSalaryData);
+  // Household members (plans saved before members existed share one age and timeline)
+  const [household, setHousehold] = useState<HouseholdMember[]>(() => savedState?.household ?? migrateLegacyHousehold(
+    savedState?.salaryData ?? defaultSalaryData,
+    savedState?.initialAge ?? DEFAULT_INITIAL_AGE,
+    asOfDate,
+    {
+      transitionToHalfWorkYear: savedState?.simulationParams?.transitionToHalfWorkYear ?? defaultSimulationParams.transitionToHalfWorkYear,
+      stopWorkYear: savedState?.simulationParams?.stopWorkYear ?? defaultSimulationParams.stopWorkYear,
+    }
+  ));
+  
+  // Household timeline follows the member who stops working last; the sliders move everyone together
+  const { transitionToHalfWorkYear, stopWorkYear } = useMemo(() => getHouseholdTimeline(household), [household]);
+  const setTransitionToHalfWorkYear = (year: number) => 
+    setHousehold(members => shiftHouseholdTimeline(members, year, getHouseholdTimeline(members).stopWorkYear));
+  const setStopWorkYear = (year: number) => 
+    setHousehold(members => shiftHouseholdTimeline(members, getHouseholdTimeline(members).transitionToHalfWorkYear, year));
+  
+  // Ages on the as-of date; the simulation runs until the youngest member reaches the end of life age
+  const memberAges = useMemo(() => household.map(m => calculateAgeAtDate(m.birthDate, asOfDate)), [household, asOfDate]);
+  const initialAge = Math.min(...memberAges);
 
   const [currentAssets, setCurrentAssets] = useState<Asset[]>(savedState?.assets ?? defaultAssets);
   const [monthlyExpenses, setMonthlyExpenses] = useState<Expense[]>(savedState?.monthlyExpenses ?? defaultMonthlyExpenses);
@@ -278,6 +1139,25 @@ const App: React.FC = () => {
   // Property plan (can be disabled)
   const [propertyPlan, setPropertyPlan] = useState<PropertyPlan>(savedState?.propertyPlan ?? defaultPropertyPlan);
   
+  // Asset class returns and bucket strategy
+  const [assetClassPlan, setAssetClassPlan] = useState<AssetClassPlan>({ ...defaultAssetClassPlan, ...savedState?.assetClassPlan });
+  
+  // Retirement withdrawal strategy
+  const [withdrawalStrategy, setWithdrawalStrategy] = useState<WithdrawalStrategy>({ ...defaultWithdrawalStrategy, ...savedState?.withdrawalStrategy });
+  // Net mode grosses withdrawals up so taxes are paid on top of the spending target
+  const [netSpending, setNetSpending] = useState<boolean>(savedState?.netSpending ?? false);
+  // Settle each year's tax on combined income in December (off for plans saved before it existed)
+  const [annualTaxTrueUp, setAnnualTaxTrueUp] = useState<boolean>(
+    savedState ? (savedState.annualTaxTrueUp ?? false) : true
+  );
+  // Bituach Leumi old-age pension (off for plans saved before it existed)
+  const [oldAgePension, setOldAgePension] = useState<boolean>(
+    savedState ? (savedState.oldAgePension ?? false) : true
+  );
+  const [retireeNationalInsurance, setRetireeNationalInsurance] = useState<boolean>(
+    savedState ? (savedState.retireeNationalInsurance ?? false) : true
+  );
+  
   // Import/Export state
   const [showImportModal, setShowImportModal] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
@@ -289,22 +1169,31 @@ const App: React.FC = () => {
   
   const saveState = useCallback(() => {
     const stateToSave = {
+      asOfDate,
       initialAge,
       assets: currentAssets,
       monthlyExpenses,
       yearlyExpenses,
-      salaryData,
+      salaryData: householdToSalaryData(household),
+      household,
       equityCompanies,
       propertyPlan,
+      assetClassPlan,
+      withdrawalStrategy,
+      netSpending,
+      annualTaxTrueUp,
+      oldAgePension,
+      retireeNationalInsurance,
       simulationParams: {
         returnRate,
+        volatility,
         inflationRate,
         transitionToHalfWorkYear,
         stopWorkYear,
       },
     };
     localStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(stateToSave));
-  }, [initialAge, currentAssets, monthlyExpenses, yearlyExpenses, salaryData, equityCompanies, propertyPlan, returnRate, inflationRate, transitionToHalfWorkYear, stopWorkYear]);
+  }, [asOfDate, initialAge, currentAssets, monthlyExpenses, yearlyExpenses, household, equityCompanies, propertyPlan, assetClassPlan, withdrawalStrategy, netSpending, annualTaxTrueUp, oldAgePension, retireeNationalInsurance, returnRate, volatility, inflationRate, transitionToHalfWorkYear, stopWorkYear]);
   
   // Debounced auto-save effect
   useEffect(() => {
@@ -332,6 +1221,23 @@ const App: React.FC = () => {
   const [leftIdx, setLeftIdx] = useState<number | 'dataMin'>('dataMin');
   const [rightIdx, setRightIdx] = useState<number | 'dataMax'>('dataMax');
 
+  // Monte Carlo mode (percentile bands around the deterministic line)
+  const [monteCarloEnabled, setMonteCarloEnabled] = useState(false);
+
+  // Historical backtest portfolio mix (share of TA-125, the rest S&P 500 in ILS)
+  const [backtestTa125Share, setBacktestTa125Share] = useState<number>(50);
+
+  // Retirement solver target (net ₪/month in today's money); null follows the current budget
+  const [retirementTarget, setRetirementTarget] = useState<number | null>(null);
+
+  // Retirement timing heatmap (hundreds of searches, so only on demand and in a worker)
+  const [heatmapEnabled, setHeatmapEnabled] = useState(false);
+  const [retirementHeatmap, setRetirementHeatmap] = useState<RetirementHeatmap | null>(null);
+  const [heatmapPending, setHeatmapPending] = useState(false);
+
+  // Sensitivity (tornado) analysis of the optimal withdrawal
+  const [sensitivityEnabled, setSensitivityEnabled] = useState(false);
+
   // Helper functions
   const updateRowGeneric = <T extends { id: number }>(
     setter: React.Dispatch<React.SetStateAction<T[]>>, 
@@ -387,12 +1293,30 @@ const App: React.FC = () => {
   const totalAssetsNow = useMemo(() => calculateTotalAssets(currentAssets), [currentAssets]);
   const pensionInitialValue = useMemo(() => calculatePensionValue(currentAssets), [currentAssets]);
   const investmentInitialValue = useMemo(() => calculateInvestmentValue(currentAssets), [currentAssets]);
+  const investmentAllocation = useMemo(() => calculateInvestmentAllocation(currentAssets), [currentAssets]);
+  const investmentCostBasis = useMemo(() => calculateInvestmentCostBasis(currentAssets), [currentAssets]);
+  const studyFunds = useMemo(() => buildStudyFundParams(currentAssets, asOfDate), [currentAssets, asOfDate]);
+  const investmentFees = useMemo(() => calculateInvestmentFees(currentAssets), [currentAssets]);
 
   const budgetSummary = useMemo(() => 
-    calculateBudgetSummary(monthlyExpenses, yearlyExpenses, salaryData), 
-    [monthlyExpenses, yearlyExpenses, salaryData]
+    calculateBudgetSummary(monthlyExpenses, yearlyExpenses, household, asOfDate), 
+    [monthlyExpenses, yearlyExpenses, household, asOfDate]
+  );
+
+  // Members with years relative to the household timeline, so moving the sliders doesn't rebuild the plan
+  const householdShapeKey = JSON.stringify(household.map(m => ({ 
+    ...m, 
+    transitionToHalfWorkYear: m.transitionToHalfWorkYear - transitionToHalfWorkYear, 
+    stopWorkYear: m.stopWorkYear - stopWorkYear 
+  })));
+  const householdParams = useMemo(
+    () => buildHouseholdParams(JSON.parse(householdShapeKey) as HouseholdMember[], currentAssets, asOfDate),
+    [householdShapeKey, currentAssets, asOfDate]
   );
 
+  const updateHouseholdMember = (idx: number, changes: Partial<HouseholdMember>) => 
+    setHousehold(members => members.map((m, i) => (i === idx ? { ...m, ...changes } : m)));
+
   // Convert equity companies to simulation format
   const equityCompaniesForSim = useMemo(() => {
     return equityCompanies.map(company => ({
@@ -412,56 +1336,161 @@ const App: React.FC = () => {
     return propertyPlan.config;
   }, [propertyPlan]);
 
-  const simResult = useMemo(() => {
-    return findOptimalWithdrawal({
-      investmentInitialValue,
-      pensionInitialValue,
-      returnRate,
-      inflationRate,
-      transitionToHalfWorkYear,
-      stopWorkYear,
-      budgetSummary,
-      monthlyExpenses,
-      yearlyExpenses,
-      propertyConfig: effectivePropertyConfig,
-      equityCompanies: equityCompaniesForSim,
-      initialAge: initialAge,
-      endOfLifeAge: END_OF_LIFE_AGE,
-    });
-  }, [
-    returnRate, inflationRate, budgetSummary, transitionToHalfWorkYear, 
-    stopWorkYear, effectivePropertyConfig, equityCompaniesForSim, investmentInitialValue, 
-    pensionInitialValue, monthlyExpenses, yearlyExpenses, initialAge
+  // Plan without the work timeline, so timeline analyses don't rerun when only the sliders move
+  const planParams = useMemo<Omit<SimulationParams, 'transitionToHalfWorkYear' | 'stopWorkYear'>>(() => ({
+    investmentInitialValue,
+    pensionInitialValue,
+    returnRate,
+    inflationRate,
+    budgetSummary,
+    monthlyExpenses,
+    yearlyExpenses,
+    propertyConfig: effectivePropertyConfig,
+    equityCompanies: equityCompaniesForSim,
+    initialAge: initialAge,
+    endOfLifeAge: END_OF_LIFE_AGE,
+    investmentAllocation,
+    assetClassReturns: assetClassPlan.enabled ? assetClassPlan.returns : undefined,
+    bucketStrategy: assetClassPlan.bucketEnabled ? assetClassPlan.bucket : undefined,
+    glidePath: assetClassPlan.enabled && assetClassPlan.glidePathEnabled ? assetClassPlan.glidePath : undefined,
+    withdrawalStrategy,
+    startDate: asOfDate,
+    household: householdParams,
+    investmentCostBasis,
+    netSpending,
+    annualTaxTrueUp,
+    oldAgePension,
+    retireeNationalInsurance,
+    studyFunds,
+    investmentFees,
+  }), [
+    returnRate, inflationRate, budgetSummary, effectivePropertyConfig, equityCompaniesForSim, 
+    investmentInitialValue, pensionInitialValue, monthlyExpenses, yearlyExpenses, initialAge, 
+    investmentAllocation, assetClassPlan, withdrawalStrategy, asOfDate, householdParams, investmentCostBasis, netSpending, annualTaxTrueUp, oldAgePension, retireeNationalInsurance, studyFunds, investmentFees
   ]);
 
+  const simParams = useMemo<SimulationParams>(
+    () => ({ ...planParams, transitionToHalfWorkYear, stopWorkYear }), 
+    [planParams, transitionToHalfWorkYear, stopWorkYear]
+  );
+
+  const simResult = useMemo(() => findOptimalWithdrawal(simParams), [simParams]);
+  const spendingSummary = useMemo(
+    () => calculateSpendingSummary(simResult.data, stopWorkYear), 
+    [simResult.data, stopWorkYear]
+  );
+  const firstRetirementPoint = simResult.data.find(d => d.index >= stopWorkYear * 12);
+  const firstRetirementTrueUp = simResult.data.find(d => d.index >= stopWorkYear * 12 && d.taxTrueUp !== 0);
+
+  // Monte Carlo runs only when enabled on the scenario tab (hundreds of simulations)
+  const monteCarloResult = useMemo(() => {
+    if (!monteCarloEnabled || activeTab !== 'scenario') return null;
+    return runMonteCarlo(simResult.val, simParams, { volatility });
+  }, [monteCarloEnabled, activeTab, simResult.val, simParams, volatility]);
+
+  // Same plan with the comparison glide path
+  const comparisonGlideResult = useMemo(() => {
+    if (!simParams.glidePath || activeTab !== 'scenario') return null;
+    return findOptimalWithdrawal({ ...simParams, glidePath: assetClassPlan.comparisonGlidePath });
+  }, [simParams, activeTab, assetClassPlan.comparisonGlidePath]);
+
+  const startYear = getSimulationMonthDate(asOfDate, 0).getFullYear();
+
+  // The solver and the heatmap only vary the half-time and stop-work years, which life phases override
+  const lifePhasesSet = hasLifePhases(planParams);
+
+  // Earliest stop-work / half-time years for the target spend
+  const solverTarget = retirementTarget ?? budgetSummary.totalExpenseToday;
+  const retirementSolverResult = useMemo(() => {
+    if (activeTab !== 'scenario' || lifePhasesSet) return null;
+    return findEarliestRetirement(solverTarget, { ...planParams, transitionToHalfWorkYear: 0, stopWorkYear: 0 });
+  }, [activeTab, solverTarget, planParams, lifePhasesSet]);
+
+  // Optimal withdrawal over all half-time / stop-work combinations (runs only when shown)
+  // Takes seconds, so it runs in a worker once edits pause; a newer plan cancels the running one
+  useEffect(() => {
+    if (!heatmapEnabled || activeTab !== 'scenario' || lifePhasesSet) {
+      setRetirementHeatmap(null);
+      setHeatmapPending(false);
+      return;
+    }
+    setHeatmapPending(true);
+    let worker: Worker | null = null;
+    const timeout = setTimeout(() => {
+      worker = new Worker(new URL('./utils/heatmapWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<RetirementHeatmap>) => {
+        setRetirementHeatmap(e.data);
+        setHeatmapPending(false);
+        worker?.terminate();
+      };
+      worker.postMessage({ ...planParams, transitionToHalfWorkYear: 0, stopWorkYear: 0 });
+    }, HEATMAP_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timeout);
+      worker?.terminate();
+    };
+  }, [heatmapEnabled, activeTab, planParams, lifePhasesSet]);
+
+  // Nudge each input down and up around the current optimal withdrawal
+  const sensitivityResults = useMemo(() => {
+    if (!sensitivityEnabled || activeTab !== 'scenario') return null;
+    return runSensitivityAnalysis(simParams, simResult.val);
+  }, [sensitivityEnabled, activeTab, simParams, simResult.val]);
+
+  // Historical backtest of the current optimal withdrawal (one simulation per start year)
+  const backtestResult = useMemo(() => {
+    if (activeTab !== 'scenario') return null;
+    return runHistoricalBacktest(simResult.val, simParams, HISTORICAL_RETURNS, { 
+      ta125Share: backtestTa125Share / 100 
+    });
+  }, [activeTab, simResult.val, simParams, backtestTa125Share]);
+
+  // Chart data: deterministic line, plus 10-90 percentile band and median when Monte Carlo is on
+  const chartData = useMemo(() => {
+    if (!monteCarloResult) return simResult.data;
+    return simResult.data.map((d, i) => {
+      const band = monteCarloResult.bands[i];
+      return { ...d, mcRange: [band.p10, band.p90], mcMedian: band.p50 };
+    });
+  }, [simResult.data, monteCarloResult]);
+
   // Base timeline for equity charts (60 months)
   const equityTimeline = useMemo(() => {
-    const data: Array<{ index: number; label: string }> = [];
-    const base = new Date(2026, 0, 1);
+    const data: Array<{ index: number; label: string; date: Date }> = [];
     for (let i = 0; i <= 60; i++) {
-      const d = new Date(base.getFullYear(), base.getMonth() + i, 1);
+      const d = getSimulationMonthDate(asOfDate, i);
       data.push({ 
         index: i, 
         label: `${d.getMonth()+1}/${d.getFullYear()}`,
+        date: d,
       });
     }
     return data;
-  }, []);
+  }, [asOfDate]);
 
   // Export/Import handlers
   const handleExport = () => {
     const exportData: AppExportData = {
       version: EXPORT_VERSION,
       exportDate: new Date().toISOString(),
+      asOfDate,
       initialAge,
       assets: currentAssets,
       monthlyExpenses,
       yearlyExpenses,
-      salaryData,
+      salaryData: householdToSalaryData(household),
+      household,
       equityCompanies,
       propertyPlan,
+      assetClassPlan,
+      withdrawalStrategy,
+      netSpending,
+      annualTaxTrueUp,
+      oldAgePension,
+      retireeNationalInsurance,
       simulationParams: {
         returnRate,
+        volatility,
         inflationRate,
         transitionToHalfWorkYear,
         stopWorkYear,
@@ -493,19 +1522,28 @@ const App: React.FC = () => {
       
       if (data) {
         // Apply imported data
-        if (data.initialAge !== undefined) {
-          setInitialAge(data.initialAge);
-        }
+        const importedAsOfDate = data.asOfDate ?? LEGACY_START_DATE;
+        setAsOfDate(importedAsOfDate);
+        setHousehold(data.household ?? migrateLegacyHousehold(
+          data.salaryData, 
+          data.initialAge ?? initialAge, 
+          importedAsOfDate, 
+          data.simulationParams
+        ));
         setCurrentAssets(data.assets);
         setMonthlyExpenses(data.monthlyExpenses);
         setYearlyExpenses(data.yearlyExpenses);
-        setSalaryData(data.salaryData);
         setEquityCompanies(data.equityCompanies);
         setPropertyPlan(data.propertyPlan);
+        setAssetClassPlan({ ...defaultAssetClassPlan, ...data.assetClassPlan });
+        setWithdrawalStrategy({ ...defaultWithdrawalStrategy, ...data.withdrawalStrategy });
+        setNetSpending(data.netSpending ?? false);
+        setAnnualTaxTrueUp(data.annualTaxTrueUp ?? false);
+        setOldAgePension(data.oldAgePension ?? false);
+        setRetireeNationalInsurance(data.retireeNationalInsurance ?? false);
         setReturnRate(data.simulationParams.returnRate);
+        setVolatility(data.simulationParams.volatility ?? defaultSimulationParams.volatility);
         setInflationRate(data.simulationParams.inflationRate);
-        setTransitionToHalfWorkYear(data.simulationParams.transitionToHalfWorkYear);
-        setStopWorkYear(data.simulationParams.stopWorkYear);
         
         if (validation.warnings.length > 0) {
           setImportWarnings(validation.warnings);
@@ -578,10 +1616,13 @@ const App: React.FC = () => {
       d.index >= (leftIdx as number) && d.index <= (rightIdx as number)
     );
     if (visibleData.length === 0) return ['auto', 'auto'];
-    const maxVal = Math.max(...visibleData.map(d => d.totalLegacy));
-    const minVal = Math.min(...visibleData.map(d => d.totalLegacy));
+    const visibleBands = monteCarloResult?.bands.filter(b => 
+      b.index >= (leftIdx as number) && b.index <= (rightIdx as number)
+    ) ?? [];
+    const maxVal = Math.max(...visibleData.map(d => d.totalLegacy), ...visibleBands.map(b => b.p90));
+    const minVal = Math.min(...visibleData.map(d => d.totalLegacy), ...visibleBands.map(b => b.p10));
     return [Math.floor(minVal * 0.95), Math.ceil(maxVal * 1.05)];
-  }, [leftIdx, rightIdx, simResult.data]);
+  }, [leftIdx, rightIdx, simResult.data, monteCarloResult]);
 
   return (
     <div className="p-6 bg-slate-50 min-h-screen text-right font-sans select-none" dir="rtl">
@@ -646,18 +1687,19 @@ const App: React.FC = () => {
               Wealth Planner Pro <ShieldCheck className="text-emerald-500" size={20}/>
             </h1>
             <div className="flex items-center justify-end gap-4 text-slate-400 font-bold text-xs uppercase">
-              <span className="flex items-center gap-1 text-slate-500"><Clock size={14}/> 10.01.2026</span>
-              <span className="text-blue-500 tracking-tight flex items-center gap-1">
-                גיל:
+              <span className="flex items-center gap-1 text-slate-500">
+                <Clock size={14}/>
                 <input
-                  type="number"
-                  value={initialAge}
-                  onChange={(e) => setInitialAge(parseInt(e.target.value) || DEFAULT_INITIAL_AGE)}
-                  className="bg-blue-50 border border-blue-200 rounded px-2 py-0.5 w-12 text-center font-bold outline-none focus:ring-1 focus:ring-blue-300"
-                  min={18}
-                  max={80}
+                  type="date"
+                  value={asOfDate}
+                  onChange={(e) => e.target.value && setAsOfDate(e.target.value)}
+                  className="bg-transparent font-bold text-slate-500 outline-none"
+                  title="תאריך תחילת התוכנית"
                 />
               </span>
+              <span className="text-blue-500 tracking-tight flex items-center gap-1" title={household.map(m => m.name).join(' / ')}>
+                גיל: {memberAges.map(age => Math.floor(age)).join(' / ')}
+              </span>
               <button
                 onClick={handleExport}
                 className="flex items-center gap-1 bg-emerald-50 text-emerald-600 px-3 py-1 rounded-full hover:bg-emerald-100 transition-all"
@@ -676,7 +1718,7 @@ const App: React.FC = () => {
             <MiniCard label="נכסים היום" value={totalAssetsNow} color="slate" />
             <MiniCard label="הוצאה חודשית (ממוצעת)" value={budgetSummary.totalExpenseToday} color="rose" />
             <div className="bg-emerald-700 text-white p-6 rounded-3xl flex flex-col justify-center min-w-[200px] shadow-xl ring-2 ring-emerald-500 text-right">
-              <span className="text-[10px] font-black uppercase mb-1 opacity-90 tracking-widest">משיכה חודשית מקסימלית (נטו)</span>
+              <span className="text-[10px] font-black uppercase mb-1 opacity-90 tracking-widest">{withdrawalStrategy.type === 'constant' ? 'משיכה חודשית מקסימלית' : 'משיכה התחלתית מקסימלית'} {netSpending ? '(נטו)' : '(כולל מס)'}</span>
               <span className="text-3xl font-black tracking-tighter text-left">₪{simResult.val.toLocaleString()}</span>
             </div>
           </div>
@@ -716,6 +1758,72 @@ const App: React.FC = () => {
                       value={asset.value} 
                       onChange={(v) => updateRowGeneric(setCurrentAssets, currentAssets, idx, 'value', v)} 
                     />
+                    <select
+                      value={asset.type}
+                      onChange={(e) => updateRowGeneric(setCurrentAssets, currentAssets, idx, 'type', e.target.value)}
+                      className="bg-white border border-slate-100 rounded p-1 text-xs font-bold text-slate-600 outline-none"
+                      title="סוג"
+                    >
+                      {(Object.keys(ASSET_TYPE_LABELS) as Asset['type'][]).map(type => (
+                        <option key={type} value={type}>{ASSET_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    {asset.type === 'hishtalmut' && (
+                      <input
+                        type="date"
+                        value={asset.openDate ?? ''}
+                        onChange={(e) => updateRowGeneric(setCurrentAssets, currentAssets, idx, 'openDate', e.target.value || undefined)}
+                        className="bg-white border border-slate-100 rounded p-1 text-xs font-bold text-slate-600 outline-none"
+                        title="תאריך פתיחה (נזילה אחרי 6 שנים; בלי תאריך - נפתחת היום)"
+                      />
+                    )}
+                    {(asset.type === 'pension' || asset.type === 'hishtalmut') && household.length > 1 && (
+                      <select
+                        value={asset.ownerId ?? household[0].id}
+                        onChange={(e) => updateRowGeneric(setCurrentAssets, currentAssets, idx, 'ownerId', e.target.value)}
+                        className="bg-white border border-slate-100 rounded p-1 text-xs font-bold text-slate-600 outline-none"
+                        title="בעלים"
+                      >
+                        {household.map(m => (
+                          <option key={m.id} value={m.id}>{m.name}</option>
+                        ))}
+                      </select>
+                    )}
+                    <label className="flex flex-col items-center text-[9px] font-bold text-slate-400" title="דמי ניהול: % מהצבירה בשנה / % מההפקדה">
+                      דמי ניהול
+                      <span className="flex gap-0.5">
+                        <input
+                          type="number"
+                          step="0.05"
+                          className="w-12 bg-white border border-slate-100 rounded p-0.5 text-left font-black text-[10px] text-slate-700"
+                          value={asset.balanceFee ?? 0}
+                          onChange={(e) => updateRowGeneric(setCurrentAssets, currentAssets, idx, 'balanceFee', Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                        />
+                        <input
+                          type="number"
+                          step="0.1"
+                          className="w-12 bg-white border border-slate-100 rounded p-0.5 text-left font-black text-[10px] text-slate-700"
+                          value={asset.depositFee ?? 0}
+                          onChange={(e) => updateRowGeneric(setCurrentAssets, currentAssets, idx, 'depositFee', Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                        />
+                      </span>
+                    </label>
+                    {(asset.type === 'liquid' || asset.type === 'invest') && (
+                      <>
+                        <label className="flex flex-col items-center text-[9px] font-bold text-slate-400" title="עלות הרכישה, לחישוב מס רווח הון ריאלי">
+                          עלות
+                          <FormattedNumberInput
+                            className="w-24 bg-white border border-slate-100 rounded p-0.5 text-left font-black text-[10px] text-slate-700"
+                            value={asset.costBasis ?? asset.value}
+                            onChange={(v) => updateRowGeneric(setCurrentAssets, currentAssets, idx, 'costBasis', v)}
+                          />
+                        </label>
+                        <AllocationInput
+                          allocation={asset.allocation ?? { stocks: 100, bonds: 0, cash: 0 }}
+                          onChange={(v) => updateRowGeneric(setCurrentAssets, currentAssets, idx, 'allocation', v)}
+                        />
+                      </>
+                    )}
                     <button 
                       onClick={() => deleteRowGeneric(setCurrentAssets, currentAssets, idx)} 
                       className="text-slate-200 hover:text-red-500 opacity-0 group-hover:opacity-100"
@@ -734,6 +1842,11 @@ const App: React.FC = () => {
               <div className="bg-slate-900 rounded-[2.5rem] p-10 text-white flex flex-col justify-center items-center relative overflow-hidden shadow-2xl text-right">
                 <p className="text-slate-400 font-bold uppercase text-xs mb-1 tracking-widest tracking-tighter">סה״כ הון התחלתי</p>
                 <p className="text-5xl font-black text-emerald-400 tracking-tighter">₪{formatNumber(totalAssetsNow)}</p>
+                {simResult.data.length > 0 && simResult.data[simResult.data.length - 1].totalFees > 0 && (
+                  <p className="mt-4 text-sm font-bold text-slate-400">
+                    דמי ניהול לאורך החיים: <span className="text-rose-400 font-black">₪{formatNumber(simResult.data[simResult.data.length - 1].totalFees)}</span>
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -743,20 +1856,188 @@ const App: React.FC = () => {
         {activeTab === 'budget' && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 animate-in slide-in-from-bottom-4 duration-500 pb-12 text-right">
             <div className="space-y-8 text-right">
-              <SalaryBox 
-                name="משכורת 1" 
-                gross={salaryData.person1Gross} 
-                net={salaryData.person1Net} 
-                onGross={(v) => setSalaryData({...salaryData, person1Gross: v})} 
-                onNet={(v) => setSalaryData({...salaryData, person1Net: v})} 
-              />
-              <SalaryBox 
-                name="משכורת 2" 
-                gross={salaryData.person2Gross} 
-                net={salaryData.person2Net} 
-                onGross={(v) => setSalaryData({...salaryData, person2Gross: v})} 
-                onNet={(v) => setSalaryData({...salaryData, person2Net: v})} 
-              />
+              {household.map((member, idx) => (
+                <div key={member.id} className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-4 text-right">
+                  <div className="flex items-center gap-3">
+                    <input 
+                      type="text"
+                      className="flex-1 font-black text-slate-800 bg-transparent border-none outline-none focus:bg-slate-50 focus:rounded focus:px-2 text-right" 
+                      value={member.name}
+                      onChange={(e) => updateHouseholdMember(idx, { name: e.target.value })} 
+                    />
+                    <input
+                      type="date"
+                      value={member.birthDate}
+                      onChange={(e) => e.target.value && updateHouseholdMember(idx, { birthDate: e.target.value })}
+                      className="bg-slate-50 border border-slate-100 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 outline-none"
+                      title="תאריך לידה"
+                    />
+                    <select
+                      value={getMemberGender(member)}
+                      onChange={(e) => {
+                        const gender = e.target.value as Gender;
+                        updateHouseholdMember(idx, { gender, creditPoints: member.creditPoints && { ...member.creditPoints, gender } });
+                      }}
+                      className="bg-slate-50 border border-slate-100 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 outline-none"
+                      title="מגדר"
+                    >
+                      <option value="male">גבר</option>
+                      <option value="female">אישה</option>
+                    </select>
+                    <span className="text-xs font-bold text-blue-500">גיל {Math.floor(memberAges[idx])}</span>
+                    {household.length > 1 && (
+                      <button 
+                        onClick={() => setHousehold(household.filter((_, i) => i !== idx))} 
+                        className="text-slate-300 hover:text-red-500"
+                      >
+                        <Trash2 size={16}/>
+                      </button>
+                    )}
+                  </div>
+                  <SalaryBox 
+                    name="משכורת" 
+                    gross={member.grossSalary} 
+                    net={member.netSalary} 
+                    onGross={(v) => updateHouseholdMember(idx, { grossSalary: v })} 
+                    onNet={(v) => updateHouseholdMember(idx, { netSalary: v })} 
+                    payslip={member.deriveNet ? calculatePayslip(
+                      member.grossSalary, 
+                      member.creditPoints ? calculateCreditPoints(member.creditPoints, Number(asOfDate.slice(0, 4))) : 0,
+                      member.pensionContributions
+                    ) : undefined}
+                    onDeriveNet={(deriveNet) => updateHouseholdMember(idx, { deriveNet })}
+                  />
+                  <SalaryPathBox 
+                    growth={member.salaryGrowth} 
+                    steps={member.salarySteps} 
+                    deriveNet={!!member.deriveNet} 
+                    defaultStepDate={asOfDate} 
+                    onChange={(changes) => updateHouseholdMember(idx, changes)} 
+                  />
+                  <CreditPointsBox 
+                    profile={member.creditPoints} 
+                    gender={getMemberGender(member)}
+                    year={Number(asOfDate.slice(0, 4))} 
+                    onChange={(creditPoints) => updateHouseholdMember(idx, { creditPoints })} 
+                  />
+                  <PensionContributionsBox 
+                    contributions={member.pensionContributions} 
+                    grossSalary={member.grossSalary} 
+                    onChange={(pensionContributions) => updateHouseholdMember(idx, { pensionContributions })} 
+                  />
+                  <AnnuityBox 
+                    options={member.annuity} 
+                    gender={getMemberGender(member)} 
+                    birthYear={Number(member.birthDate.slice(0, 4))} 
+                    onChange={(annuity) => updateHouseholdMember(idx, { annuity })} 
+                  />
+                  {(() => {
+                    const birthYear = Number(member.birthDate.slice(0, 4));
+                    const startAge = member.annuity?.startAge ?? MIN_ANNUITY_AGE;
+                    const factor = member.annuity 
+                      ? calculateConversionFactor(startAge, getMemberGender(member), birthYear, member.annuity) 
+                      : FIXED_COEFFICIENT;
+                    return (
+                      <RightsFixingBox 
+                        options={member.rightsFixing} 
+                        monthlyAnnuity={(householdParams[idx]?.pensionInitialValue ?? 0) / factor} 
+                        year={birthYear + startAge} 
+                        annualTaxCredit={member.creditPoints ? calculateTaxCredit(calculateCreditPoints(member.creditPoints, birthYear + startAge)) : 0} 
+                        months={Math.max(0, END_OF_LIFE_AGE - startAge) * 12} 
+                        onChange={(rightsFixing) => updateHouseholdMember(idx, { rightsFixing })} 
+                      />
+                    );
+                  })()}
+                  <div className="grid grid-cols-3 gap-3 items-end">
+                    <StockInput label="שנים לחצי משרה" val={member.transitionToHalfWorkYear} onChange={(v) => updateHouseholdMember(idx, { transitionToHalfWorkYear: Math.max(0, v) })} />
+                    <StockInput label="שנים לפרישה" val={member.stopWorkYear} onChange={(v) => updateHouseholdMember(idx, { stopWorkYear: Math.max(0, v) })} />
+                    <div className="space-y-0.5 text-right">
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">יתרת פנסיה</p>
+                      <p className="p-2 font-black text-sm text-slate-700">₪{formatNumber(householdParams[idx]?.pensionInitialValue ?? 0)}</p>
+                    </div>
+                    <StockInput label="הכנסה משכירות (חודשי)" val={member.rentalIncome ?? 0} onChange={(v) => updateHouseholdMember(idx, { rentalIncome: v > 0 ? v : undefined })} />
+                  </div>
+                  <PartTimeBox 
+                    partTime={member.partTime} 
+                    grossSalary={member.grossSalary} 
+                    netSalary={member.netSalary} 
+                    deriveNet={!!member.deriveNet} 
+                    contributions={member.pensionContributions} 
+                    onChange={(partTime) => updateHouseholdMember(idx, { partTime })} 
+                  />
+                  <LifePhasesBox 
+                    phases={member.phases} 
+                    grossSalary={member.grossSalary} 
+                    netSalary={member.netSalary} 
+                    deriveNet={!!member.deriveNet} 
+                    defaultStartDate={addMonthsToDate(asOfDate, 12)} 
+                    onChange={(phases) => updateHouseholdMember(idx, { phases })} 
+                  />
+                  {oldAgePension && (() => {
+                    const pension = buildOldAgePension(member);
+                    const age = Math.floor(pension.age);
+                    const months = Math.round((pension.age - age) * 12);
+                    return (
+                      <div className="grid grid-cols-3 gap-3 items-end">
+                        <StockInput 
+                          label="מבוטח בביטוח לאומי משנת" 
+                          val={member.insuredSinceYear ?? Number(member.birthDate.slice(0, 4)) + 18} 
+                          onChange={(v) => updateHouseholdMember(idx, { insuredSinceYear: Math.round(v) || undefined })} 
+                        />
+                        <p className="col-span-2 pb-2 text-xs font-bold text-slate-500">
+                          קצבת זקנה מגיל {age}{months > 0 ? ` ו-${months} חודשים` : ''}: ₪{formatNumber(Math.round(pension.amount))} לחודש (בערכי היום)
+                        </p>
+                      </div>
+                    );
+                  })()}
+                </div>
+              ))}
+              <button 
+                onClick={() => addRowGeneric(setHousehold, household, { 
+                  id: `member-${Date.now()}`, 
+                  name: `בן/בת זוג ${household.length + 1}`, 
+                  birthDate: household[0]?.birthDate ?? asOfDate, 
+                  grossSalary: 0, 
+                  netSalary: 0, 
+                  transitionToHalfWorkYear, 
+                  stopWorkYear 
+                })} 
+                className="w-full p-2 border-2 border-dashed border-slate-200 rounded-xl text-slate-400 font-bold hover:text-blue-500 transition-all text-xs text-right"
+              >
+                + הוספת בן/בת משפחה
+              </button>
+              <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-2 text-right">
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-bold text-slate-700">קצבת זקנה מביטוח לאומי</span>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={oldAgePension}
+                      onChange={(e) => setOldAgePension(e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                  </label>
+                </div>
+                <p className="text-sm text-slate-500 font-medium italic">
+                  כל בן משפחה מקבל קצבה מגיל הזכאות (לפי שנת לידה ומגדר) עם תוספת ותק ותוספת בן/בת זוג תלוי/ה, צמודה למדד. הקצבה נכללת בהכנסה ובהתחשבנות המס השנתית.
+                </p>
+                <div className="flex items-center gap-3 pt-2">
+                  <span className="text-sm font-bold text-slate-700">דמי ביטוח לאומי ובריאות בפרישה מוקדמת</span>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={retireeNationalInsurance}
+                      onChange={(e) => setRetireeNationalInsurance(e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                  </label>
+                </div>
+                <p className="text-sm text-slate-500 font-medium italic">
+                  מי שהפסיק/ה לעבוד משלם/ת עד גיל הזכאות דמי ביטוח כמי שאינו עובד: תשלום מינימלי, או לפי שיעורי הכנסה פסיבית על קצבה ומשיכות פנסיה. התשלום יורד מהתיק.
+                </p>
+              </div>
               <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-100 space-y-6 text-right">
                 <div className="flex justify-between items-center text-right">
                   <h3 className="font-bold text-slate-800 text-right">הוצאות שנתיות</h3>
@@ -819,7 +2100,7 @@ const App: React.FC = () => {
               const colors = colorClasses[company.color] || colorClasses.blue;
               const totalShares = company.totalShares || company.contracts.reduce((sum, c) => sum + c.shares, 0);
               const vestingData = equityTimeline.map(point => {
-                const vesting = getVestingAtDate(company.contracts, new Date(2026, point.index, 1));
+                const vesting = getVestingAtDate(company.contracts, point.date);
                 return { ...point, vested: Math.round(vesting.totalVested), cost: Math.round(vesting.totalCost), details: vesting.details };
               });
 
@@ -1069,13 +2350,366 @@ const App: React.FC = () => {
         {/* Scenario Tab */}
         {activeTab === 'scenario' && (
           <div className="space-y-6 animate-in fade-in duration-500 pb-12 text-right">
-            <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-100 grid grid-cols-1 md:grid-cols-4 gap-8 shadow-sm text-right">
+            <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-100 grid grid-cols-1 md:grid-cols-5 gap-8 shadow-sm text-right">
               <ControlSlider label="תשואה שנתית (%)" value={returnRate} min={1} max={12} step={0.5} onChange={setReturnRate} color="blue" />
+              <ControlSlider label="תנודתיות שנתית (%)" value={volatility} min={0} max={30} step={1} onChange={setVolatility} color="blue" />
               <ControlSlider label="אינפלציה (%)" value={inflationRate} min={0} max={6} step={0.1} onChange={setInflationRate} color="orange" />
               <ControlSlider label="שנים לחצי משרה" value={transitionToHalfWorkYear} min={0} max={20} step={1} onChange={setTransitionToHalfWorkYear} color="emerald" />
               <ControlSlider label="שנים לפרישה" value={stopWorkYear} min={0} max={40} step={1} onChange={setStopWorkYear} color="purple" />
             </div>
 
+            {/* Retirement Solver Panel */}
+            {lifePhasesSet && (
+              <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-2 text-right">
+                <h4 className="font-black text-slate-800">מתי אפשר להפסיק לעבוד?</h4>
+                <p className="text-sm text-slate-500 font-medium italic">
+                  לא זמין כשמוגדרים שלבי חיים: השלבים קובעים מתי עובדים, ולא שנות חצי המשרה והפרישה.
+                </p>
+              </div>
+            )}
+            {retirementSolverResult && (
+              <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 flex flex-col md:flex-row justify-between items-center gap-6 text-right">
+                <div className="space-y-2">
+                  <h4 className="font-black text-slate-800">מתי אפשר להפסיק לעבוד?</h4>
+                  <div className="flex items-center gap-2 text-sm text-slate-500 font-medium">
+                    <span>הוצאה חודשית רצויה בפרישה (₪, במחירי היום):</span>
+                    <FormattedNumberInput
+                      className="w-28 bg-slate-50 border border-slate-100 rounded-lg p-1 text-center font-black text-slate-800 outline-none"
+                      value={solverTarget}
+                      onChange={setRetirementTarget}
+                    />
+                  </div>
+                  <p className="text-sm text-slate-500 font-medium italic">
+                    {retirementSolverResult.feasible
+                      ? `אפשר לעבור לחצי משרה בשנת ${startYear + retirementSolverResult.transitionToHalfWorkYear} (גיל ${Math.floor(initialAge + retirementSolverResult.transitionToHalfWorkYear)}) ולהפסיק לעבוד בשנת ${startYear + retirementSolverResult.stopWorkYear} (גיל ${Math.floor(initialAge + retirementSolverResult.stopWorkYear)}).`
+                      : `גם בעבודה מלאה עד שנת ${startYear + retirementSolverResult.stopWorkYear} הכסף לא מספיק להוצאה הזו.`
+                    }
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <MiniCard label="משיכה אפשרית במועד הזה" value={retirementSolverResult.maxWithdrawal} color="rose" />
+                  <MiniCard 
+                    label="מרווח ביטחון חודשי" 
+                    value={retirementSolverResult.slack} 
+                    color="slate" 
+                    display={solverTarget > 0 
+                      ? `₪${formatNumber(retirementSolverResult.slack)} (${Math.round(retirementSolverResult.slack / solverTarget * 100)}%)` 
+                      : undefined} 
+                  />
+                  {retirementSolverResult.feasible && (
+                    <button
+                      onClick={() => {
+                        setStopWorkYear(retirementSolverResult.stopWorkYear);
+                        setTransitionToHalfWorkYear(retirementSolverResult.transitionToHalfWorkYear);
+                      }}
+                      className="bg-blue-50 text-blue-600 px-4 py-2 rounded-full font-black text-xs hover:bg-blue-100 shadow-sm"
+                    >
+                      החל על התרחיש
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Retirement Timing Heatmap Panel */}
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-4 text-right">
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex items-center gap-3">
+                  <h4 className="font-black text-slate-800">מפת חום: חצי משרה מול פרישה</h4>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={heatmapEnabled && !lifePhasesSet}
+                      disabled={lifePhasesSet}
+                      onChange={(e) => setHeatmapEnabled(e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                  </label>
+                </div>
+                <p className="text-sm text-slate-500 font-medium italic flex-1">
+                  {lifePhasesSet
+                    ? 'לא זמין כשמוגדרים שלבי חיים: השלבים קובעים מתי עובדים, ולא שנות חצי המשרה והפרישה.'
+                    : heatmapPending
+                    ? 'מחשב את מפת החום...'
+                    : retirementHeatmap
+                    ? 'כל משבצת היא המשיכה החודשית המקסימלית לשילוב של שנים לחצי משרה ושנים לפרישה. לחיצה מעדכנת את התרחיש.'
+                    : 'הפעילו כדי לראות את המשיכה המקסימלית לכל שילוב של מועד מעבר לחצי משרה ומועד פרישה.'
+                  }
+                </p>
+                {retirementHeatmap?.marginalYearValues[transitionToHalfWorkYear]?.[stopWorkYear] != null && (
+                  <MiniCard 
+                    label="ערך שנת עבודה נוספת" 
+                    value={retirementHeatmap.marginalYearValues[transitionToHalfWorkYear][stopWorkYear] ?? 0} 
+                    color="slate" 
+                    display={`+₪${formatNumber(retirementHeatmap.marginalYearValues[transitionToHalfWorkYear][stopWorkYear] ?? 0)} לחודש`} 
+                  />
+                )}
+              </div>
+              {retirementHeatmap && (
+                <RetirementHeatmapGrid
+                  heatmap={retirementHeatmap}
+                  transitionToHalfWorkYear={transitionToHalfWorkYear}
+                  stopWorkYear={stopWorkYear}
+                  onSelect={(half, stop) => {
+                    setTransitionToHalfWorkYear(half);
+                    setStopWorkYear(stop);
+                  }}
+                />
+              )}
+            </div>
+
+            {/* Asset Class Panel */}
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-8 text-right">
+              <div className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <h4 className="font-black text-slate-800">תשואה לפי אפיק השקעה</h4>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={assetClassPlan.enabled}
+                      onChange={(e) => setAssetClassPlan({ ...assetClassPlan, enabled: e.target.checked })}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                  </label>
+                </div>
+                <p className="text-xs text-slate-500 font-medium italic">
+                  {assetClassPlan.enabled 
+                    ? `מניות לפי התשואה השנתית (${returnRate}%), אג״ח ומזומן לפי התשואה שלהם. החלוקה נקבעת בלשונית הנכסים.`
+                    : 'כל ההשקעות מניבות את התשואה השנתית.'
+                  }
+                </p>
+                {assetClassPlan.enabled && (
+                  <div className="grid grid-cols-2 gap-6">
+                    <ControlSlider label="תשואת אג״ח (%)" value={assetClassPlan.returns.bonds} min={0} max={8} step={0.5} onChange={(v) => setAssetClassPlan({ ...assetClassPlan, returns: { ...assetClassPlan.returns, bonds: v } })} color="emerald" />
+                    <ControlSlider label="תשואת מזומן (%)" value={assetClassPlan.returns.cash} min={0} max={6} step={0.5} onChange={(v) => setAssetClassPlan({ ...assetClassPlan, returns: { ...assetClassPlan.returns, cash: v } })} color="orange" />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <h4 className="font-black text-slate-800">אסטרטגיית דליים</h4>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={assetClassPlan.bucketEnabled}
+                      onChange={(e) => setAssetClassPlan({ ...assetClassPlan, bucketEnabled: e.target.checked })}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                  </label>
+                </div>
+                <p className="text-xs text-slate-500 font-medium italic">
+                  {assetClassPlan.bucketEnabled 
+                    ? `בפרישה מחזיקים ${assetClassPlan.bucket.years} שנות הוצאה ב${assetClassPlan.bucket.assetClass === 'cash' ? 'מזומן' : 'אג״ח'}, וממלאים מחדש ממניות פעם בשנה.`
+                    : 'המשיכה בפרישה נלקחת באופן יחסי מכל האפיקים.'
+                  }
+                </p>
+                {assetClassPlan.bucketEnabled && (
+                  <div className="grid grid-cols-2 gap-6 items-end">
+                    <ControlSlider label="שנות הוצאה בדלי" value={assetClassPlan.bucket.years} min={1} max={10} step={1} onChange={(v) => setAssetClassPlan({ ...assetClassPlan, bucket: { ...assetClassPlan.bucket, years: v } })} color="purple" />
+                    <select
+                      className="bg-slate-50 border border-slate-100 rounded-xl p-2 text-sm font-bold text-slate-700 outline-none"
+                      value={assetClassPlan.bucket.assetClass}
+                      onChange={(e) => setAssetClassPlan({ ...assetClassPlan, bucket: { ...assetClassPlan.bucket, assetClass: e.target.value as 'bonds' | 'cash' } })}
+                    >
+                      <option value="cash">מזומן</option>
+                      <option value="bonds">אג״ח</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+              {assetClassPlan.enabled && (
+                <div className="md:col-span-2 space-y-4 border-t pt-6">
+                  <div className="flex items-center gap-3">
+                    <h4 className="font-black text-slate-800">מסלול הקצאה לפי גיל (Glide Path)</h4>
+                    <label className="relative inline-flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={assetClassPlan.glidePathEnabled}
+                        onChange={(e) => setAssetClassPlan({ ...assetClassPlan, glidePathEnabled: e.target.checked })}
+                        className="sr-only peer"
+                      />
+                      <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                    </label>
+                  </div>
+                  <p className="text-xs text-slate-500 font-medium italic">
+                    {assetClassPlan.glidePathEnabled 
+                      ? 'היחס בין מניות לאג״ח מאוזן מחדש כל חודש לפי המסלול (המזומן לא משתנה).'
+                      : 'חלוקת ההשקעות נשארת לפי ההקצאה בלשונית הנכסים.'
+                    }
+                  </p>
+                  {assetClassPlan.glidePathEnabled && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-start">
+                      <GlidePathEditor 
+                        title="מסלול א׳ (פעיל)" 
+                        glidePath={assetClassPlan.glidePath} 
+                        onChange={(glidePath) => setAssetClassPlan({ ...assetClassPlan, glidePath })} 
+                      />
+                      <GlidePathEditor 
+                        title="מסלול ב׳ (להשוואה)" 
+                        glidePath={assetClassPlan.comparisonGlidePath} 
+                        onChange={(comparisonGlidePath) => setAssetClassPlan({ ...assetClassPlan, comparisonGlidePath })} 
+                      />
+                      {comparisonGlideResult && (
+                        <div className="space-y-3">
+                          <MiniCard label="משיכה חודשית - מסלול א׳" value={simResult.val} color="slate" />
+                          <MiniCard label="משיכה חודשית - מסלול ב׳" value={comparisonGlideResult.val} color="rose" />
+                          <p className={`text-xs font-black ${simResult.val >= comparisonGlideResult.val ? 'text-emerald-600' : 'text-rose-500'}`}>
+                            הפרש: ₪{formatNumber(simResult.val - comparisonGlideResult.val)} בחודש
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Withdrawal Strategy Panel */}
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-6 text-right">
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <h4 className="font-black text-slate-800">אסטרטגיית משיכה בפרישה</h4>
+                <select
+                  className="bg-slate-50 border border-slate-100 rounded-lg p-2 text-sm font-bold text-slate-700 outline-none"
+                  value={withdrawalStrategy.type}
+                  onChange={(e) => setWithdrawalStrategy({ ...withdrawalStrategy, type: e.target.value as WithdrawalStrategyType })}
+                >
+                  {(Object.keys(WITHDRAWAL_STRATEGY_INFO) as WithdrawalStrategyType[]).map(type => (
+                    <option key={type} value={type}>{WITHDRAWAL_STRATEGY_INFO[type].label}</option>
+                  ))}
+                </select>
+                <p className="text-sm text-slate-500 font-medium italic flex-1">
+                  {WITHDRAWAL_STRATEGY_INFO[withdrawalStrategy.type].description}
+                </p>
+              </div>
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-bold text-slate-700">הוצאה נטו (גילום מס)</span>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={netSpending}
+                      onChange={(e) => setNetSpending(e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                  </label>
+                </div>
+                <p className="text-sm text-slate-500 font-medium italic flex-1">
+                  {netSpending
+                    ? 'המשיכה מגולמת: המס על רווחי הון ועל הפנסיה משולם מהתיק בנוסף להוצאה.'
+                    : 'המס על רווחי הון נכלל בתוך המשיכה, כך שההוצאה בפועל נמוכה ממנה.'
+                  }
+                </p>
+                {firstRetirementPoint && (
+                  <div className="flex items-center gap-3">
+                    <MiniCard label={`ברוטו (${firstRetirementPoint.label})`} value={firstRetirementPoint.grossWithdrawal} color="rose" />
+                    <MiniCard label="מס" value={firstRetirementPoint.taxPaid} color="rose" />
+                    {firstRetirementPoint.nationalInsurance > 0 && (
+                      <MiniCard label="ביטוח לאומי ובריאות" value={firstRetirementPoint.nationalInsurance} color="rose" />
+                    )}
+                    <MiniCard label="נטו" value={firstRetirementPoint.netWithdrawal} color="slate" />
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-bold text-slate-700">התחשבנות מס שנתית</span>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={annualTaxTrueUp}
+                      onChange={(e) => setAnnualTaxTrueUp(e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                  </label>
+                </div>
+                <p className="text-sm text-slate-500 font-medium italic flex-1">
+                  {annualTaxTrueUp
+                    ? 'בדצמבר מחושב המס השנתי על כל ההכנסות יחד (שכר, קצבה, פנסיה, רווחי הון ואקזיטים) לכל בן משפחה, וההפרש מהמס שנוכה משולם מהתיק או מוחזר אליו.'
+                    : 'המס מחושב בכל חודש בנפרד, בלי התחשבנות שנתית על ההכנסה המצטברת.'
+                  }
+                </p>
+                {annualTaxTrueUp && firstRetirementTrueUp && (
+                  <MiniCard 
+                    label={`התחשבנות ראשונה בפרישה (${firstRetirementTrueUp.label})`} 
+                    value={Math.abs(firstRetirementTrueUp.taxTrueUp)} 
+                    display={`${firstRetirementTrueUp.taxTrueUp > 0 ? 'תשלום' : 'החזר'} ₪${formatNumber(Math.abs(firstRetirementTrueUp.taxTrueUp))}`}
+                    color="rose" 
+                  />
+                )}
+              </div>
+              {withdrawalStrategy.type !== 'constant' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
+                  <div className="space-y-4">
+                    {withdrawalStrategy.type === 'guytonKlinger' && (
+                      <>
+                        <ControlSlider label="סטייה שמפעילה מעקה (%)" value={withdrawalStrategy.guardrailBand} min={5} max={50} step={5} onChange={(v) => setWithdrawalStrategy({ ...withdrawalStrategy, guardrailBand: v })} color="purple" />
+                        <ControlSlider label="גודל קיצוץ/העלאה (%)" value={withdrawalStrategy.guardrailAdjustment} min={5} max={25} step={5} onChange={(v) => setWithdrawalStrategy({ ...withdrawalStrategy, guardrailAdjustment: v })} color="purple" />
+                      </>
+                    )}
+                    {withdrawalStrategy.type === 'floorCeiling' && (
+                      <>
+                        <ControlSlider label="רצפה (% מהמשיכה ההתחלתית)" value={withdrawalStrategy.floor} min={50} max={100} step={5} onChange={(v) => setWithdrawalStrategy({ ...withdrawalStrategy, floor: Math.min(v, withdrawalStrategy.ceiling) })} color="orange" />
+                        <ControlSlider label="תקרה (% מהמשיכה ההתחלתית)" value={withdrawalStrategy.ceiling} min={100} max={200} step={5} onChange={(v) => setWithdrawalStrategy({ ...withdrawalStrategy, ceiling: Math.max(v, withdrawalStrategy.floor) })} color="emerald" />
+                      </>
+                    )}
+                    <ControlSlider label="הוצאה מינימלית להצלחה (%)" value={withdrawalStrategy.minSpending} min={0} max={100} step={5} onChange={(v) => setWithdrawalStrategy({ ...withdrawalStrategy, minSpending: v })} color="blue" />
+                    <div className="grid grid-cols-3 gap-3">
+                      <MiniCard label="הוצאה מינימלית" value={spendingSummary.min} color="rose" />
+                      <MiniCard label="הוצאה ממוצעת" value={spendingSummary.average} color="rose" />
+                      <MiniCard label="הוצאה מקסימלית" value={spendingSummary.max} color="rose" />
+                    </div>
+                  </div>
+                  <div className="h-56">
+                    <p className="text-xs font-black text-slate-400 uppercase mb-2">הוצאה חודשית בפרישה (במחירי היום)</p>
+                    <ResponsiveContainer width="100%" height="90%">
+                      <AreaChart data={simResult.data.filter(d => d.index >= stopWorkYear * 12)}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                        <XAxis dataKey="fullAge" fontSize={9} stroke="#94a3b8" interval={11} />
+                        <YAxis stroke="#94a3b8" fontSize={10} tickFormatter={(val) => `₪${(val/1000).toFixed(0)}K`} />
+                        <Tooltip formatter={(val: number) => [`₪${formatNumber(val)}`, 'הוצאה ריאלית']} labelFormatter={(age) => `גיל ${age}`} />
+                        <Area type="stepAfter" dataKey="realSpending" stroke="#8b5cf6" fill="#ede9fe" strokeWidth={2} />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Monte Carlo Panel */}
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 flex flex-col md:flex-row justify-between items-center gap-6 text-right">
+              <div className="flex items-center gap-3">
+                <h4 className="font-black text-slate-800">סימולציית מונטה קרלו</h4>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={monteCarloEnabled}
+                    onChange={(e) => setMonteCarloEnabled(e.target.checked)}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                </label>
+              </div>
+              <p className="text-sm text-slate-500 font-medium italic flex-1">
+                {monteCarloResult
+                  ? `${monteCarloResult.runs} מסלולי תשואה אקראיים בתנודתיות ${volatility}% עבור משיכה של ₪${formatNumber(simResult.val)} בחודש.`
+                  : 'הפעילו כדי לבדוק את המשיכה המקסימלית מול מסלולי תשואה אקראיים.'
+                }
+              </p>
+              {monteCarloResult && (
+                <MiniCard 
+                  label="סיכוי לא להישאר בלי כסף" 
+                  value={0} 
+                  color="slate" 
+                  display={`${Math.round(monteCarloResult.successProbability * 100)}%`} 
+                />
+              )}
+            </div>
+
             <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-100 relative overflow-hidden text-right">
               <div className="flex justify-between items-center mb-8 px-2 text-right">
                 <h3 className="text-xl font-bold text-slate-800 flex items-center justify-end gap-2">
@@ -1096,10 +2730,17 @@ const App: React.FC = () => {
                 </div>
               </div>
               
+              <LifePhaseGantt 
+                household={household} 
+                startDate={asOfDate} 
+                fromMonth={leftIdx === 'dataMin' ? 0 : leftIdx} 
+                toMonth={rightIdx === 'dataMax' ? simResult.data[simResult.data.length - 1]?.index ?? 0 : rightIdx} 
+                onChange={(memberIdx, phases) => updateHouseholdMember(memberIdx, { phases })} 
+              />
               <div className="h-[550px] text-right">
                 <ResponsiveContainer width="100%" height="100%">
                   <AreaChart 
-                    data={simResult.data} 
+                    data={chartData} 
                     onMouseDown={handleMouseDown} 
                     onMouseMove={handleMouseMove} 
                     onMouseUp={handleZoom}
@@ -1138,6 +2779,28 @@ const App: React.FC = () => {
                                 <span>הון נזיל להשקעה:</span>
                                 <span className="font-black text-left">₪{d.investments.toLocaleString()}</span>
                               </div>
+                              {(d.investmentsBonds > 0 || d.investmentsCash > 0) && (
+                                <div className="pr-3 space-y-0.5 text-[11px] text-slate-500">
+                                  <div className="flex justify-between items-center">
+                                    <span>מניות:</span>
+                                    <span className="font-bold">₪{d.investmentsStocks.toLocaleString()}</span>
+                                  </div>
+                                  <div className="flex justify-between items-center">
+                                    <span>אג״ח:</span>
+                                    <span className="font-bold">₪{d.investmentsBonds.toLocaleString()}</span>
+                                  </div>
+                                  <div className="flex justify-between items-center">
+                                    <span>מזומן:</span>
+                                    <span className="font-bold">₪{d.investmentsCash.toLocaleString()}</span>
+                                  </div>
+                                </div>
+                              )}
+                              {d.studyFunds > 0 && (
+                                <div className="flex justify-between items-center text-teal-600 font-medium">
+                                  <span>קרנות השתלמות:</span>
+                                  <span className="font-black text-left">₪{d.studyFunds.toLocaleString()}</span>
+                                </div>
+                              )}
                               {parseFloat(d.fullAge) < 60 && (
                                 <div className="flex justify-between items-center text-blue-600 font-medium">
                                   <span>יתרת פנסיה:</span>
@@ -1166,9 +2829,15 @@ const App: React.FC = () => {
                                   <span>₪{d.monthlySavings.toLocaleString()}</span>
                                 </div>
                                 {/* Withdrawal breakdown during retirement */}
-                                {(d.withdrawalFromInvestments > 0 || d.withdrawalFromPension > 0) && (
+                                {(d.withdrawalFromInvestments > 0 || d.withdrawalFromPension > 0 || d.oldAgePension > 0 || d.withdrawalFromStudyFunds > 0) && (
                                   <div className="border-t pt-2 mt-2 space-y-1">
                                     <p className="text-[10px] font-black text-slate-400 uppercase">פירוט משיכה:</p>
+                                    {d.withdrawalFromStudyFunds > 0 && (
+                                      <div className="flex justify-between items-center text-teal-600 text-[11px]">
+                                        <span>מקרן השתלמות (פטור):</span>
+                                        <span className="font-black">₪{d.withdrawalFromStudyFunds.toLocaleString()}</span>
+                                      </div>
+                                    )}
                                     {d.withdrawalFromInvestments > 0 && (
                                       <div className="flex justify-between items-center text-blue-600 text-[11px]">
                                         <span>מהשקעות:</span>
@@ -1187,6 +2856,18 @@ const App: React.FC = () => {
                                         <span className="font-bold">₪{d.pensionAnnuity.toLocaleString()}</span>
                                       </div>
                                     )}
+                                    {d.oldAgePension > 0 && (
+                                      <div className="flex justify-between items-center text-indigo-500 text-[10px]">
+                                        <span>קצבת זקנה:</span>
+                                        <span className="font-bold">₪{d.oldAgePension.toLocaleString()}</span>
+                                      </div>
+                                    )}
+                                  </div>
+                                )}
+                                {d.grossWithdrawal > 0 && (
+                                  <div className="flex justify-between items-center text-slate-600 text-[10px] font-bold mt-1">
+                                    <span>משיכה ברוטו:</span>
+                                    <span>₪{d.grossWithdrawal.toLocaleString()}</span>
                                   </div>
                                 )}
                                 {d.taxPaid > 0 && (
@@ -1195,7 +2876,42 @@ const App: React.FC = () => {
                                     <span>₪{d.taxPaid.toLocaleString()}</span>
                                   </div>
                                 )}
+                                {d.grossWithdrawal > 0 && (
+                                  <div className="flex justify-between items-center text-emerald-600 text-[10px] font-bold mt-1">
+                                    <span>נטו אחרי מס:</span>
+                                    <span>₪{d.netWithdrawal.toLocaleString()}</span>
+                                  </div>
+                                )}
+                                {d.nationalInsurance > 0 && (
+                                  <div className="flex justify-between items-center text-red-500 text-[10px] font-bold mt-1">
+                                    <span>ביטוח לאומי ובריאות:</span>
+                                    <span>₪{d.nationalInsurance.toLocaleString()}</span>
+                                  </div>
+                                )}
+                                {d.taxTrueUp !== 0 && (
+                                  <div className={`flex justify-between items-center text-[10px] font-bold mt-1 ${d.taxTrueUp > 0 ? 'text-red-500' : 'text-emerald-600'}`}>
+                                    <span>{d.taxTrueUp > 0 ? 'תשלום מס שנתי:' : 'החזר מס שנתי:'}</span>
+                                    <span>₪{Math.abs(d.taxTrueUp).toLocaleString()}</span>
+                                  </div>
+                                )}
                               </div>
+                              {d.mcRange && (
+                                <div className="border-t pt-2 mt-1 space-y-1 text-[11px] text-slate-500">
+                                  <p className="text-[10px] font-black text-slate-400 uppercase">מונטה קרלו:</p>
+                                  <div className="flex justify-between items-center">
+                                    <span>אחוזון 90:</span>
+                                    <span className="font-black">₪{d.mcRange[1].toLocaleString()}</span>
+                                  </div>
+                                  <div className="flex justify-between items-center">
+                                    <span>חציון:</span>
+                                    <span className="font-black">₪{d.mcMedian.toLocaleString()}</span>
+                                  </div>
+                                  <div className="flex justify-between items-center">
+                                    <span>אחוזון 10:</span>
+                                    <span className="font-black">₪{d.mcRange[0].toLocaleString()}</span>
+                                  </div>
+                                </div>
+                              )}
                               <div className="flex justify-between items-center border-t pt-2 text-emerald-700 font-black text-lg underline">
                                 <span>סך עושר משפחתי:</span>
                                 <span>₪{d.totalLegacy.toLocaleString()}</span>
@@ -1215,6 +2931,27 @@ const App: React.FC = () => {
                       strokeWidth={1} 
                       strokeDasharray="5 5" 
                     />
+                    {monteCarloResult && (
+                      <Area 
+                        type="monotone" 
+                        dataKey="mcRange" 
+                        stroke="none" 
+                        fill="#f59e0b" 
+                        fillOpacity={0.15} 
+                        isAnimationActive={false} 
+                      />
+                    )}
+                    {monteCarloResult && (
+                      <Area 
+                        type="monotone" 
+                        dataKey="mcMedian" 
+                        stroke="#f59e0b" 
+                        strokeWidth={2} 
+                        strokeDasharray="4 4" 
+                        fill="none" 
+                        isAnimationActive={false} 
+                      />
+                    )}
                     <Area 
                       type="monotone" 
                       dataKey="totalLegacy" 
@@ -1252,8 +2989,126 @@ const App: React.FC = () => {
               <div className="mt-4 flex justify-center gap-8 text-xs font-bold text-slate-400 text-right">
                 <div className="flex items-center gap-2"><div className="w-3 h-3 bg-emerald-500 rounded"></div> קו עושר כולל (נזיל + נדל"ן)</div>
                 <div className="flex items-center gap-2 opacity-40"><div className="w-3 h-3 bg-indigo-400 rounded"></div> שווי נדל"ן לבדו</div>
+                {monteCarloResult && (
+                  <div className="flex items-center gap-2"><div className="w-3 h-3 bg-amber-200 rounded"></div> טווח אחוזונים 10-90 (מונטה קרלו)</div>
+                )}
+              </div>
+            </div>
+
+            {/* Sensitivity Panel */}
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-4 text-right">
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex items-center gap-3">
+                  <h4 className="font-black text-slate-800">ניתוח רגישות</h4>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={sensitivityEnabled}
+                      onChange={(e) => setSensitivityEnabled(e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                  </label>
+                </div>
+                <p className="text-sm text-slate-500 font-medium italic flex-1">
+                  {sensitivityResults
+                    ? `כמה משתנה המשיכה החודשית (₪${formatNumber(simResult.val)}) כשמזיזים כל הנחה למטה או למעלה. ההנחות בראש הרשימה הן אלו ששווה לבדוק לעומק.${lifePhasesSet ? ' שנים לפרישה לא נבדקות כשמוגדרים שלבי חיים.' : ''}`
+                    : 'הפעילו כדי לראות אילו הנחות משפיעות הכי הרבה על המשיכה החודשית.'
+                  }
+                </p>
               </div>
+              {sensitivityResults && (
+                <div style={{ height: sensitivityResults.length * 36 + 40 }} dir="ltr">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart 
+                      data={sensitivityResults.map(r => ({ ...r, name: `${r.label} (${r.nudge})` }))} 
+                      layout="vertical" 
+                      stackOffset="sign"
+                      margin={{ left: 40, right: 20 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                      <XAxis type="number" fontSize={10} stroke="#94a3b8" tickFormatter={(val) => `₪${formatNumber(val)}`} />
+                      <YAxis type="category" dataKey="name" width={150} fontSize={11} stroke="#64748b" />
+                      <ReferenceLine x={0} stroke="#94a3b8" />
+                      <Tooltip content={({ active, payload }) => {
+                        if (active && payload && payload.length) {
+                          const r = payload[0].payload;
+                          return (
+                            <div className="bg-white p-4 shadow-xl border rounded-2xl text-right min-w-[220px]" dir="rtl">
+                              <p className="font-bold border-b mb-2">{r.name}</p>
+                              <div className="flex justify-between gap-6 text-xs text-rose-500">
+                                <span>הזזה למטה:</span>
+                                <span className="font-black">₪{formatNumber(r.lowValue)} ({r.lowDelta >= 0 ? '+' : ''}{formatNumber(r.lowDelta)})</span>
+                              </div>
+                              <div className="flex justify-between gap-6 text-xs text-emerald-600">
+                                <span>הזזה למעלה:</span>
+                                <span className="font-black">₪{formatNumber(r.highValue)} ({r.highDelta >= 0 ? '+' : ''}{formatNumber(r.highDelta)})</span>
+                              </div>
+                            </div>
+                          );
+                        }
+                        return null;
+                      }}/>
+                      <Bar dataKey="lowDelta" stackId="swing" fill="#fb7185" />
+                      <Bar dataKey="highDelta" stackId="swing" fill="#34d399" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
             </div>
+
+            {/* Historical Backtest Panel */}
+            {backtestResult && (
+              <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-100 text-right">
+                <div className="flex flex-col md:flex-row justify-between gap-8 mb-6">
+                  <div className="space-y-2">
+                    <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                      <Clock className="text-blue-500" /> מבחן היסטורי ({HISTORICAL_RETURNS[0].year}-{HISTORICAL_RETURNS[HISTORICAL_RETURNS.length - 1].year})
+                    </h3>
+                    <p className="text-sm text-slate-500 font-medium italic">
+                      משיכה של ₪{formatNumber(simResult.val)} בחודש מול תשואות ואינפלציה בפועל, לכל שנת התחלה אפשרית.
+                      {' '}
+                      {backtestResult.successRate === null
+                        ? 'ההיסטוריה קצרה מהתוכנית: כל שנות ההתחלה חוזרות לתחילת הנתונים, ולכן אין שיעור הצלחה.'
+                        : 'שנות התחלה שחוזרות לתחילת הנתונים מסומנות ולא נספרות בשיעור ההצלחה.'}
+                    </p>
+                  </div>
+                  <div className="flex gap-6 items-center">
+                    <div className="w-48">
+                      <ControlSlider label="חלק ת״א 125 (%)" value={backtestTa125Share} min={0} max={100} step={10} onChange={setBacktestTa125Share} color="blue" />
+                    </div>
+                    <MiniCard 
+                      label="שיעור הצלחה היסטורי" 
+                      value={0} 
+                      color="slate" 
+                      display={backtestResult.successRate === null ? '—' : `${Math.round(backtestResult.successRate * 100)}%`} 
+                    />
+                  </div>
+                </div>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">שנות ההתחלה הגרועות ביותר</p>
+                <div className="space-y-2">
+                  <div className="flex items-center gap-3 px-3 text-[10px] font-bold text-slate-400 uppercase">
+                    <span className="w-24">שנת התחלה</span>
+                    <span className="flex-1">תוצאה</span>
+                    <span className="w-32 text-left">עושר נזיל מינימלי</span>
+                    <span className="w-32 text-left">עושר נזיל בסוף</span>
+                  </div>
+                  {getWorstStartYears(backtestResult).map(r => (
+                    <div key={r.startYear} className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl text-sm">
+                      <span className="w-24 font-black text-slate-700">
+                        {r.startYear}
+                        {r.wrapped && <span className="text-[10px] font-bold text-amber-600" title="חוזרת לתחילת הנתונים"> (מחזורית)</span>}
+                      </span>
+                      <span className={`flex-1 font-bold ${r.success ? 'text-emerald-600' : 'text-red-500'}`}>
+                        {r.depletionAge !== null ? `הכסף נגמר בגיל ${r.depletionAge.toFixed(1)}` : 'הצלחה'}
+                      </span>
+                      <span className="w-32 text-left font-black">₪{formatNumber(r.minLiquidWealth)}</span>
+                      <span className="w-32 text-left font-black">₪{formatNumber(r.finalWealth)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -3,8 +3,8 @@
  * This file contains the initial state when no saved data exists
  */
 
-import type { Asset, Expense, SalaryData } from '../types';
-import type { EquityCompany, PropertyPlan } from '../utils/storage';
+import type { Asset, Expense, SalaryData, WithdrawalStrategy, CreditPointsProfile, AnnuityOptions, RightsFixingOptions, PensionContributions } from '../types';
+import type { EquityCompany, PropertyPlan, AssetClassPlan } from '../utils/storage';
 
 // Randomized startup company names
 const startupNames = [
@@ -56,15 +56,50 @@ export const defaultPropertyPlan: PropertyPlan = {
   config: { price: 5000000, year: 2030, monthlySavings: 8000 }
 };
 
+// Default withdrawal strategy (constant real withdrawal; other fields are used when switching)
+export const defaultWithdrawalStrategy: WithdrawalStrategy = {
+  type: 'constant',
+  guardrailBand: 20,
+  guardrailAdjustment: 10,
+  floor: 85,
+  ceiling: 125,
+  minSpending: 75
+};
+
+// Default asset class plan (disabled: everything earns the main return rate)
+export const defaultAssetClassPlan: AssetClassPlan = {
+  enabled: false,
+  returns: { bonds: 3, cash: 1.5 },
+  bucketEnabled: false,
+  bucket: { years: 3, assetClass: 'cash' },
+  glidePathEnabled: false,
+  // 90/10 ten years before retirement, 60/40 at retirement, back up to 80/20 over 15 years
+  glidePath: {
+    basis: 'retirement',
+    points: [
+      { at: -10, stockShare: 90 },
+      { at: 0, stockShare: 60 },
+      { at: 15, stockShare: 80 }
+    ]
+  },
+  comparisonGlidePath: {
+    basis: 'retirement',
+    points: [
+      { at: -10, stockShare: 90 },
+      { at: 0, stockShare: 60 }
+    ]
+  }
+};
+
 // Default assets (anonymized)
 export const defaultAssets: Asset[] = [
   { id: 1, name: "פנסיות וקופות גמל", value: 1500000, type: "pension" },
-  { id: 2, name: "קרנות השתלמות", value: 350000, type: "liquid" },
+  { id: 2, name: "קרנות השתלמות", value: 350000, type: "hishtalmut", openDate: "2021-03-01" },
   { id: 3, name: "תיק מניות (אדם 1)", value: 800000, type: "liquid" },
   { id: 4, name: "תיק מניות (אדם 2)", value: 400000, type: "liquid" },
   { id: 5, name: "תיק מניות משותף", value: 600000, type: "liquid" },
   { id: 6, name: "נכס להשקעה", value: 300000, type: "invest" },
-  { id: 7, name: "עו״ש ומזומן", value: 50000, type: "liquid" }
+  { id: 7, name: "עו״ש ומזומן", value: 50000, type: "liquid", allocation: { stocks: 0, bonds: 0, cash: 100 } }
 ];
 
 // Default monthly expenses (anonymized, rent = 8000)
@@ -100,9 +135,46 @@ export const defaultSalaryData: SalaryData = {
   person2Net: 15000
 };
 
+// Credit points when a member turns them on: base points only
+export const defaultCreditPointsProfile: CreditPointsProfile = {
+  gender: 'male',
+  childBirthYears: [],
+  degree: 'none',
+  degreeYear: 2020
+};
+
+// Annuity track when a member chooses one: the common fund default
+export const defaultAnnuityOptions: AnnuityOptions = {
+  startAge: 67,
+  guaranteeMonths: 240,
+  survivorPercent: 60
+};
+
+// Rights fixing when a member turns it on: the whole exempt capital goes to the annuity
+export const defaultRightsFixingOptions: RightsFixingOptions = {
+  severanceGrants: 0,
+  annuityShare: 100
+};
+
+// Pension deposits when a member sets them: the mandatory minimum split
+export const defaultPensionContributions: PensionContributions = {
+  employeeRate: 6,
+  employerRate: 6.5,
+  severanceRate: 6,
+  salaryCeiling: 33290,
+  voluntaryDeposit: 0
+};
+
+// Real salary growth when a member turns on a salary path (%/year)
+export const DEFAULT_SALARY_GROWTH = 1.5;
+
+// Job percentage when a member sets a part-time job; the salary starts as that share of the full one
+export const DEFAULT_PART_TIME_PERCENT = 50;
+
 // Default simulation parameters
 export const defaultSimulationParams = {
   returnRate: 6,
+  volatility: 15,
   inflationRate: 2.5,
   transitionToHalfWorkYear: 5,
   stopWorkYear: 15
@@ -126,5 +198,7 @@ export const defaultState = {
   salaryData: defaultSalaryData,
   equityCompanies: defaultEquityCompanies,
   propertyPlan: defaultPropertyPlan,
+  assetClassPlan: defaultAssetClassPlan,
+  withdrawalStrategy: defaultWithdrawalStrategy,
   simulationParams: defaultSimulationParams
 };
@@ -0,0 +1,48 @@
+/**
+ * Historical annual market returns and inflation for backtesting
+ * 
+ * Values are annual percentages, rounded to one decimal:
+ * - ta125: Tel Aviv 125 total return (TA-100 before the 2017 index expansion)
+ * - sp500Ils: S&P 500 total return converted to ILS at year-end USD/ILS rates
+ * - cpi: Israeli consumer price index, December to December
+ * 
+ * Compiled from public TASE, S&P and Bank of Israel figures. Rounded approximations,
+ * good enough for sequence-of-returns analysis, not for accounting.
+ */
+
+import type { HistoricalYear } from '../types';
+
+export const HISTORICAL_RETURNS: HistoricalYear[] = [
+  { year: 1993, ta125: 25.6, sp500Ils: 18.9, cpi: 11.2 },
+  { year: 1994, ta125: -35.4, sp500Ils: 2.4, cpi: 14.5 },
+  { year: 1995, ta125: 12.4, sp500Ils: 42.9, cpi: 8.1 },
+  { year: 1996, ta125: 7.5, sp500Ils: 27.6, cpi: 10.6 },
+  { year: 1997, ta125: 31.8, sp500Ils: 45.1, cpi: 7.0 },
+  { year: 1998, ta125: 6.3, sp500Ils: 51.3, cpi: 8.6 },
+  { year: 1999, ta125: 63.5, sp500Ils: 20.8, cpi: 1.3 },
+  { year: 2000, ta125: 10.7, sp500Ils: -11.6, cpi: 0.0 },
+  { year: 2001, ta125: -0.9, sp500Ils: -3.7, cpi: 1.4 },
+  { year: 2002, ta125: -29.2, sp500Ils: -16.4, cpi: 6.5 },
+  { year: 2003, ta125: 56.4, sp500Ils: 19.0, cpi: -1.9 },
+  { year: 2004, ta125: 15.1, sp500Ils: 9.1, cpi: 1.2 },
+  { year: 2005, ta125: 30.4, sp500Ils: 12.1, cpi: 2.4 },
+  { year: 2006, ta125: 10.2, sp500Ils: 6.3, cpi: -0.1 },
+  { year: 2007, ta125: 25.1, sp500Ils: -4.0, cpi: 3.4 },
+  { year: 2008, ta125: -49.4, sp500Ils: -37.7, cpi: 3.8 },
+  { year: 2009, ta125: 88.4, sp500Ils: 25.6, cpi: 3.9 },
+  { year: 2010, ta125: 15.5, sp500Ils: 8.2, cpi: 2.7 },
+  { year: 2011, ta125: -18.4, sp500Ils: 9.9, cpi: 2.2 },
+  { year: 2012, ta125: 9.7, sp500Ils: 13.3, cpi: 1.6 },
+  { year: 2013, ta125: 15.9, sp500Ils: 23.1, cpi: 1.8 },
+  { year: 2014, ta125: 8.1, sp500Ils: 27.4, cpi: -0.2 },
+  { year: 2015, ta125: 3.4, sp500Ils: 1.7, cpi: -1.0 },
+  { year: 2016, ta125: -0.6, sp500Ils: 10.4, cpi: -0.2 },
+  { year: 2017, ta125: 8.2, sp500Ils: 9.8, cpi: 0.4 },
+  { year: 2018, ta125: -0.5, sp500Ils: 3.3, cpi: 0.8 },
+  { year: 2019, ta125: 22.9, sp500Ils: 21.3, cpi: 0.6 },
+  { year: 2020, ta125: -1.1, sp500Ils: 10.1, cpi: -0.7 },
+  { year: 2021, ta125: 30.1, sp500Ils: 24.5, cpi: 2.8 },
+  { year: 2022, ta125: -8.7, sp500Ils: -7.3, cpi: 5.3 },
+  { year: 2023, ta125: 7.8, sp500Ils: 30.2, cpi: 3.0 },
+  { year: 2024, ta125: 31.4, sp500Ils: 25.7, cpi: 3.2 },
+];
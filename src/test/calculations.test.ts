@@ -7,6 +7,29 @@ import {
   calculateTotalAssets,
   calculatePensionValue,
   calculateInvestmentValue,
+  calculateInvestmentCostBasis,
+  calculateInvestmentAllocation,
+  getGlidePathStockShare,
+  calculateVpwRate,
+  calculateSpendingSummary,
+  findEarliestRetirement,
+  calculateRetirementHeatmap,
+  runSensitivityAnalysis,
+  hasLifePhases,
+  getSimulationMonthDate,
+  calculateAgeAtDate,
+  calculatePensionValueByOwner,
+  getHouseholdTimeline,
+  shiftHouseholdTimeline,
+  buildHouseholdParams,
+  buildStudyFundParams,
+  calculatePensionInflow,
+  calculateWeightedFees,
+  calculateInvestmentFees,
+  STUDY_FUND_SALARY_CEILING,
+  SENSITIVITY_DRIVERS,
+  LEGACY_START_DATE,
+  WITHDRAWAL_STRATEGIES,
   calculateMonthlyReturn,
   calculateMonthlyInflation,
   calculateEarlyPensionWithdrawal,
@@ -14,10 +37,37 @@ import {
   calculatePensionAnnuity,
   calculatePensionAnnuityTax,
   calculateInvestmentWithdrawalTax,
+  calculateGrossForNetInvestmentWithdrawal,
+  calculateAnnualTax,
+  calculateCreditPoints,
+  calculateTaxCredit,
+  CREDIT_POINT_ANNUAL_VALUE,
+  calculatePayslip,
+  getMemberNetSalary,
+  getOldAgePensionAge,
+  calculateOldAgePension,
+  buildOldAgePension,
+  OLD_AGE_PENSION_BASE,
+  OLD_AGE_PENSION_SPOUSE_SUPPLEMENT,
+  calculateNonWorkingNationalInsurance,
+  NON_WORKING_MIN_INSURANCE_PAYMENT,
+  calculateConversionFactor,
+  getExemptPensionRate,
+  calculateRightsFixing,
+  compareRightsFixingAllocations,
+  QUALIFYING_PENSION_CEILING,
+  EXEMPT_CAPITAL_MONTHS,
   calculateMarginalTax,
   calculateEffectiveTaxRate,
   findOptimalWithdrawal,
   runSimulation,
+  createSeededRandom,
+  generateReturnPath,
+  runMonteCarlo,
+  runHistoricalBacktest,
+  getWorstStartYears,
+  monthsBetween,
+  addMonthsToDate,
   SURTAX_THRESHOLD,
   PENSION_CONTRIBUTION_RATE,
   EARLY_PENSION_PENALTY_TAX,
@@ -25,9 +75,12 @@ import {
   FIXED_PENSION_TAX,
   NON_EMPLOYMENT_TAX_BRACKETS,
   EMPLOYMENT_TAX_BRACKETS,
+  RENTAL_INCOME_TAX_RATE,
   CAPITAL_GAINS_TAX_BRACKETS,
 } from '../utils/calculations';
-import type { EquityContract, Expense, SalaryData, Asset, SimulationDataPoint } from '../types';
+import type { SimulationParams } from '../utils/calculations';
+import type { EquityContract, Expense, SalaryData, Asset, SimulationDataPoint, HistoricalYear, HouseholdMember, CreditPointsProfile, GlidePath } from '../types';
+import { HISTORICAL_RETURNS } from '../data/historicalReturns';
 
 describe('calculateNetEquity - Israeli Capital Gains Tax', () => {
   it('returns 0 for zero or negative profit', () => {
@@ -305,6 +358,27 @@ describe('calculateInvestmentValue', () => {
   });
 });
 
+describe('calculateInvestmentAllocation', () => {
+  it('splits non-pension assets by allocation, defaulting to stocks', () => {
+    const assets: Asset[] = [
+      { id: 1, name: 'Pension Fund', value: 2500000, type: 'pension' },
+      { id: 2, name: 'Stocks', value: 1000000, type: 'liquid' },
+      { id: 3, name: 'Mixed', value: 400000, type: 'liquid', allocation: { stocks: 50, bonds: 25, cash: 25 } },
+      { id: 4, name: 'Checking', value: 50000, type: 'liquid', allocation: { stocks: 0, bonds: 0, cash: 100 } },
+    ];
+    expect(calculateInvestmentAllocation(assets)).toEqual({ stocks: 1200000, bonds: 100000, cash: 150000 });
+  });
+
+  it('totals match calculateInvestmentValue', () => {
+    const assets: Asset[] = [
+      { id: 1, name: 'A', value: 300000, type: 'liquid', allocation: { stocks: 60, bonds: 40, cash: 0 } },
+      { id: 2, name: 'B', value: 200000, type: 'invest' },
+    ];
+    const split = calculateInvestmentAllocation(assets);
+    expect(split.stocks + split.bonds + split.cash).toBeCloseTo(calculateInvestmentValue(assets), 6);
+  });
+});
+
 describe('calculateMonthlyReturn', () => {
   it('converts annual rate to monthly', () => {
     // 6% annual should give approximately 0.487% monthly
@@ -582,6 +656,12 @@ describe('calculateInvestmentWithdrawalTax', () => {
     expect(SURTAX_THRESHOLD).toBe(721560);
   });
 
+  it('taxes only the gain share of the withdrawal', () => {
+    expect(calculateInvestmentWithdrawalTax(100000, 500000, 0.4)).toBe(10000);
+    expect(calculateInvestmentWithdrawalTax(100000, 800000, 0.4)).toBeCloseTo(11200);
+    expect(calculateInvestmentWithdrawalTax(100000, 500000, 0)).toBe(0);
+  });
+
   it('returns 0 for zero or negative amounts', () => {
     expect(calculateInvestmentWithdrawalTax(0, 500000)).toBe(0);
     expect(calculateInvestmentWithdrawalTax(-1000, 500000)).toBe(0);
@@ -787,3 +867,1595 @@ describe('Full pension lifecycle scenario', () => {
     expect(result.netAmount).toBeCloseTo(annualNet, 0);
   });
 });
+
+// Default test plan: 40 years old, working 10 more years with 3M invested and 1.5M in pension
+const makeParams = (overrides: Partial<SimulationParams> = {}): SimulationParams => ({
+  investmentInitialValue: 3000000,
+  pensionInitialValue: 1500000,
+  returnRate: 6,
+  inflationRate: 2.5,
+  transitionToHalfWorkYear: 5,
+  stopWorkYear: 10,
+  budgetSummary: { totalExpenseToday: 25000, totalIncomeNet: 40000, totalPensionInflow: 12000 },
+  monthlyExpenses: [{ id: 1, name: 'Living', amount: 25000 }],
+  yearlyExpenses: [],
+  propertyConfig: { price: 0, year: 2100, monthlySavings: 0 },
+  equityCompanies: [],
+  initialAge: 40,
+  endOfLifeAge: 90,
+  ...overrides,
+});
+
+describe('Monte Carlo mode', () => {
+  const mcParams = makeParams();
+
+  it('seeded random is reproducible', () => {
+    const a = createSeededRandom(7);
+    const b = createSeededRandom(7);
+    const seqA = [a(), a(), a()];
+    const seqB = [b(), b(), b()];
+    expect(seqA).toEqual(seqB);
+    seqA.forEach(v => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    });
+  });
+
+  it('zero volatility path equals the deterministic monthly return', () => {
+    const path = generateReturnPath(6, 0, 12, createSeededRandom(1));
+    path.forEach(r => expect(r).toBeCloseTo(calculateMonthlyReturn(6), 10));
+  });
+
+  it('zero volatility reproduces the deterministic simulation', () => {
+    const deterministic = runSimulation(20000, mcParams);
+    const mc = runMonteCarlo(20000, mcParams, { volatility: 0, runs: 3 });
+    
+    expect(mc.bands).toHaveLength(deterministic.length);
+    mc.bands.forEach((band, i) => {
+      expect(band.index).toBe(deterministic[i].index);
+      expect(band.p50).toBeCloseTo(deterministic[i].totalLegacy, -1);
+      expect(band.p10).toBe(band.p90);
+    });
+  });
+
+  it('same seed gives the same result', () => {
+    const a = runMonteCarlo(20000, mcParams, { volatility: 15, runs: 20, seed: 123 });
+    const b = runMonteCarlo(20000, mcParams, { volatility: 15, runs: 20, seed: 123 });
+    expect(a).toEqual(b);
+  });
+
+  it('bands are ordered and success probability is a probability', () => {
+    const mc = runMonteCarlo(20000, mcParams, { volatility: 15, runs: 50 });
+    expect(mc.runs).toBe(50);
+    expect(mc.successProbability).toBeGreaterThanOrEqual(0);
+    expect(mc.successProbability).toBeLessThanOrEqual(1);
+    mc.bands.forEach(band => {
+      expect(band.p10).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p90);
+    });
+  });
+
+  it('higher withdrawal lowers success probability', () => {
+    const low = runMonteCarlo(10000, mcParams, { volatility: 15, runs: 50 });
+    const high = runMonteCarlo(40000, mcParams, { volatility: 15, runs: 50 });
+    expect(high.successProbability).toBeLessThan(low.successProbability);
+  });
+});
+
+describe('Historical backtesting', () => {
+  const btParams = makeParams();
+
+  it('bundled dataset has consecutive years', () => {
+    expect(HISTORICAL_RETURNS.length).toBeGreaterThan(20);
+    HISTORICAL_RETURNS.forEach((y, i) => {
+      if (i > 0) expect(y.year).toBe(HISTORICAL_RETURNS[i - 1].year + 1);
+    });
+  });
+
+  it('flat history reproduces the deterministic simulation', () => {
+    const flat: HistoricalYear[] = [
+      { year: 2000, ta125: 6, sp500Ils: 6, cpi: 2.5 },
+      { year: 2001, ta125: 6, sp500Ils: 6, cpi: 2.5 },
+    ];
+    const deterministic = runSimulation(20000, btParams);
+    const result = runHistoricalBacktest(20000, btParams, flat);
+    
+    expect(result.results).toHaveLength(2);
+    result.results.forEach(r => {
+      expect(r.finalWealth).toBeCloseTo(deterministic[deterministic.length - 1].liquidWealth, -1);
+    });
+  });
+
+  it('replays every start year', () => {
+    const result = runHistoricalBacktest(15000, btParams, HISTORICAL_RETURNS);
+    expect(result.results.map(r => r.startYear)).toEqual(HISTORICAL_RETURNS.map(y => y.year));
+  });
+
+  it('leaves start years that wrap around the history out of the success rate', () => {
+    // 50 years of plan never fit the bundled history
+    const long = runHistoricalBacktest(15000, btParams, HISTORICAL_RETURNS);
+    expect(long.results.every(r => r.wrapped)).toBe(true);
+    expect(long.successRate).toBeNull();
+    
+    // A 10-year plan spans 11 years of history (months 0-120), so it fits start years with 11 years ahead
+    const short = runHistoricalBacktest(15000, { ...btParams, initialAge: 80, endOfLifeAge: 90 }, HISTORICAL_RETURNS);
+    const fitting = short.results.filter(r => !r.wrapped);
+    expect(fitting.map(r => r.startYear)).toEqual(HISTORICAL_RETURNS.slice(0, HISTORICAL_RETURNS.length - 10).map(y => y.year));
+    expect(short.successRate).toBe(fitting.filter(r => r.success).length / fitting.length);
+  });
+
+  it('the order of returns changes the outcome (sequence risk)', () => {
+    const withCrash: HistoricalYear[] = [
+      { year: 1, ta125: -40, sp500Ils: -40, cpi: 2 },
+      ...Array.from({ length: 9 }, (_, i) => ({ year: i + 2, ta125: 8, sp500Ils: 8, cpi: 2 })),
+    ];
+    const result = runHistoricalBacktest(5000, btParams, withCrash);
+    const finals = result.results.map(r => r.finalWealth);
+    const worst = getWorstStartYears(result, 1)[0];
+    
+    expect(new Set(finals).size).toBeGreaterThan(1);
+    expect(worst.finalWealth).toBe(Math.min(...finals));
+  });
+
+  it('worst start years are ordered by depletion then final wealth', () => {
+    const result = runHistoricalBacktest(30000, btParams, HISTORICAL_RETURNS);
+    const worst = getWorstStartYears(result, 5);
+    expect(worst).toHaveLength(5);
+    for (let i = 1; i < worst.length; i++) {
+      const prev = worst[i - 1].depletionAge ?? Infinity;
+      const cur = worst[i].depletionAge ?? Infinity;
+      expect(prev).toBeLessThanOrEqual(cur);
+    }
+  });
+
+  it('counts a start year as depleted only when it fails', () => {
+    const result = runHistoricalBacktest(30000, btParams, HISTORICAL_RETURNS);
+    result.results.forEach(r => {
+      expect(r.depletionAge === null).toBe(r.success);
+    });
+  });
+
+  it('inflation path override drives expenses', () => {
+    const totalMonths = (btParams.endOfLifeAge - btParams.initialAge) * 12 + 1;
+    const noInflation = Array(totalMonths).fill(1);
+    const data = runSimulation(20000, { ...btParams, monthlyInflationFactors: noInflation });
+    expect(data[30].monthlyOutflow).toBe(25000);
+  });
+});
+
+describe('Asset classes and bucket strategy', () => {
+  const classParams = makeParams();
+  const mixedAllocation = { stocks: 2000000, bonds: 600000, cash: 400000 };
+
+  it('without class returns, a mixed allocation matches the single-balance simulation', () => {
+    const single = runSimulation(20000, classParams);
+    const mixed = runSimulation(20000, { ...classParams, investmentAllocation: mixedAllocation });
+    mixed.forEach((p, i) => {
+      expect(p.investments).toBeCloseTo(single[i].investments, -1);
+    });
+  });
+
+  it('class balances add up to total investments', () => {
+    const data = runSimulation(20000, { 
+      ...classParams, 
+      investmentAllocation: mixedAllocation,
+      assetClassReturns: { bonds: 3, cash: 1 },
+    });
+    data.filter(p => p.investments > 0).forEach(p => {
+      expect(p.investmentsStocks + p.investmentsBonds + p.investmentsCash).toBeCloseTo(p.investments, -1);
+    });
+  });
+
+  it('lower bond and cash returns reduce the optimal withdrawal', () => {
+    const allEquityReturn = findOptimalWithdrawal({ ...classParams, investmentAllocation: mixedAllocation });
+    const withClassReturns = findOptimalWithdrawal({ 
+      ...classParams, 
+      investmentAllocation: mixedAllocation,
+      assetClassReturns: { bonds: 3, cash: 1 },
+    });
+    expect(withClassReturns.val).toBeLessThan(allEquityReturn.val);
+  });
+
+  it('bucket strategy fills the cash bucket at retirement', () => {
+    const data = runSimulation(20000, { 
+      ...classParams, 
+      assetClassReturns: { bonds: 3, cash: 1 },
+      bucketStrategy: { years: 2, assetClass: 'cash' },
+    });
+    const working = data.find(p => parseFloat(p.fullAge) >= 45 && parseFloat(p.fullAge) < 46)!;
+    const retirementStart = data.find(p => p.index === 120)!;
+    
+    expect(working.investmentsCash).toBe(0);
+    expect(retirementStart.event).toContain('מילוי דלי');
+    expect(retirementStart.investmentsCash).toBeGreaterThan(0);
+  });
+});
+
+describe('Glide path', () => {
+  const glidePath = { 
+    basis: 'retirement' as const, 
+    points: [{ at: -10, stockShare: 90 }, { at: 0, stockShare: 60 }, { at: 10, stockShare: 80 }],
+  };
+
+  it('interpolates linearly between points', () => {
+    expect(getGlidePathStockShare(glidePath, 50, -5)).toBeCloseTo(0.75);
+    expect(getGlidePathStockShare(glidePath, 50, 5)).toBeCloseTo(0.7);
+  });
+
+  it('is flat outside the first and last points', () => {
+    expect(getGlidePathStockShare(glidePath, 30, -20)).toBeCloseTo(0.9);
+    expect(getGlidePathStockShare(glidePath, 90, 30)).toBeCloseTo(0.8);
+  });
+
+  it('uses age as the axis when basis is age', () => {
+    const byAge = { basis: 'age' as const, points: [{ at: 40, stockShare: 100 }, { at: 60, stockShare: 40 }] };
+    expect(getGlidePathStockShare(byAge, 50, 0)).toBeCloseTo(0.7);
+  });
+
+  it('rebalances the stock/bond split along the path', () => {
+    const data = runSimulation(15000, makeParams({
+      assetClassReturns: { bonds: 3, cash: 1 },
+      glidePath,
+    }));
+    const stockShareAt = (index: number) => {
+      const p = data.find(d => d.index === index)!;
+      return p.investmentsStocks / (p.investmentsStocks + p.investmentsBonds);
+    };
+    
+    expect(stockShareAt(0)).toBeCloseTo(0.9, 1);
+    expect(stockShareAt(120)).toBeCloseTo(0.6, 1);
+  });
+});
+
+describe('Withdrawal strategies', () => {
+  const strategyParams = makeParams({
+    investmentInitialValue: 4000000,
+  });
+  const strategy = {
+    type: 'constant' as const,
+    guardrailBand: 20,
+    guardrailAdjustment: 10,
+    floor: 85,
+    ceiling: 125,
+    minSpending: 75,
+  };
+  const context = {
+    initialWithdrawal: 20000,
+    initialWealth: 6000000,
+    initialYearsLeft: 40,
+    previousWithdrawal: 20000,
+    wealth: 6000000,
+    yearsLeft: 35,
+    realReturn: 3.5,
+    lastYearReturn: 0.05,
+    lastYearInflation: 1.025,
+  };
+
+  it('VPW rate is 1/n without real return and rises as the horizon shrinks', () => {
+    expect(calculateVpwRate(0, 20)).toBeCloseTo(0.05);
+    expect(calculateVpwRate(3.5, 10)).toBeGreaterThan(calculateVpwRate(3.5, 30));
+  });
+
+  it('fixed percent scales with wealth', () => {
+    expect(WITHDRAWAL_STRATEGIES.fixedPercent({ ...context, wealth: 4500000 }, strategy)).toBeCloseTo(15000);
+  });
+
+  it('floor-and-ceiling clamps the fixed percent amount', () => {
+    const floorCeiling = { ...strategy, type: 'floorCeiling' as const };
+    expect(WITHDRAWAL_STRATEGIES.floorCeiling({ ...context, wealth: 3000000 }, floorCeiling)).toBeCloseTo(17000);
+    expect(WITHDRAWAL_STRATEGIES.floorCeiling({ ...context, wealth: 12000000 }, floorCeiling)).toBeCloseTo(25000);
+  });
+
+  it('Guyton-Klinger cuts spending when the withdrawal rate breaches the upper guardrail', () => {
+    const gk = { ...strategy, type: 'guytonKlinger' as const };
+    expect(WITHDRAWAL_STRATEGIES.guytonKlinger({ ...context, wealth: 4000000 }, gk)).toBeCloseTo(18000);
+    expect(WITHDRAWAL_STRATEGIES.guytonKlinger({ ...context, wealth: 9000000 }, gk)).toBeCloseTo(22000);
+    expect(WITHDRAWAL_STRATEGIES.guytonKlinger(context, gk)).toBeCloseTo(20000);
+  });
+
+  it('Guyton-Klinger skips the inflation raise after a losing year', () => {
+    const gk = { ...strategy, type: 'guytonKlinger' as const };
+    const result = WITHDRAWAL_STRATEGIES.guytonKlinger({ ...context, wealth: 5500000, lastYearReturn: -0.1 }, gk);
+    expect(result).toBeCloseTo(20000 / 1.025);
+  });
+
+  it('constant strategy keeps real spending flat', () => {
+    const data = runSimulation(20000, { ...strategyParams, withdrawalStrategy: strategy });
+    const summary = calculateSpendingSummary(data, strategyParams.stopWorkYear);
+    expect(summary.min).toBeGreaterThanOrEqual(19999);
+    expect(summary.max).toBeLessThanOrEqual(20001);
+  });
+
+  it('variable strategies start at the initial withdrawal and then vary', () => {
+    for (const type of ['fixedPercent', 'vpw', 'guytonKlinger', 'floorCeiling'] as const) {
+      const data = runSimulation(20000, { ...strategyParams, withdrawalStrategy: { ...strategy, type } });
+      const summary = calculateSpendingSummary(data, strategyParams.stopWorkYear);
+      expect(summary.initial).toBeCloseTo(20000, -1);
+      expect(summary.max).toBeGreaterThan(summary.min);
+    }
+  });
+
+  it('floor-and-ceiling keeps spending within its bounds', () => {
+    const data = runSimulation(20000, { ...strategyParams, withdrawalStrategy: { ...strategy, type: 'floorCeiling' } });
+    const summary = calculateSpendingSummary(data, strategyParams.stopWorkYear);
+    expect(summary.min).toBeGreaterThanOrEqual(17000 - 1);
+    expect(summary.max).toBeLessThanOrEqual(25000 + 1);
+  });
+
+  it('optimal initial withdrawal respects the minimum spending share', () => {
+    const params = { ...strategyParams, withdrawalStrategy: { ...strategy, type: 'fixedPercent' as const } };
+    const result = findOptimalWithdrawal(params);
+    const summary = calculateSpendingSummary(result.data, strategyParams.stopWorkYear);
+    expect(result.val).toBeGreaterThan(0);
+    expect(summary.min).toBeGreaterThanOrEqual(result.val * 0.75 - 1);
+  });
+});
+
+describe('findEarliestRetirement', () => {
+  const solverParams = makeParams({
+    investmentInitialValue: 2000000,
+    pensionInitialValue: 1000000,
+    transitionToHalfWorkYear: 0,
+    stopWorkYear: 0,
+    budgetSummary: { totalExpenseToday: 20000, totalIncomeNet: 45000, totalPensionInflow: 12000 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 20000 }],
+  });
+
+  it('finds the earliest stop year that sustains the target', () => {
+    const result = findEarliestRetirement(20000, solverParams);
+    expect(result.feasible).toBe(true);
+    expect(result.slack).toBeGreaterThanOrEqual(0);
+    
+    // One year earlier (with the same half-time year, capped) is not enough
+    const earlier = result.stopWorkYear - 1;
+    const earlierParams = { 
+      ...solverParams, 
+      stopWorkYear: earlier, 
+      transitionToHalfWorkYear: Math.min(earlier, result.transitionToHalfWorkYear) 
+    };
+    expect(findOptimalWithdrawal(earlierParams).val).toBeLessThan(20000);
+  });
+
+  it('half-time starts no later than stopping work', () => {
+    const result = findEarliestRetirement(20000, solverParams);
+    expect(result.transitionToHalfWorkYear).toBeLessThanOrEqual(result.stopWorkYear);
+    expect(result.maxWithdrawal).toBeGreaterThanOrEqual(20000);
+  });
+
+  it('a higher target needs a later retirement', () => {
+    const modest = findEarliestRetirement(15000, solverParams);
+    const lavish = findEarliestRetirement(30000, solverParams);
+    expect(lavish.stopWorkYear).toBeGreaterThan(modest.stopWorkYear);
+  });
+
+  it('reports an infeasible target with negative slack', () => {
+    const result = findEarliestRetirement(400000, solverParams, 20);
+    expect(result.feasible).toBe(false);
+    expect(result.stopWorkYear).toBe(20);
+    expect(result.slack).toBeLessThan(0);
+  });
+});
+
+describe('calculateRetirementHeatmap', () => {
+  const heatmapParams = makeParams({
+    investmentInitialValue: 2000000,
+    pensionInitialValue: 1000000,
+    transitionToHalfWorkYear: 0,
+    stopWorkYear: 0,
+    budgetSummary: { totalExpenseToday: 20000, totalIncomeNet: 45000, totalPensionInflow: 12000 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 20000 }],
+    equityCompanies: [{
+      id: 'c1',
+      name: 'Startup',
+      contracts: [{ name: 'Grant', shares: 10000, strike: 1, startDate: '2024-01-01', periodYears: 4, cliffMonths: 12 }],
+      exitYear: 2028,
+      sharePriceAtExit: 20,
+    }],
+  });
+  const heatmap = calculateRetirementHeatmap(heatmapParams, { maxHalfYear: 3, maxStopYear: 6, tolerance: 100 });
+
+  it('covers every half-time / stop-work combination', () => {
+    expect(heatmap.halfYears).toEqual([0, 1, 2, 3]);
+    expect(heatmap.stopYears).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(heatmap.values).toHaveLength(4);
+    heatmap.values.forEach(row => expect(row).toHaveLength(7));
+  });
+
+  it('matches the full binary search within the tolerance', () => {
+    for (const [half, stop] of [[0, 0], [1, 4], [3, 6], [2, 2]]) {
+      const exact = findOptimalWithdrawal({ ...heatmapParams, transitionToHalfWorkYear: half, stopWorkYear: stop }).val;
+      expect(Math.abs(heatmap.values[half][stop] - exact)).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('clips half-time after stopping work to the diagonal', () => {
+    expect(heatmap.values[3][1]).toBe(heatmap.values[1][1]);
+  });
+
+  it('reports the marginal value of one more working year', () => {
+    expect(heatmap.marginalYearValues[1][4]).toBe(heatmap.values[1][5] - heatmap.values[1][4]);
+    expect(heatmap.marginalYearValues[1][4]).toBeGreaterThan(0);
+    expect(heatmap.marginalYearValues[1][6]).toBeNull();
+  });
+
+  it('cached equity cash flows give the same result on repeated runs', () => {
+    const first = runSimulation(20000, heatmapParams);
+    const second = runSimulation(20000, { ...heatmapParams, stopWorkYear: 0 });
+    expect(second).toEqual(first);
+    expect(first.some(p => p.event?.includes('Startup Exit'))).toBe(true);
+  });
+});
+
+describe('runSensitivityAnalysis', () => {
+  const sensitivityParams = makeParams();
+  const base = findOptimalWithdrawal(sensitivityParams).val;
+  const results = runSensitivityAnalysis(sensitivityParams, base);
+  const byId = (id: string) => results.find(r => r.id === id)!;
+
+  it('skips drivers that do not apply to the plan', () => {
+    expect(results.some(r => r.id === 'propertyPrice')).toBe(false);
+    expect(results.some(r => r.id === 'equityExitPrice')).toBe(false);
+  });
+
+  it('skips the stop-work year when life phases decide who works', () => {
+    const phases = [{ type: 'retired' as const, startMonth: 60, endMonth: Infinity, netIncome: 0, grossIncome: 0, pensionInflow: 0 }];
+    const household = [{ 
+      id: 'a', name: 'A', initialAge: 40, netIncome: 40000, pensionInflow: 12000, pensionInitialValue: 1500000,
+      transitionToHalfWorkYear: 5, stopWorkYear: 10, phases,
+    }];
+    const stopWorkDriver = SENSITIVITY_DRIVERS.filter(driver => driver.id === 'stopWorkYear');
+    expect(hasLifePhases({ household })).toBe(true);
+    expect(hasLifePhases(sensitivityParams)).toBe(false);
+    expect(runSensitivityAnalysis({ ...sensitivityParams, household }, base, stopWorkDriver)).toEqual([]);
+  });
+
+  it('moves the withdrawal in the expected direction', () => {
+    expect(byId('returnRate').highDelta).toBeGreaterThan(0);
+    expect(byId('returnRate').lowDelta).toBeLessThan(0);
+    expect(byId('expenses').highDelta).toBeLessThan(0);
+    expect(byId('stopWorkYear').highDelta).toBeGreaterThan(0);
+  });
+
+  it('matches a full search of the nudged plan', () => {
+    const exact = findOptimalWithdrawal({ ...sensitivityParams, returnRate: 7 }).val;
+    expect(Math.abs(byId('returnRate').highValue - exact)).toBeLessThanOrEqual(50);
+  });
+
+  it('sorts by the largest swing first', () => {
+    const swings = results.map(r => Math.max(Math.abs(r.lowDelta), Math.abs(r.highDelta)));
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+  });
+});
+
+describe('Simulation start date', () => {
+  const startParams = makeParams({
+    propertyConfig: { price: 2000000, year: 2028, monthlySavings: 0 },
+  });
+
+  it('defaults to January 2026', () => {
+    const date = getSimulationMonthDate(undefined, 14);
+    expect(date.getFullYear()).toBe(2027);
+    expect(date.getMonth()).toBe(2);
+    expect(runSimulation(20000, startParams)[0].label).toBe('1/2026');
+  });
+
+  it('starts from the month of the as-of date', () => {
+    const data = runSimulation(20000, { ...startParams, startDate: '2027-10-19' });
+    expect(data[0].label).toBe('10/2027');
+    expect(data.find(p => p.index === 3)!.label).toBe('1/2028');
+  });
+
+  it('legacy start matches an explicit January 2026 start', () => {
+    expect(runSimulation(20000, { ...startParams, startDate: LEGACY_START_DATE }))
+      .toEqual(runSimulation(20000, startParams));
+  });
+
+  it('buys the property in the first month when the plan starts mid-year', () => {
+    const data = runSimulation(20000, { ...startParams, startDate: '2028-06-01' });
+    expect(data[0].event).toContain('רכישת דירה');
+    expect(data[0].property).toBe(2000000);
+  });
+
+  it('vesting and exits follow the start date', () => {
+    const company = {
+      id: 'c1',
+      name: 'Startup',
+      contracts: [{ name: 'Grant', shares: 10000, strike: 1, startDate: '2024-01-01', periodYears: 4, cliffMonths: 12 }],
+      exitYear: 2030,
+      sharePriceAtExit: 20,
+    };
+    const fromLegacy = runSimulation(20000, { ...startParams, equityCompanies: [company] });
+    const fromLater = runSimulation(20000, { ...startParams, equityCompanies: [company], startDate: '2029-01-01' });
+    expect(fromLegacy.find(p => p.event?.includes('Startup Exit'))!.index).toBe(48);
+    expect(fromLater.find(p => p.event?.includes('Startup Exit'))!.index).toBe(12);
+  });
+});
+
+describe('Household members', () => {
+  const householdParams = makeParams({
+    initialAge: 50,
+  });
+  const member = (id: string, initialAge: number, pensionInitialValue: number, stopWorkYear: number) => ({
+    id,
+    name: id,
+    initialAge,
+    netIncome: 20000,
+    pensionInflow: 6000,
+    pensionInitialValue,
+    transitionToHalfWorkYear: stopWorkYear,
+    stopWorkYear,
+  });
+
+  it('calculates age in whole months on a date', () => {
+    expect(calculateAgeAtDate('1986-03-15', '2026-03-15')).toBe(40);
+    expect(calculateAgeAtDate('1986-03-15', '2026-03-14')).toBeCloseTo(39 + 11 / 12);
+    expect(calculateAgeAtDate('1986-09-01', '2026-01-01')).toBeCloseTo(39 + 4 / 12);
+  });
+
+  it('splits pension assets by owner, unassigned ones go to the first member', () => {
+    const assets: Asset[] = [
+      { id: 1, name: 'Pension A', value: 100000, type: 'pension', ownerId: 'a' },
+      { id: 2, name: 'Pension B', value: 50000, type: 'pension', ownerId: 'b' },
+      { id: 3, name: 'Old fund', value: 20000, type: 'pension' },
+      { id: 4, name: 'Stocks', value: 999999, type: 'liquid' },
+    ];
+    expect(calculatePensionValueByOwner(assets, ['a', 'b'])).toEqual([120000, 50000]);
+    expect(calculatePensionValueByOwner(assets, ['b'])).toEqual([170000]);
+  });
+
+  it('budget summary adds up member salaries', () => {
+    const household: HouseholdMember[] = [
+      { id: 'a', name: 'A', birthDate: '1986-01-01', grossSalary: 30000, netSalary: 20000, transitionToHalfWorkYear: 5, stopWorkYear: 10 },
+      { id: 'b', name: 'B', birthDate: '1990-01-01', grossSalary: 10000, netSalary: 8000, transitionToHalfWorkYear: 5, stopWorkYear: 10 },
+    ];
+    const result = calculateBudgetSummary([], [], household);
+    expect(result.totalIncomeNet).toBe(28000);
+    expect(result.totalPensionInflow).toBe(40000 * PENSION_CONTRIBUTION_RATE);
+    
+    const params = buildHouseholdParams(household, [], '2026-01-01');
+    expect(params.map(p => p.initialAge)).toEqual([40, 36]);
+    expect(params[1].pensionInflow).toBe(10000 * PENSION_CONTRIBUTION_RATE);
+  });
+
+  it('household timeline follows the member who stops working last', () => {
+    const members = [
+      { transitionToHalfWorkYear: 2, stopWorkYear: 4 },
+      { transitionToHalfWorkYear: 6, stopWorkYear: 10 },
+    ];
+    expect(getHouseholdTimeline(members)).toEqual({ transitionToHalfWorkYear: 6, stopWorkYear: 10 });
+    
+    const shifted = shiftHouseholdTimeline(members, 3, 7);
+    expect(shifted).toEqual([
+      { transitionToHalfWorkYear: 0, stopWorkYear: 1 },
+      { transitionToHalfWorkYear: 3, stopWorkYear: 7 },
+    ]);
+    expect(shiftHouseholdTimeline(members, 6, 10)).toBe(members);
+  });
+
+  it('a single-member household matches the single-person fields', () => {
+    const single = member('self', 50, 1500000, 10);
+    const household = {
+      ...householdParams,
+      household: [{ ...single, netIncome: 40000, pensionInflow: 12000, transitionToHalfWorkYear: 5 }],
+    };
+    expect(runSimulation(20000, household)).toEqual(runSimulation(20000, householdParams));
+  });
+
+  it('converts each pension to an annuity at that member\'s own age 60', () => {
+    const data = runSimulation(20000, {
+      ...householdParams,
+      stopWorkYear: 0,
+      transitionToHalfWorkYear: 0,
+      household: [member('A', 58, 1000000, 0), member('B', 50, 600000, 0)],
+    });
+    const conversions = data.filter(p => p.event?.includes('המרה לקצבת פנסיה'));
+    expect(conversions.map(p => p.index)).toEqual([24, 120]);
+    expect(conversions[0].event).toContain('(A)');
+    expect(conversions[1].event).toContain('(B)');
+    // The younger member's pension keeps growing until their own conversion
+    const beforeSecond = data.find(p => p.index === 117)!;
+    expect(beforeSecond.pension).toBeGreaterThan(600000);
+    expect(beforeSecond.pensionAnnuity).toBeGreaterThan(0);
+  });
+
+  it('the glide path follows the member who stops working last', () => {
+    const glide = (glidePath: GlidePath) => runSimulation(20000, {
+      ...householdParams,
+      transitionToHalfWorkYear: 10,
+      assetClassReturns: { bonds: 3, cash: 1 },
+      household: [
+        member('A', 50, 1000000, 2), 
+        { ...member('B', 45, 500000, 10), phases: [{ type: 'retired' as const, startMonth: 60, endMonth: Infinity, netIncome: 0, grossIncome: 0, pensionInflow: 0 }] },
+      ],
+      glidePath,
+    });
+    const stockShareAt = (data: SimulationDataPoint[], index: number) => {
+      const p = data.find(d => d.index === index)!;
+      return p.investmentsStocks / (p.investmentsStocks + p.investmentsBonds);
+    };
+    // B retires at month 60 on their timeline, not at the stop-work year
+    const byRetirement = glide({ basis: 'retirement', points: [{ at: -5, stockShare: 100 }, { at: 0, stockShare: 0 }] });
+    expect(stockShareAt(byRetirement, 0)).toBeCloseTo(1, 1);
+    expect(stockShareAt(byRetirement, 60)).toBeCloseTo(0, 1);
+    // B's age, not the plan owner's
+    const byAge = glide({ basis: 'age', points: [{ at: 45, stockShare: 100 }, { at: 55, stockShare: 0 }] });
+    expect(stockShareAt(byAge, 0)).toBeCloseTo(1, 1);
+  });
+
+  it('the household keeps working until the last member stops', () => {
+    const data = runSimulation(20000, {
+      ...householdParams,
+      transitionToHalfWorkYear: 10,
+      household: [member('A', 50, 1000000, 2), member('B', 45, 500000, 10)],
+    });
+    // After A stops, only B's salary comes in
+    expect(data.find(p => p.index === 12)!.currentIncome).toBe(40000);
+    expect(data.find(p => p.index === 36)!.currentIncome).toBe(20000);
+    expect(data.find(p => p.index === 36)!.incomeSource).toBe('שכר מלא');
+    expect(data.find(p => p.index === 120)!.incomeSource).not.toContain('שכר');
+  });
+
+  it('the sliders shift every member by the same amount', () => {
+    const household = [member('A', 50, 1000000, 2), member('B', 45, 500000, 10)];
+    const explicit = runSimulation(20000, {
+      ...householdParams,
+      transitionToHalfWorkYear: 13,
+      stopWorkYear: 13,
+      household: [member('A', 50, 1000000, 5), member('B', 45, 500000, 13)],
+    });
+    const shifted = runSimulation(20000, { ...householdParams, transitionToHalfWorkYear: 13, stopWorkYear: 13, household });
+    expect(shifted).toEqual(explicit);
+  });
+
+  it('sensitivity drivers nudge household members', () => {
+    const params = { ...householdParams, household: [member('A', 50, 1000000, 2), member('B', 45, 500000, 10)] };
+    const drivers = Object.fromEntries(SENSITIVITY_DRIVERS.map(d => [d.id, d]));
+    expect(drivers.salaries.apply(params, 1).household!.map(m => m.netIncome)).toEqual([22000, 22000]);
+    expect(drivers.pension.apply(params, -1).household!.map(m => m.pensionInitialValue)).toEqual([900000, 450000]);
+    expect(drivers.initialAge.apply(params, 1).household!.map(m => m.initialAge)).toEqual([51, 46]);
+  });
+});
+
+describe('Investment cost basis', () => {
+  const basisParams = makeParams({
+    investmentInitialValue: 4000000,
+    pensionInitialValue: 0,
+    transitionToHalfWorkYear: 0,
+    stopWorkYear: 0,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 0, totalPensionInflow: 0 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+    initialAge: 45,
+  });
+
+  it('counts assets without a cost basis at their value', () => {
+    const assets: Asset[] = [
+      { id: 1, name: 'Pension', value: 500000, type: 'pension', costBasis: 1 },
+      { id: 2, name: 'Stocks', value: 300000, type: 'liquid', costBasis: 100000 },
+      { id: 3, name: 'Cash', value: 50000, type: 'liquid' },
+    ];
+    expect(calculateInvestmentCostBasis(assets)).toBe(150000);
+  });
+
+  it('without a basis, the whole withdrawal is taxed', () => {
+    const first = runSimulation(15000, basisParams)[0];
+    expect(first.taxPaid).toBe(3750);
+  });
+
+  it('a basis equal to the value leaves only the first month of growth taxable', () => {
+    const withBasis = runSimulation(15000, { ...basisParams, investmentCostBasis: 4000000 });
+    expect(withBasis[0].taxPaid).toBeLessThan(100);
+    // The gain share grows over time
+    expect(withBasis.find(p => p.index === 240)!.taxPaid).toBeGreaterThan(withBasis[12].taxPaid);
+  });
+
+  it('only real gains are taxed', () => {
+    // Returns that just keep up with inflation leave (almost) no real gain,
+    // while ten years of nominal gains would be taxed at hundreds a month
+    const data = runSimulation(15000, { ...basisParams, returnRate: 2.5, investmentCostBasis: 4000000 });
+    expect(data.find(p => p.index === 120)!.taxPaid).toBeLessThan(20);
+  });
+
+  it('savings deposits add to the basis', () => {
+    const working = { ...basisParams, stopWorkYear: 10, transitionToHalfWorkYear: 10, budgetSummary: { ...basisParams.budgetSummary, totalIncomeNet: 40000 } };
+    const retired = runSimulation(15000, working).find(p => p.index === 120)!;
+    expect(retired.taxPaid).toBeLessThan(15000 * 0.25 * retired.monthlyOutflow / 15000);
+  });
+});
+
+describe('Net spending mode', () => {
+  const netParams = makeParams({
+    investmentInitialValue: 5000000,
+    transitionToHalfWorkYear: 0,
+    stopWorkYear: 0,
+    budgetSummary: { totalExpenseToday: 20000, totalIncomeNet: 0, totalPensionInflow: 0 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 20000 }],
+    initialAge: 50,
+  });
+
+  it('grosses up an investment withdrawal to leave the net amount', () => {
+    const gross = calculateGrossForNetInvestmentWithdrawal(15000, 0, 0.5);
+    expect(gross - calculateInvestmentWithdrawalTax(gross, gross * 12, 0.5)).toBeCloseTo(15000);
+    // Surtax applies once the annual total crosses the threshold
+    const large = calculateGrossForNetInvestmentWithdrawal(60000, 0, 1);
+    expect(large).toBeCloseTo(60000 / 0.72);
+    expect(calculateGrossForNetInvestmentWithdrawal(0, 0, 1)).toBe(0);
+  });
+
+  it('by default the tax is part of the withdrawal', () => {
+    const first = runSimulation(20000, netParams)[0];
+    expect(first.grossWithdrawal).toBe(20000);
+    expect(first.netWithdrawal).toBe(20000 - first.taxPaid);
+  });
+
+  it('in net mode the portfolio pays the tax on top of the target', () => {
+    const first = runSimulation(20000, { ...netParams, netSpending: true })[0];
+    expect(first.netWithdrawal).toBe(20000);
+    expect(first.grossWithdrawal).toBe(20000 + first.taxPaid);
+    expect(first.investments).toBeLessThan(runSimulation(20000, netParams)[0].investments);
+  });
+
+  it('net mode delivers the target after annuity and early pension tax', () => {
+    const data = runSimulation(20000, { ...netParams, netSpending: true });
+    const annuityYear = data.find(p => p.index === 150)!;
+    expect(annuityYear.pensionAnnuity).toBeGreaterThan(0);
+    expect(Math.abs(annuityYear.netWithdrawal - annuityYear.monthlyOutflow)).toBeLessThanOrEqual(1);
+  });
+
+  it('net mode sustains a lower withdrawal', () => {
+    const gross = findOptimalWithdrawal(netParams).val;
+    const net = findOptimalWithdrawal({ ...netParams, netSpending: true }).val;
+    expect(net).toBeLessThan(gross);
+  });
+});
+
+describe('Annual tax true-up', () => {
+  const trueUpParams = makeParams({
+    pensionInitialValue: 0,
+    transitionToHalfWorkYear: 0,
+    stopWorkYear: 0,
+    budgetSummary: { totalExpenseToday: 20000, totalIncomeNet: 0, totalPensionInflow: 0 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 20000 }],
+    initialAge: 50,
+  });
+
+  it('stacks each income type on top of the previous ones', () => {
+    const salaryOnly = calculateAnnualTax({ salary: 300000, annuity: 0, earlyPension: 0, rental: 0, capitalGains: 0, equity: 0 });
+    expect(salaryOnly.total).toBeCloseTo(calculateMarginalTax(300000, EMPLOYMENT_TAX_BRACKETS));
+    
+    // Gains on top of a high salary pay the surtax
+    const withGains = calculateAnnualTax({ salary: 800000, annuity: 0, earlyPension: 0, rental: 0, capitalGains: 100000, equity: 0 });
+    expect(withGains.capitalGainsTax).toBeCloseTo(28000);
+    
+    // Early pension starts at the non-employment minimum rate and continues from the salary
+    const withPension = calculateAnnualTax({ salary: 100000, annuity: 0, earlyPension: 100000, rental: 0, capitalGains: 0, equity: 0 });
+    expect(withPension.nonEmploymentTax).toBeCloseTo(31000);
+    expect(withPension.total).toBeCloseTo(withPension.employmentTax + withPension.nonEmploymentTax);
+  });
+
+  it('is off by default', () => {
+    const data = runSimulation(15000, trueUpParams);
+    expect(data.every(p => p.taxTrueUp === 0)).toBe(true);
+  });
+
+  it('settles little when monthly withholding is already right', () => {
+    const data = runSimulation(15000, { ...trueUpParams, annualTaxTrueUp: true });
+    // A steady capital gains withdrawal is withheld at the annual rate
+    const yearTax = data.filter(p => p.index < 12).reduce((sum, p) => sum + p.taxPaid, 0);
+    const december = data.find(p => p.index === 11)!;
+    expect(Math.abs(december.taxTrueUp)).toBeLessThan(yearTax * 0.01);
+  });
+
+  it('refunds annuity tax withheld above the brackets', () => {
+    const retiree = { 
+      ...trueUpParams, 
+      investmentInitialValue: 0, 
+      pensionInitialValue: 2000000, 
+      initialAge: 65, 
+      monthlyExpenses: [{ id: 1, name: 'Living', amount: 5000 }] 
+    };
+    const data = runSimulation(5000, { ...retiree, annualTaxTrueUp: true });
+    const december = data.find(p => p.index === 11)!;
+    expect(december.taxTrueUp).toBeLessThan(0);
+    expect(december.event).toContain("החזר מס שנתי");
+    expect(data[data.length - 1].investments).toBeGreaterThan(runSimulation(5000, retiree)[data.length - 1].investments);
+  });
+
+  it('taxes gains realized while working on top of the salary', () => {
+    const working = {
+      ...trueUpParams,
+      transitionToHalfWorkYear: 10,
+      stopWorkYear: 10,
+      budgetSummary: { totalExpenseToday: 20000, totalIncomeNet: 45000, totalPensionInflow: 70000 * 0.2 },
+      propertyConfig: { price: 1000000, year: 2026, monthlySavings: 0 },
+    };
+    const december = runSimulation(15000, { ...working, annualTaxTrueUp: true }).find(p => p.index === 11)!;
+    // 840K salary is above the surtax threshold, so the 1M gain pays 28%
+    expect(december.taxTrueUp).toBeCloseTo(280000, -3);
+    expect(december.event).toContain("תשלום מס שנתי");
+  });
+});
+
+describe('Tax credit points', () => {
+  const profile: CreditPointsProfile = { gender: 'male', childBirthYears: [], degree: 'none', degreeYear: 0 };
+
+  it('gives every resident base points and women half a point more', () => {
+    expect(calculateCreditPoints(profile, 2026)).toBe(2.25);
+    expect(calculateCreditPoints({ ...profile, gender: 'female' }, 2026)).toBe(2.75);
+  });
+
+  it('adds child points by the child age and parent gender', () => {
+    const mother: CreditPointsProfile = { ...profile, gender: 'female', childBirthYears: [2026] };
+    expect(calculateCreditPoints(mother, 2026)).toBe(2.75 + 1.5);
+    expect(calculateCreditPoints(mother, 2030)).toBe(2.75 + 2.5);
+    expect(calculateCreditPoints(mother, 2040)).toBe(2.75 + 1);
+    expect(calculateCreditPoints(mother, 2044)).toBe(2.75 + 0.5);
+    expect(calculateCreditPoints(mother, 2045)).toBe(2.75);
+    expect(calculateCreditPoints({ ...profile, childBirthYears: [2026] }, 2036)).toBe(2.25);
+    expect(calculateCreditPoints({ ...profile, childBirthYears: [2030] }, 2026)).toBe(2.25);
+  });
+
+  it('adds degree points the year after completion', () => {
+    const graduate: CreditPointsProfile = { ...profile, degree: 'bachelor', degreeYear: 2025 };
+    expect(calculateCreditPoints(graduate, 2025)).toBe(2.25);
+    expect(calculateCreditPoints(graduate, 2026)).toBe(3.25);
+    expect(calculateCreditPoints(graduate, 2027)).toBe(2.25);
+  });
+
+  it('prorates immigrant and discharged soldier points by month', () => {
+    const immigrant: CreditPointsProfile = { ...profile, immigrationDate: '2026-01-15' };
+    expect(calculateCreditPoints(immigrant, 2026)).toBeCloseTo(2.25 + 3);
+    expect(calculateCreditPoints(immigrant, 2027)).toBeCloseTo(2.25 + 2.5);
+    expect(calculateCreditPoints(immigrant, 2030)).toBeCloseTo(2.25);
+    
+    const soldier: CreditPointsProfile = { ...profile, dischargeDate: '2026-07-01' };
+    expect(calculateCreditPoints(soldier, 2026)).toBeCloseTo(2.25 + 2 * 5 / 12);
+    expect(calculateCreditPoints(soldier, 2028)).toBeCloseTo(2.25 + 2);
+  });
+
+  it('indexes the point value and offsets income tax only', () => {
+    expect(calculateTaxCredit(2, 1.1)).toBeCloseTo(2 * CREDIT_POINT_ANNUAL_VALUE * 1.1);
+    
+    const credit = calculateTaxCredit(2.25);
+    const income = { salary: 200000, annuity: 0, earlyPension: 0, rental: 0, capitalGains: 100000, equity: 0 };
+    const withCredit = calculateAnnualTax(income, credit);
+    const without = calculateAnnualTax(income);
+    expect(without.total - withCredit.total).toBeCloseTo(credit);
+    expect(withCredit.capitalGainsTax).toBe(without.capitalGainsTax);
+    // Credit beyond the income tax is not refunded
+    expect(calculateAnnualTax({ ...income, salary: 10000 }, 1000000).total).toBe(without.capitalGainsTax);
+  });
+
+  it('lowers the tax on early pension withdrawals', () => {
+    const credit = calculateTaxCredit(2.25);
+    const withCredit = calculateEarlyPensionWithdrawal(200000, 0, credit);
+    expect(withCredit.taxPaid).toBeCloseTo(calculateEarlyPensionWithdrawal(200000).taxPaid - credit);
+    expect(calculateGrossForDesiredNet(150000, 0, credit)).toBeLessThan(calculateGrossForDesiredNet(150000));
+  });
+
+  it('applies each member\'s points in the simulation', () => {
+    const base = makeParams({
+      investmentInitialValue: 0,
+      pensionInitialValue: 0,
+      transitionToHalfWorkYear: 0,
+      stopWorkYear: 0,
+      budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 0, totalPensionInflow: 0 },
+      monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+      initialAge: 50,
+    });
+    const member = {
+      id: 'a', name: 'A', initialAge: 50, netIncome: 0, pensionInflow: 0, pensionInitialValue: 3000000,
+      transitionToHalfWorkYear: 0, stopWorkYear: 0,
+    };
+    const without = runSimulation(15000, { ...base, household: [member] })[0];
+    const withPoints = runSimulation(15000, { ...base, household: [{ ...member, creditPoints: profile }] })[0];
+    // The same net needs less gross: the credit saves its value grossed up at the 31% bracket
+    expect(without.taxPaid - withPoints.taxPaid).toBeCloseTo(calculateTaxCredit(2.25) / 12 / 0.69, -1);
+    expect(without.withdrawalFromPension - withPoints.withdrawalFromPension).toBeCloseTo(without.taxPaid - withPoints.taxPaid, -1);
+  });
+
+  it('grosses up each member\'s share on their own brackets and points', () => {
+    const base = makeParams({
+      investmentInitialValue: 0,
+      pensionInitialValue: 0,
+      inflationRate: 0,
+      transitionToHalfWorkYear: 0,
+      stopWorkYear: 0,
+      budgetSummary: { totalExpenseToday: 30000, totalIncomeNet: 0, totalPensionInflow: 0 },
+      monthlyExpenses: [{ id: 1, name: 'Living', amount: 30000 }],
+      initialAge: 50,
+    });
+    const a = {
+      id: 'a', name: 'A', initialAge: 50, netIncome: 0, pensionInflow: 0, pensionInitialValue: 3000000,
+      transitionToHalfWorkYear: 0, stopWorkYear: 0, creditPoints: profile,
+    };
+    const b = { ...a, id: 'b', name: 'B', creditPoints: undefined };
+    const together = runSimulation(30000, { ...base, household: [a, b] })[0];
+    const alone = (member: typeof a | typeof b) => runSimulation(15000, { ...base, household: [member] })[0];
+    expect(together.taxPaid).toBeCloseTo(alone(a).taxPaid + alone(b).taxPaid, 0);
+  });
+
+  it('leaves early pension withholding only the points payroll didn\'t use', () => {
+    const base = makeParams({
+      investmentInitialValue: 0,
+      pensionInitialValue: 0,
+      inflationRate: 0,
+      transitionToHalfWorkYear: 0.5,
+      stopWorkYear: 0.5,
+      budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 20000, totalPensionInflow: 0 },
+      monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+      initialAge: 50,
+    });
+    const member = {
+      id: 'a', name: 'A', initialAge: 50, netIncome: 20000, grossIncome: 30000, pensionInflow: 0, pensionInitialValue: 3000000,
+      transitionToHalfWorkYear: 0.5, stopWorkYear: 0.5,
+    };
+    const without = runSimulation(15000, { ...base, household: [member] });
+    const withPoints = runSimulation(15000, { ...base, household: [{ ...member, creditPoints: profile }] });
+    const at = (data: SimulationDataPoint[], index: number) => data.find(p => p.index === index)!;
+    // Half a year of salary used up the points; the next calendar year they count again
+    expect(at(withPoints, 6).taxPaid).toBe(at(without, 6).taxPaid);
+    expect(at(withPoints, 12).taxPaid).toBeLessThan(at(without, 12).taxPaid);
+  });
+});
+
+describe('Net salary from gross', () => {
+  it('deducts income tax, National Insurance, health tax and employee savings', () => {
+    const payslip = calculatePayslip(10000, 2.25);
+    const annualTax = 84120 * 0.10 + (120000 - 84120) * 0.14;
+    expect(payslip.incomeTax).toBeCloseTo((annualTax - 2.25 * CREDIT_POINT_ANNUAL_VALUE) / 12);
+    expect(payslip.nationalInsurance).toBeCloseTo(7522 * 0.0104 + 2478 * 0.07);
+    expect(payslip.healthTax).toBeCloseTo(7522 * 0.0323 + 2478 * 0.0517);
+    expect(payslip.pension).toBeCloseTo(600);
+    expect(payslip.studyFund).toBeCloseTo(250);
+    expect(payslip.net).toBeCloseTo(
+      10000 - payslip.incomeTax - payslip.nationalInsurance - payslip.healthTax - payslip.pension - payslip.studyFund
+    );
+  });
+
+  it('caps National Insurance at the maximum insured income and never taxes below zero', () => {
+    expect(calculatePayslip(100000).nationalInsurance).toBeCloseTo(calculatePayslip(50695).nationalInsurance);
+    expect(calculatePayslip(3000, 5).incomeTax).toBe(0);
+  });
+
+  it('deducts the study fund only up to its salary ceiling', () => {
+    expect(calculatePayslip(50000).studyFund).toBeCloseTo(15712 * 0.025);
+  });
+
+  it('uses the typed net unless the member derives it', () => {
+    const member: HouseholdMember = { 
+      id: 'a', name: 'A', birthDate: '1986-01-01', grossSalary: 30000, netSalary: 12345, 
+      transitionToHalfWorkYear: 5, stopWorkYear: 10 
+    };
+    expect(getMemberNetSalary(member)).toBe(12345);
+    const derived = { ...member, deriveNet: true, creditPoints: { gender: 'female' as const, childBirthYears: [], degree: 'none' as const, degreeYear: 0 } };
+    expect(getMemberNetSalary(derived)).toBe(Math.round(calculatePayslip(30000, 2.75).net));
+    expect(calculateBudgetSummary([], [], [derived]).totalIncomeNet).toBe(getMemberNetSalary(derived));
+    expect(buildHouseholdParams([derived], [], '2026-01-01')[0].netIncome).toBe(getMemberNetSalary(derived));
+  });
+});
+
+describe('Bituach Leumi old-age pension', () => {
+  const base = makeParams({
+    investmentInitialValue: 2000000,
+    pensionInitialValue: 0,
+    transitionToHalfWorkYear: 0,
+    stopWorkYear: 0,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 0, totalPensionInflow: 0 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+    initialAge: 65,
+  });
+  const member = (id: string, initialAge: number, age: number) => ({
+    id, name: id, initialAge, netIncome: 0, pensionInflow: 0, pensionInitialValue: 0,
+    transitionToHalfWorkYear: 0, stopWorkYear: 0,
+    oldAgePension: { age, amount: 2000 },
+  });
+
+  it('sets the eligibility age by gender and birth year', () => {
+    expect(getOldAgePensionAge('1970-05-01', 'male')).toBe(67);
+    expect(getOldAgePensionAge('1958-05-01', 'female')).toBe(62);
+    expect(getOldAgePensionAge('1962-05-01', 'female')).toBe(63);
+    expect(getOldAgePensionAge('1975-05-01', 'female')).toBe(65);
+  });
+
+  it('adds 2% per insurance year beyond 10, up to 50%', () => {
+    expect(calculateOldAgePension(10)).toBe(OLD_AGE_PENSION_BASE);
+    expect(calculateOldAgePension(20)).toBeCloseTo(OLD_AGE_PENSION_BASE * 1.2);
+    expect(calculateOldAgePension(49)).toBeCloseTo(OLD_AGE_PENSION_BASE * 1.5);
+    
+    const woman: HouseholdMember = { 
+      id: 'a', name: 'A', birthDate: '1980-01-01', grossSalary: 0, netSalary: 0, 
+      transitionToHalfWorkYear: 0, stopWorkYear: 0, gender: 'female' 
+    };
+    expect(buildOldAgePension(woman)).toEqual({ age: 65, amount: calculateOldAgePension(47) });
+  });
+
+  it('counts insurance years from the insured-since year', () => {
+    const immigrant: HouseholdMember = { 
+      id: 'a', name: 'A', birthDate: '1980-01-01', grossSalary: 0, netSalary: 0, 
+      transitionToHalfWorkYear: 0, stopWorkYear: 0, insuredSinceYear: 2020 
+    };
+    // Insured from 40 until 67
+    expect(buildOldAgePension(immigrant)).toEqual({ age: 67, amount: calculateOldAgePension(27) });
+    expect(buildOldAgePension(immigrant).amount).toBeLessThan(buildOldAgePension({ ...immigrant, insuredSinceYear: undefined }).amount);
+  });
+
+  it('is paid only when enabled, from the eligibility age, indexed to inflation', () => {
+    const household = [member('a', 65, 67)];
+    expect(runSimulation(15000, { ...base, household }).every(p => p.oldAgePension === 0)).toBe(true);
+    
+    const data = runSimulation(15000, { ...base, household, oldAgePension: true });
+    expect(data.find(p => p.index === 23)!.oldAgePension).toBe(0);
+    const start = data.find(p => p.index === 24)!;
+    expect(start.event).toContain("קצבת זקנה");
+    expect(start.oldAgePension).toBeGreaterThan(2000);
+    expect(data.find(p => p.index === 120)!.oldAgePension).toBeGreaterThan(start.oldAgePension);
+    // The pension reduces what is taken from investments
+    const without = runSimulation(15000, { ...base, household });
+    expect(start.withdrawalFromInvestments).toBeLessThan(without.find(p => p.index === 24)!.withdrawalFromInvestments);
+  });
+
+  it('adds the spouse supplement while the spouse gets no pension of their own', () => {
+    const data = runSimulation(15000, { ...base, household: [member('a', 67, 67), member('b', 62, 65)], oldAgePension: true });
+    const first = data[0];
+    expect(first.oldAgePension).toBe(2000 + OLD_AGE_PENSION_SPOUSE_SUPPLEMENT);
+    // Both receive their own pension from the spouse's eligibility age
+    const later = data.find(p => p.index === 36)!;
+    expect(later.oldAgePension).toBeGreaterThan(4000);
+    expect(later.oldAgePension).toBeLessThan(4000 + OLD_AGE_PENSION_SPOUSE_SUPPLEMENT);
+  });
+});
+
+describe('National Insurance for early retirees', () => {
+  const base = makeParams({
+    pensionInitialValue: 0,
+    transitionToHalfWorkYear: 2,
+    stopWorkYear: 2,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 20000, totalPensionInflow: 0 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+    initialAge: 50,
+  });
+
+  it('charges the minimum, or the passive income rates on pension income', () => {
+    expect(calculateNonWorkingNationalInsurance(0)).toBe(NON_WORKING_MIN_INSURANCE_PAYMENT);
+    expect(calculateNonWorkingNationalInsurance(0, 1.1)).toBeCloseTo(NON_WORKING_MIN_INSURANCE_PAYMENT * 1.1);
+    expect(calculateNonWorkingNationalInsurance(10000)).toBeCloseTo(7522 * (0.0447 + 0.0323) + 2478 * (0.0783 + 0.0517));
+    expect(calculateNonWorkingNationalInsurance(10000, 2)).toBeCloseTo(calculateNonWorkingNationalInsurance(5000) * 2);
+  });
+
+  it('is paid from stopping work until pension age, only when enabled', () => {
+    expect(runSimulation(15000, base).every(p => p.nationalInsurance === 0)).toBe(true);
+    
+    const data = runSimulation(15000, { ...base, retireeNationalInsurance: true });
+    expect(data.find(p => p.index === 12)!.nationalInsurance).toBe(0);
+    expect(data.find(p => p.index === 24)!.nationalInsurance).toBeGreaterThanOrEqual(NON_WORKING_MIN_INSURANCE_PAYMENT);
+    // Stops at the default pension age (67)
+    expect(data.find(p => p.index === 17 * 12)!.nationalInsurance).toBe(0);
+    expect(data.find(p => p.index === 120)!.investments).toBeLessThan(runSimulation(15000, base).find(p => p.index === 120)!.investments);
+  });
+
+  const member = {
+    id: 'a', name: 'A', initialAge: 50, netIncome: 20000, pensionInflow: 0, pensionInitialValue: 0,
+    transitionToHalfWorkYear: 2, stopWorkYear: 2,
+  };
+
+  it('charges the passive rates on rent, which is invested after the 10% tax', () => {
+    const without = runSimulation(15000, { ...base, inflationRate: 0, retireeNationalInsurance: true, household: [member] });
+    const withRent = runSimulation(15000, { ...base, inflationRate: 0, retireeNationalInsurance: true, household: [{ ...member, rentalIncome: 10000 }] });
+    expect(without.find(p => p.index === 24)!.nationalInsurance).toBe(NON_WORKING_MIN_INSURANCE_PAYMENT);
+    expect(withRent.find(p => p.index === 24)!.nationalInsurance).toBe(Math.round(calculateNonWorkingNationalInsurance(10000)));
+    expect(withRent.find(p => p.index === 12)!.investments - without.find(p => p.index === 12)!.investments)
+      .toBeGreaterThan(13 * 10000 * (1 - RENTAL_INCOME_TAX_RATE));
+  });
+
+  it('stops at the member\'s own pension age', () => {
+    const data = runSimulation(15000, { ...base, retireeNationalInsurance: true, household: [{ ...member, pensionAge: 62 }] });
+    expect(data.find(p => p.index === 11 * 12 + 9)!.nationalInsurance).toBeGreaterThan(0);
+    expect(data.find(p => p.index === 12 * 12)!.nationalInsurance).toBe(0);
+  });
+
+  it('keeps charging after the investments run out', () => {
+    const data = runSimulation(15000, { ...base, investmentInitialValue: 0, retireeNationalInsurance: true, household: [member] });
+    // Before the pension age at 67
+    const broke = data.filter(p => p.index >= 24 && p.index < 17 * 12 && p.investments === 0);
+    expect(broke.length).toBeGreaterThan(0);
+    expect(broke.every(p => p.nationalInsurance > 0 && p.liquidWealth === 0)).toBe(true);
+  });
+});
+
+describe('Annuity conversion factor', () => {
+  const options = { guaranteeMonths: 0, survivorPercent: 0 };
+  const base = makeParams({
+    pensionInitialValue: 2000000,
+    transitionToHalfWorkYear: 0,
+    stopWorkYear: 0,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 0, totalPensionInflow: 0 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+    initialAge: 60,
+  });
+  const member = (startAge: number) => ({
+    id: 'a', name: 'A', initialAge: 60, netIncome: 0, pensionInflow: 0, pensionInitialValue: 2000000,
+    transitionToHalfWorkYear: 0, stopWorkYear: 0,
+    annuity: { startAge, guaranteeMonths: 0, survivorPercent: 0, gender: 'male' as const, birthYear: 1966 },
+  });
+
+  it('falls with age and is higher for women', () => {
+    const at60 = calculateConversionFactor(60, 'male', 1960, options);
+    const at67 = calculateConversionFactor(67, 'male', 1960, options);
+    expect(at67).toBeLessThan(at60);
+    expect(calculateConversionFactor(65, 'female', 1960, options)).toBeGreaterThan(calculateConversionFactor(65, 'male', 1960, options));
+    // Interpolates between table ages and clamps outside 60-70
+    const at65 = calculateConversionFactor(65, 'male', 1960, options);
+    expect(calculateConversionFactor(65.5, 'male', 1960, options)).toBeLessThan(at65);
+    expect(calculateConversionFactor(75, 'male', 1960, options)).toBe(calculateConversionFactor(70, 'male', 1960, options));
+    expect(calculateConversionFactor(55, 'male', 1960, options)).toBe(at60);
+  });
+
+  it('rises for younger cohorts, guarantee periods and survivor pensions', () => {
+    const plain = calculateConversionFactor(67, 'male', 1960, options);
+    expect(calculateConversionFactor(67, 'male', 1970, options)).toBeCloseTo(plain * 1.03);
+    expect(calculateConversionFactor(67, 'male', 1960, { ...options, guaranteeMonths: 240 })).toBeCloseTo(plain * 1.1);
+    expect(calculateConversionFactor(67, 'male', 1960, { ...options, survivorPercent: 60 })).toBeCloseTo(plain * (1 + 0.22 * 0.6));
+  });
+
+  it('divides the balance by the factor', () => {
+    expect(calculatePensionAnnuity(2100000)).toBe(10000);
+    expect(calculatePensionAnnuity(2000000, 200)).toBe(10000);
+  });
+
+  it('keeps the pension growing until the chosen annuity age', () => {
+    const data = runSimulation(15000, { ...base, household: [member(65)] });
+    expect(data.find(p => p.index === 48)!.pensionAnnuity).toBe(0);
+    const start = data.find(p => p.index === 60)!;
+    expect(start.event).toContain("המרה לקצבת פנסיה");
+    expect(start.pensionAnnuity).toBeGreaterThan(0);
+    
+    const legacy = runSimulation(15000, base);
+    expect(legacy[0].pensionAnnuity).toBeGreaterThan(0);
+    expect(start.pensionAnnuity).toBeGreaterThan(legacy.find(p => p.index === 60)!.pensionAnnuity);
+  });
+
+  it('starts the annuity early once investments run out', () => {
+    const data = runSimulation(15000, { ...base, investmentInitialValue: 100000, household: [member(70)] });
+    const start = data.find(p => p.pensionAnnuity > 0)!;
+    expect(start.index).toBeLessThan(120);
+  });
+});
+
+describe('Rights fixing (exempt pension)', () => {
+  const exemptCapital2026 = QUALIFYING_PENSION_CEILING * 0.57 * EXEMPT_CAPITAL_MONTHS;
+
+  it('uses the exempt rate of the year', () => {
+    expect(getExemptPensionRate(2015)).toBe(0.435);
+    expect(getExemptPensionRate(2026)).toBe(0.57);
+    expect(getExemptPensionRate(2035)).toBe(0.67);
+  });
+
+  it('gives the annuity whatever the grants do not use', () => {
+    const all = calculateRightsFixing({ severanceGrants: 0, annuityShare: 100 }, 2026);
+    expect(all.exemptCapital).toBeCloseTo(exemptCapital2026);
+    expect(all.annuityExemption).toBeCloseTo(QUALIFYING_PENSION_CEILING * 0.57);
+    
+    const split = calculateRightsFixing({ severanceGrants: 200000, annuityShare: 50 }, 2026);
+    expect(split.grantExemption).toBeCloseTo(200000);
+    expect(split.taxableGrant).toBeCloseTo(0);
+    expect(split.annuityExemption).toBeCloseTo((exemptCapital2026 - 200000 * 1.35) / EXEMPT_CAPITAL_MONTHS);
+    
+    const grantsOnly = calculateRightsFixing({ severanceGrants: 1000000, annuityShare: 0 }, 2026);
+    expect(grantsOnly.annuityExemption).toBeCloseTo(0);
+    expect(grantsOnly.taxableGrant).toBeCloseTo(1000000 - exemptCapital2026 / 1.35);
+    // Indexed to inflation
+    expect(calculateRightsFixing({ severanceGrants: 0, annuityShare: 100 }, 2026, 1.1).annuityExemption)
+      .toBeCloseTo(all.annuityExemption * 1.1);
+  });
+
+  it('taxes the rest of the annuity through the brackets with credit points', () => {
+    expect(calculatePensionAnnuityTax(10000)).toBe(1500);
+    const exemption = QUALIFYING_PENSION_CEILING * 0.57;
+    const tax = calculatePensionAnnuityTax(10000, exemption);
+    expect(tax).toBeCloseTo(calculateMarginalTax((10000 - exemption) * 12, EMPLOYMENT_TAX_BRACKETS) / 12);
+    expect(tax).toBeLessThan(1500);
+    expect(calculatePensionAnnuityTax(10000, exemption, 2400)).toBeCloseTo(tax - 200);
+    expect(calculatePensionAnnuityTax(5000, exemption)).toBe(0);
+  });
+
+  it('compares allocations of the exempt capital', () => {
+    const rows = compareRightsFixingAllocations(12000, 500000, 2026, 0, 240);
+    expect(rows.map(r => r.annuityShare)).toEqual([0, 25, 50, 75, 100]);
+    expect(rows[4].grantTax).toBeGreaterThan(rows[0].grantTax);
+    expect(rows[4].monthlyAnnuityTax).toBeLessThan(rows[0].monthlyAnnuityTax);
+    rows.forEach(r => expect(r.totalTax).toBeCloseTo(r.grantTax + r.monthlyAnnuityTax * 240));
+  });
+
+  const base = makeParams({
+    pensionInitialValue: 2000000,
+    transitionToHalfWorkYear: 0,
+    stopWorkYear: 0,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 0, totalPensionInflow: 0 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+    initialAge: 60,
+  });
+  const member = {
+    id: 'a', name: 'A', initialAge: 60, netIncome: 0, pensionInflow: 0, pensionInitialValue: 2000000,
+    transitionToHalfWorkYear: 0, stopWorkYear: 0,
+  };
+
+  it('lowers the tax on the simulated annuity', () => {
+    const flat = runSimulation(15000, { ...base, household: [member] });
+    const fixed = runSimulation(15000, { ...base, household: [{ ...member, rightsFixing: { severanceGrants: 0, annuityShare: 100 } }] });
+    expect(fixed[0].pensionAnnuity).toBeGreaterThan(flat[0].pensionAnnuity);
+    expect(fixed[0].taxPaid).toBeLessThan(flat[0].taxPaid);
+    
+    // The year-end true-up only taxes the non-exempt part
+    const trueUp = runSimulation(15000, { ...base, annualTaxTrueUp: true, household: [{ ...member, rightsFixing: { severanceGrants: 0, annuityShare: 100 } }] });
+    expect(Math.abs(trueUp.find(p => p.index === 11)!.taxTrueUp)).toBeLessThan(100);
+  });
+
+  it('pays the severance grants into the portfolio at the annuity start, less their tax', () => {
+    const withGrants = (annuityShare: number) => runSimulation(15000, { 
+      ...base, household: [{ ...member, rightsFixing: { severanceGrants: 500000, annuityShare } }] 
+    })[0];
+    const noGrants = runSimulation(15000, { ...base, household: [{ ...member, rightsFixing: { severanceGrants: 0, annuityShare: 100 } }] })[0];
+    const allToAnnuity = withGrants(100);
+    const allToGrants = withGrants(0);
+    expect(allToAnnuity.event).toContain('מענק פרישה');
+    // Fully taxable grants: the tax is on the employment brackets
+    const tax = calculateMarginalTax(500000, EMPLOYMENT_TAX_BRACKETS);
+    expect(allToAnnuity.taxPaid - noGrants.taxPaid).toBeCloseTo(tax, -3);
+    // Invested before the month's growth
+    expect(allToAnnuity.investments - noGrants.investments).toBeGreaterThan(500000 - tax);
+    expect(allToAnnuity.investments - noGrants.investments).toBeLessThan((500000 - tax) * 1.01);
+    // Exempting the grants instead brings in more cash, for a smaller exempt annuity
+    expect(allToGrants.investments).toBeGreaterThan(allToAnnuity.investments);
+    expect(allToGrants.pensionAnnuity).toBeLessThan(allToAnnuity.pensionAnnuity);
+  });
+});
+
+describe('Study funds (hishtalmut)', () => {
+  const base = makeParams({
+    investmentInitialValue: 2000000,
+    pensionInitialValue: 0,
+    inflationRate: 0,
+    transitionToHalfWorkYear: 2,
+    stopWorkYear: 2,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 20000, totalPensionInflow: 0 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+    initialAge: 45,
+  });
+  const household = [{
+    id: 'a', name: 'A', initialAge: 45, netIncome: 20000, grossIncome: 30000, pensionInflow: 0, pensionInitialValue: 0,
+    transitionToHalfWorkYear: 2, stopWorkYear: 2,
+  }];
+
+  it('keeps study funds out of the investments', () => {
+    const assets: Asset[] = [
+      { id: 1, name: 'Stocks', value: 1000, type: 'liquid' },
+      { id: 2, name: 'Fund', value: 500, type: 'hishtalmut', openDate: '2021-03-01' },
+      { id: 3, name: 'Pension', value: 700, type: 'pension' },
+    ];
+    expect(calculateInvestmentValue(assets)).toBe(1000);
+    expect(calculateInvestmentCostBasis(assets)).toBe(1000);
+    expect(calculateInvestmentAllocation(assets).stocks).toBe(1000);
+  });
+
+  it('becomes liquid six years after opening, or after the as-of date without one', () => {
+    const funds = buildStudyFundParams([
+      { id: 1, name: 'Fund', value: 500, type: 'hishtalmut', openDate: '2021-03-01', ownerId: 'b' },
+      { id: 2, name: 'Old fund', value: 300, type: 'hishtalmut' },
+      { id: 3, name: 'Stocks', value: 1000, type: 'liquid' },
+    ], '2026-01-01');
+    expect(funds).toEqual([
+      { value: 500, ownerId: 'b', liquidMonth: 14 },
+      { value: 300, ownerId: undefined, liquidMonth: 72 },
+    ]);
+  });
+
+  it('takes contributions up to the salary ceiling while working', () => {
+    const data = runSimulation(15000, { ...base, household, studyFunds: [{ value: 100000, liquidMonth: 0 }] });
+    const contribution = STUDY_FUND_SALARY_CEILING * 0.1;
+    // Grows with the return on top of the contribution
+    expect(data[1].studyFunds - data[0].studyFunds).toBeGreaterThan(contribution);
+    expect(data[1].studyFunds - data[0].studyFunds).toBeLessThan(contribution + 1000);
+  });
+
+  it('is spent first and tax-free in retirement, once liquid', () => {
+    const without = runSimulation(15000, { ...base, household });
+    const liquid = runSimulation(15000, { ...base, household, studyFunds: [{ value: 100000, liquidMonth: 0 }] });
+    const retired = liquid.find(p => p.index === 24)!;
+    expect(retired.withdrawalFromStudyFunds).toBe(15000);
+    expect(retired.withdrawalFromInvestments).toBe(0);
+    expect(retired.taxPaid).toBe(0);
+    expect(retired.incomeSource).toBe("קרן השתלמות");
+    expect(without.find(p => p.index === 24)!.taxPaid).toBeGreaterThan(0);
+    
+    const locked = runSimulation(15000, { ...base, household, studyFunds: [{ value: 100000, liquidMonth: 36 }] });
+    expect(locked.find(p => p.index === 24)!.withdrawalFromStudyFunds).toBe(0);
+    expect(locked.find(p => p.index === 36)!.event).toContain("קרן השתלמות נזילה");
+    expect(locked.find(p => p.index === 36)!.withdrawalFromStudyFunds).toBe(15000);
+  });
+
+  it('counts toward liquid wealth only once liquid', () => {
+    const plan = { ...base, investmentInitialValue: 100000, household };
+    const locked = runSimulation(15000, { ...plan, studyFunds: [{ value: 2000000, liquidMonth: 120 }] });
+    const broke = locked.find(p => p.index >= 24 && p.liquidWealth === 0)!;
+    // Investments run out while the fund is still locked
+    expect(broke.index).toBeLessThan(120);
+    expect(broke.studyFunds).toBeGreaterThan(2000000);
+    expect(broke.totalLegacy).toBeGreaterThan(0);
+    
+    const liquid = runSimulation(15000, { ...plan, studyFunds: [{ value: 2000000, liquidMonth: 0 }] });
+    expect(liquid.find(p => p.index === broke.index)!.liquidWealth).toBeGreaterThan(0);
+  });
+});
+
+describe('Pension contributions', () => {
+  const contributions = { employeeRate: 6, employerRate: 6.5, severanceRate: 8.33, salaryCeiling: 33290, voluntaryDeposit: 500 };
+  const member: HouseholdMember = { 
+    id: 'a', name: 'A', birthDate: '1985-01-01', grossSalary: 40000, netSalary: 25000, 
+    transitionToHalfWorkYear: 5, stopWorkYear: 10 
+  };
+
+  it('applies the three rates to the whole salary, plus voluntary deposits', () => {
+    expect(calculatePensionInflow(20000)).toBe(20000 * PENSION_CONTRIBUTION_RATE);
+    expect(calculatePensionInflow(20000, contributions)).toBeCloseTo(20000 * 0.2083 + 500);
+    expect(calculatePensionInflow(40000, contributions)).toBeCloseTo(40000 * 0.2083 + 500);
+  });
+
+  it('feeds the budget summary and the simulation', () => {
+    const withRates = { ...member, pensionContributions: contributions };
+    expect(calculateBudgetSummary([], [], [member, withRates]).totalPensionInflow)
+      .toBeCloseTo(40000 * PENSION_CONTRIBUTION_RATE + 40000 * 0.2083 + 500);
+    expect(buildHouseholdParams([withRates], [])[0].pensionInflow).toBeCloseTo(40000 * 0.2083 + 500);
+  });
+
+  it('deducts the employee share and voluntary deposits from the payslip', () => {
+    const payslip = calculatePayslip(20000, 2.25, contributions);
+    expect(payslip.pension).toBeCloseTo(20000 * 0.06 + 500);
+    expect(payslip.net).toBeCloseTo(calculatePayslip(20000, 2.25).net - payslip.pension + 20000 * 0.06);
+    expect(getMemberNetSalary({ ...member, deriveNet: true, pensionContributions: contributions }))
+      .toBe(Math.round(calculatePayslip(40000, 0, contributions).net));
+  });
+
+  it('taxes employer deposits on the salary above the ceiling as pay', () => {
+    const payslip = calculatePayslip(40000, 2.25, contributions);
+    const taxableDeposits = (40000 - 33290) * 0.1483;
+    expect(payslip.pension).toBeCloseTo(40000 * 0.06 + 500);
+    expect(payslip.incomeTax).toBeGreaterThan(calculatePayslip(40000, 2.25).incomeTax);
+    expect(payslip.incomeTax).toBeCloseTo(calculatePayslip(40000 + taxableDeposits, 2.25).incomeTax);
+  });
+});
+
+describe('Management fees', () => {
+  const base = makeParams({
+    investmentInitialValue: 1000000,
+    pensionInitialValue: 500000,
+    returnRate: 5,
+    inflationRate: 2,
+    transitionToHalfWorkYear: 10,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 25000, totalPensionInflow: 60000 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+  });
+  const member = {
+    id: 'a', name: 'A', initialAge: 40, netIncome: 25000, pensionInflow: 60000, pensionInitialValue: 500000,
+    transitionToHalfWorkYear: 10, stopWorkYear: 10,
+  };
+
+  it('weights the fees of a group of assets by value', () => {
+    const assets: Asset[] = [
+      { id: 1, name: 'A', value: 300, type: 'liquid', balanceFee: 1, depositFee: 0 },
+      { id: 2, name: 'B', value: 100, type: 'liquid' },
+      { id: 3, name: 'P', value: 1000, type: 'pension', balanceFee: 0.2, depositFee: 1.5 },
+    ];
+    expect(calculateInvestmentFees(assets)).toEqual({ balanceFee: 0.75, depositFee: 0 });
+    expect(calculateWeightedFees([assets[1]])).toBeUndefined();
+    expect(buildHouseholdParams([{ 
+      id: 'a', name: 'A', birthDate: '1985-01-01', grossSalary: 0, netSalary: 0, transitionToHalfWorkYear: 0, stopWorkYear: 0 
+    }], assets)[0].pensionFees).toEqual({ balanceFee: 0.2, depositFee: 1.5 });
+  });
+
+  it('charges balance fees monthly', () => {
+    const noFees = runSimulation(10000, base);
+    expect(noFees.every(p => p.totalFees === 0)).toBe(true);
+    
+    const withFees = runSimulation(10000, { ...base, investmentFees: { balanceFee: 1.2, depositFee: 0 } });
+    // First month: 0.1% of the investments
+    expect(withFees[0].totalFees).toBeGreaterThan(1000);
+    expect(withFees[0].totalFees).toBeLessThan(1100);
+    expect(withFees[withFees.length - 1].totalFees).toBeGreaterThan(withFees[120].totalFees);
+    expect(withFees[120].investments).toBeLessThan(noFees[120].investments);
+  });
+
+  it('charges deposit fees on pension contributions', () => {
+    const fees = { balanceFee: 0, depositFee: 2 };
+    const data = runSimulation(10000, { ...base, household: [{ ...member, pensionFees: fees }] });
+    // 2% of the monthly deposit (60000 / 12)
+    expect(data[0].totalFees).toBeCloseTo(100, 0);
+    expect(data[12].pension).toBeLessThan(runSimulation(10000, { ...base, household: [member] })[12].pension);
+  });
+
+  it('charges deposit fees on excess annuity going back to investments', () => {
+    const investmentFees = { balanceFee: 0, depositFee: 1 };
+    const data = runSimulation(1000, { ...base, pensionInitialValue: 5000000, investmentFees });
+    const at = (index: number) => data.find(p => p.index === index)!;
+    // Retired since year 10, so from then on only the excess annuity is deposited
+    expect(at(237).totalFees).toBe(at(120).totalFees);
+    expect(at(300).totalFees).toBeGreaterThan(at(237).totalFees);
+  });
+
+  it('records the last month for the lifetime total', () => {
+    const data = runSimulation(10000, { ...base, endOfLifeAge: 89.6, investmentFees: { balanceFee: 1.2, depositFee: 0 } });
+    expect(data[data.length - 1].index).toBe(595);
+  });
+});
+
+describe('Salary growth and steps', () => {
+  const base = makeParams({
+    investmentInitialValue: 500000,
+    pensionInitialValue: 0,
+    returnRate: 5,
+    inflationRate: 2,
+    transitionToHalfWorkYear: 15,
+    stopWorkYear: 15,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 20000, totalPensionInflow: 6000 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+  });
+  const member = {
+    id: 'a', name: 'A', initialAge: 40, netIncome: 20000, grossIncome: 30000, pensionInflow: 6000, pensionInitialValue: 0,
+    transitionToHalfWorkYear: 15, stopWorkYear: 15,
+  };
+
+  it('keeps pay frozen without a salary path', () => {
+    const data = runSimulation(10000, { ...base, household: [member] });
+    expect(data[0].currentIncome).toBe(20000);
+    expect(data.find(p => p.index === 120)!.currentIncome).toBe(20000);
+  });
+
+  it('indexes pay to inflation plus real growth', () => {
+    const frozen = runSimulation(10000, { ...base, household: [member] });
+    const indexed = runSimulation(10000, { ...base, household: [{ ...member, salaryGrowth: 0 }] });
+    const growing = runSimulation(10000, { ...base, household: [{ ...member, salaryGrowth: 2 }] });
+    const year10 = (data: SimulationDataPoint[]) => data.find(p => p.index === 120)!;
+    expect(year10(indexed).currentIncome).toBeCloseTo(20000 * Math.pow(1.02, 10), -1);
+    expect(year10(growing).currentIncome).toBeCloseTo(20000 * Math.pow(1.02, 10) * Math.pow(1.02, 10), -1);
+    // More pay means more savings and a larger pension
+    expect(year10(growing).investments).toBeGreaterThan(year10(indexed).investments);
+    expect(year10(indexed).investments).toBeGreaterThan(year10(frozen).investments);
+    expect(year10(growing).pension).toBeGreaterThan(year10(frozen).pension);
+  });
+
+  it('switches to a dated salary step and grows from there', () => {
+    const household = buildHouseholdParams([{
+      id: 'a', name: 'A', birthDate: '1986-01-01', grossSalary: 30000, netSalary: 20000,
+      transitionToHalfWorkYear: 15, stopWorkYear: 15, salaryGrowth: 1,
+      salarySteps: [{ date: '2031-01-01', grossSalary: 45000, netSalary: 28000 }],
+    }], [], '2026-01-01');
+    expect(household[0].salarySteps).toEqual([{ month: 60, netIncome: 28000, grossIncome: 45000, pensionInflow: 9000 }]);
+    
+    const data = runSimulation(10000, { ...base, inflationRate: 0, household });
+    expect(data.find(p => p.index === 57)!.currentIncome).toBeCloseTo(20000 * Math.pow(1.01, 57 / 12), -1);
+    expect(data.find(p => p.index === 60)!.currentIncome).toBe(28000);
+    expect(data.find(p => p.index === 84)!.currentIncome).toBeCloseTo(28000 * Math.pow(1.01, 2), -1);
+  });
+});
+
+describe('Part-time work', () => {
+  const base = makeParams({
+    investmentInitialValue: 500000,
+    pensionInitialValue: 0,
+    returnRate: 5,
+    inflationRate: 0,
+    stopWorkYear: 15,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 20000, totalPensionInflow: 6000 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+  });
+  const member = {
+    id: 'a', name: 'A', initialAge: 40, netIncome: 20000, grossIncome: 30000, pensionInflow: 6000, pensionInitialValue: 0,
+    transitionToHalfWorkYear: 5, stopWorkYear: 15,
+  };
+  const year8 = (data: SimulationDataPoint[]) => data.find(p => p.index === 96)!;
+
+  it('pays half the salary and pension deposits without a part-time job', () => {
+    const data = runSimulation(10000, { ...base, returnRate: 0, household: [member] });
+    expect(year8(data).currentIncome).toBe(10000);
+    expect(year8(data).monthlySavings).toBe(-5000);
+    expect(year8(data).incomeSource).toBe('חצי משרה');
+    const deposited = year8(data).pension - data.find(p => p.index === 60)!.pension;
+    expect(deposited).toBeCloseTo(36 * 3000 / 12, 0);
+  });
+
+  it('indexes part-time pay to inflation', () => {
+    const partTime = { jobPercent: 60, netIncome: 17000, grossIncome: 18000, pensionInflow: 3600 };
+    const data = runSimulation(10000, { ...base, inflationRate: 2, household: [{ ...member, partTime }] });
+    expect(year8(data).currentIncome).toBeCloseTo(17000 * Math.pow(1.02, 8), -1);
+  });
+
+  it('saves a part-time surplus and draws a deficit from investments', () => {
+    const partTime = (netIncome: number) => ({ jobPercent: 60, netIncome, grossIncome: 18000, pensionInflow: 3600 });
+    const surplus = runSimulation(10000, { ...base, household: [{ ...member, partTime: partTime(17000) }] });
+    const deficit = runSimulation(10000, { ...base, household: [{ ...member, partTime: partTime(12000) }] });
+    expect(year8(surplus).currentIncome).toBe(17000);
+    expect(year8(surplus).monthlySavings).toBe(2000);
+    expect(year8(surplus).incomeSource).toBe('משרה 60%');
+    expect(year8(deficit).monthlySavings).toBe(-3000);
+    expect(year8(deficit).investments).toBeLessThan(year8(surplus).investments);
+  });
+
+  it('deposits pension in proportion to the part-time salary', () => {
+    const [params] = buildHouseholdParams([{
+      id: 'a', name: 'A', birthDate: '1986-01-01', grossSalary: 30000, netSalary: 20000,
+      transitionToHalfWorkYear: 5, stopWorkYear: 15,
+      partTime: { jobPercent: 40, grossSalary: 12000, netSalary: 10000 },
+    }], [], '2026-01-01');
+    expect(params.partTime).toEqual({ jobPercent: 40, netIncome: 10000, grossIncome: 12000, pensionInflow: 2400 });
+    
+    const data = runSimulation(10000, { ...base, returnRate: 0, household: [{ ...member, partTime: params.partTime }] });
+    const deposited = year8(data).pension - data.find(p => p.index === 60)!.pension;
+    expect(deposited).toBeCloseTo(36 * 2400 / 12, 0);
+  });
+});
+
+describe('Life phases', () => {
+  const base = makeParams({
+    investmentInitialValue: 2000000,
+    pensionInitialValue: 0,
+    returnRate: 0,
+    inflationRate: 0,
+    transitionToHalfWorkYear: 15,
+    stopWorkYear: 15,
+    budgetSummary: { totalExpenseToday: 15000, totalIncomeNet: 20000, totalPensionInflow: 6000 },
+    monthlyExpenses: [{ id: 1, name: 'Living', amount: 15000 }],
+    startDate: '2026-01-01',
+  });
+  const member: HouseholdMember = {
+    id: 'a', name: 'A', birthDate: '1986-01-01', grossSalary: 30000, netSalary: 20000,
+    transitionToHalfWorkYear: 15, stopWorkYear: 15,
+    phases: [
+      { id: '3', type: 'retired', startDate: '2036-01-01', endDate: '2040-01-01' },
+      { id: '1', type: 'sabbatical', startDate: '2028-01-01', endDate: '2029-01-01' },
+      { id: '2', type: 'unemployment', startDate: '2029-01-01', endDate: '2029-07-01', grossSalary: 8000, netSalary: 7000 },
+      { id: '4', type: 'returnToWork', startDate: '2040-01-01', endDate: '2045-01-01', grossSalary: 20000, netSalary: 15000 },
+    ],
+  };
+  const at = (data: SimulationDataPoint[], index: number) => data.find(p => p.index === index)!;
+
+  it('builds the phases by month with their pay', () => {
+    const [params] = buildHouseholdParams([member], [], '2026-01-01');
+    expect(params.phases).toEqual([
+      { type: 'sabbatical', startMonth: 24, endMonth: 36, netIncome: 0, grossIncome: 0, pensionInflow: 0 },
+      { type: 'unemployment', startMonth: 36, endMonth: 42, netIncome: 7000, grossIncome: 8000, pensionInflow: 0 },
+      { type: 'retired', startMonth: 120, endMonth: 168, netIncome: 0, grossIncome: 0, pensionInflow: 0 },
+      { type: 'returnToWork', startMonth: 168, endMonth: 228, netIncome: 15000, grossIncome: 20000, pensionInflow: 4000 },
+    ]);
+    const [open] = buildHouseholdParams([{ ...member, phases: [{ id: '1', type: 'retired', startDate: '2030-01-01' }] }], [], '2026-01-01');
+    expect(open.phases![0].endMonth).toBe(Infinity);
+  });
+
+  it('draws a sabbatical from investments without pension deposits', () => {
+    const data = runSimulation(10000, { ...base, household: buildHouseholdParams([member], [], '2026-01-01') });
+    expect(at(data, 24).event).toBe('שבתון');
+    expect(at(data, 30).incomeSource).toBe('שבתון');
+    expect(at(data, 30).currentIncome).toBe(0);
+    expect(at(data, 30).monthlySavings).toBe(-15000);
+    expect(at(data, 33).pension).toBe(at(data, 23).pension);
+    expect(at(data, 39).currentIncome).toBe(7000);
+    // Back to the full salary outside the timeline
+    expect(at(data, 45).currentIncome).toBe(20000);
+  });
+
+  it('retires and returns to work on the timeline, not the stop-work year', () => {
+    const data = runSimulation(10000, { ...base, household: buildHouseholdParams([member], [], '2026-01-01') });
+    expect(at(data, 120).event).toBe('פרישה');
+    expect(at(data, 123).incomeSource).not.toContain('שכר מלא');
+    expect(at(data, 123).grossWithdrawal).toBeGreaterThan(0);
+    expect(at(data, 168).event).toBe('חזרה לעבודה');
+    expect(at(data, 171).currentIncome).toBe(15000);
+    expect(at(data, 171).monthlySavings).toBe(0);
+    // Past the timeline the stop-work year applies again
+    expect(at(data, 231).grossWithdrawal).toBeGreaterThan(0);
+  });
+
+  it('moves dates by whole months', () => {
+    expect(addMonthsToDate('2030-11-15', 3)).toBe('2031-02-01');
+    expect(addMonthsToDate('2030-01-01', -1)).toBe('2029-12-01');
+    expect(monthsBetween('2026-01-01', addMonthsToDate('2026-01-01', 27))).toBe(27);
+  });
+});
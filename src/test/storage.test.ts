@@ -7,7 +7,14 @@ import {
   validateEquityCompany,
   validatePropertyPlan,
   validateSimulationParams,
+  validateAssetClassPlan,
+  validateGlidePath,
+  validateWithdrawalStrategy,
   validateInitialAge,
+  validateAsOfDate,
+  validateHouseholdMember,
+  migrateLegacyHousehold,
+  householdToSalaryData,
   validateExportData,
   exportToJson,
   importFromJson,
@@ -55,7 +62,7 @@ describe('validateAsset', () => {
   });
 
   it('accepts all valid asset types', () => {
-    const types = ['pension', 'liquid', 'invest'];
+    const types = ['pension', 'liquid', 'invest', 'hishtalmut'];
     types.forEach(type => {
       const asset = { id: 1, name: 'Test', value: 1000, type };
       const errors = validateAsset(asset, 0);
@@ -69,6 +76,324 @@ describe('validateAsset', () => {
   });
 });
 
+describe('validateAsset study fund', () => {
+  it('accepts an optional opening date', () => {
+    expect(validateAsset({ id: 1, name: 'Fund', value: 1000, type: 'hishtalmut', openDate: '2021-03-01' }, 0)).toHaveLength(0);
+    expect(validateAsset({ id: 1, name: 'Fund', value: 1000, type: 'hishtalmut', openDate: '03/2021' }, 0)
+      .some(e => e.includes('openDate'))).toBe(true);
+  });
+});
+
+describe('validateAsset management fees', () => {
+  it('accepts optional fee percentages', () => {
+    expect(validateAsset({ id: 1, name: 'Pension', value: 1000, type: 'pension', balanceFee: 0.2, depositFee: 1.5 }, 0)).toHaveLength(0);
+    expect(validateAsset({ id: 1, name: 'Pension', value: 1000, type: 'pension', balanceFee: -1, depositFee: 'a' }, 0)).toHaveLength(2);
+  });
+});
+
+describe('validateAsset allocation', () => {
+  it('accepts a valid allocation', () => {
+    const asset = { id: 1, name: 'Mixed', value: 1000, type: 'liquid', allocation: { stocks: 60, bonds: 30, cash: 10 } };
+    expect(validateAsset(asset, 0)).toHaveLength(0);
+  });
+
+  it('returns error for invalid allocation', () => {
+    const asset = { id: 1, name: 'Mixed', value: 1000, type: 'liquid', allocation: { stocks: -10, bonds: 'a' } };
+    expect(validateAsset(asset, 0).some(e => e.includes('allocation'))).toBe(true);
+  });
+});
+
+describe('validateAsset cost basis', () => {
+  it('accepts an optional non-negative cost basis', () => {
+    expect(validateAsset({ id: 1, name: 'Stocks', value: 1000, type: 'liquid', costBasis: 600 }, 0)).toHaveLength(0);
+    expect(validateAsset({ id: 1, name: 'Stocks', value: 1000, type: 'liquid' }, 0)).toHaveLength(0);
+  });
+
+  it('rejects a negative cost basis', () => {
+    expect(validateAsset({ id: 1, name: 'Stocks', value: 1000, type: 'liquid', costBasis: -1 }, 0)).toHaveLength(1);
+  });
+});
+
+describe('validateGlidePath', () => {
+  it('returns no errors for valid glide path', () => {
+    const glidePath = { basis: 'age', points: [{ at: 50, stockShare: 80 }, { at: 70, stockShare: 40 }] };
+    expect(validateGlidePath(glidePath, 'Glide path')).toHaveLength(0);
+  });
+
+  it('returns error for invalid basis', () => {
+    const errors = validateGlidePath({ basis: 'year', points: [] }, 'Glide path');
+    expect(errors.some(e => e.includes('basis'))).toBe(true);
+  });
+
+  it('returns error for stock share out of range', () => {
+    const errors = validateGlidePath({ basis: 'age', points: [{ at: 50, stockShare: 120 }] }, 'Glide path');
+    expect(errors.some(e => e.includes('stockShare'))).toBe(true);
+  });
+});
+
+describe('validateAsOfDate', () => {
+  it('accepts a YYYY-MM-DD date', () => {
+    expect(validateAsOfDate('2026-10-19')).toHaveLength(0);
+  });
+
+  it('rejects other formats', () => {
+    expect(validateAsOfDate('19.10.2026')).toHaveLength(1);
+    expect(validateAsOfDate(20261019)).toHaveLength(1);
+  });
+
+  it('is optional in export data', () => {
+    const data = {
+      version: EXPORT_VERSION,
+      assets: [],
+      monthlyExpenses: [],
+      yearlyExpenses: [],
+      salaryData: { person1Gross: 0, person1Net: 0, person2Gross: 0, person2Net: 0 },
+      equityCompanies: [],
+      propertyPlan: { enabled: false, config: { price: 0, year: 2030, monthlySavings: 0 } },
+      simulationParams: { returnRate: 6, inflationRate: 2.5, transitionToHalfWorkYear: 5, stopWorkYear: 10 },
+    };
+    expect(validateExportData(data).valid).toBe(true);
+    expect(validateExportData({ ...data, asOfDate: 'soon' }).valid).toBe(false);
+  });
+});
+
+describe('household members', () => {
+  const member = { 
+    id: 'person-1', 
+    name: 'Dana', 
+    birthDate: '1986-03-15', 
+    grossSalary: 40000, 
+    netSalary: 25000, 
+    transitionToHalfWorkYear: 5, 
+    stopWorkYear: 15 
+  };
+
+  it('accepts a valid member', () => {
+    expect(validateHouseholdMember(member, 0)).toHaveLength(0);
+  });
+
+  it('rejects a bad birth date and negative numbers', () => {
+    expect(validateHouseholdMember({ ...member, birthDate: '15/03/1986' }, 0)).toHaveLength(1);
+    expect(validateHouseholdMember({ ...member, grossSalary: -1, stopWorkYear: -2 }, 0)).toHaveLength(2);
+    expect(validateHouseholdMember(null, 0)).toHaveLength(1);
+  });
+
+  it('validates an optional credit points profile', () => {
+    const creditPoints = { gender: 'female', childBirthYears: [2020, 2023], degree: 'bachelor', degreeYear: 2010 };
+    expect(validateHouseholdMember({ ...member, creditPoints }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, creditPoints: { ...creditPoints, immigrationDate: '2024-05-01' } }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, creditPoints: { ...creditPoints, gender: 'x', childBirthYears: ['2020'] } }, 0)).toHaveLength(2);
+    expect(validateHouseholdMember({ ...member, creditPoints: { ...creditPoints, dischargeDate: 'soon' } }, 0)).toHaveLength(1);
+  });
+
+  it('accepts the derive-net flag only as a boolean', () => {
+    expect(validateHouseholdMember({ ...member, deriveNet: true }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, deriveNet: 'yes' }, 0)).toHaveLength(1);
+  });
+
+  it('accepts an optional gender', () => {
+    expect(validateHouseholdMember({ ...member, gender: 'female' }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, gender: 'other' }, 0)).toHaveLength(1);
+  });
+
+  it('validates the annuity options', () => {
+    const annuity = { startAge: 67, guaranteeMonths: 240, survivorPercent: 60 };
+    expect(validateHouseholdMember({ ...member, annuity }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, annuity: { ...annuity, startAge: 58 } }, 0)).toHaveLength(1);
+    expect(validateHouseholdMember({ ...member, annuity: { ...annuity, guaranteeMonths: 100, survivorPercent: 120 } }, 0)).toHaveLength(2);
+  });
+
+  it('validates the salary growth and steps', () => {
+    const salarySteps = [{ date: '2030-01-01', grossSalary: 40000, netSalary: 27000 }];
+    expect(validateHouseholdMember({ ...member, salaryGrowth: 2, salarySteps }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, salaryGrowth: 80 }, 0)).toHaveLength(1);
+    expect(validateHouseholdMember({ ...member, salarySteps: [{ date: '2030', grossSalary: -1, netSalary: 0 }] }, 0)).toHaveLength(2);
+    expect(validateHouseholdMember({ ...member, salarySteps: {} }, 0)).toHaveLength(1);
+  });
+
+  it('validates the part-time job', () => {
+    const partTime = { jobPercent: 60, grossSalary: 18000, netSalary: 13000 };
+    expect(validateHouseholdMember({ ...member, partTime }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, partTime: { ...partTime, jobPercent: 0 } }, 0)).toHaveLength(1);
+    expect(validateHouseholdMember({ ...member, partTime: { jobPercent: 120, grossSalary: -1 } }, 0)).toHaveLength(3);
+    expect(validateHouseholdMember({ ...member, partTime: 'half' }, 0)).toHaveLength(1);
+  });
+
+  it('validates the life phases', () => {
+    const phases = [
+      { id: '1', type: 'partTime', startDate: '2030-01-01', endDate: '2032-01-01', jobPercent: 60, grossSalary: 18000, netSalary: 13000 },
+      { id: '2', type: 'retired', startDate: '2040-01-01' },
+    ];
+    expect(validateHouseholdMember({ ...member, phases }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, phases: [{ ...phases[0], type: 'vacation', endDate: '2029-01-01' }] }, 0)).toHaveLength(2);
+    expect(validateHouseholdMember({ ...member, phases: [{ id: 3, type: 'retired', startDate: '2040', jobPercent: 0 }] }, 0)).toHaveLength(3);
+    expect(validateHouseholdMember({ ...member, phases: {} }, 0)).toHaveLength(1);
+  });
+
+  it('validates the rental income', () => {
+    expect(validateHouseholdMember({ ...member, rentalIncome: 4500 }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, rentalIncome: -1 }, 0)).toHaveLength(1);
+  });
+
+  it('validates the insured-since year', () => {
+    expect(validateHouseholdMember({ ...member, insuredSinceYear: 2015 }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, insuredSinceYear: 2015.5 }, 0)).toHaveLength(1);
+  });
+
+  it('validates the pension contributions', () => {
+    const pensionContributions = { employeeRate: 6, employerRate: 6.5, severanceRate: 8.33, salaryCeiling: 33290, voluntaryDeposit: 500 };
+    expect(validateHouseholdMember({ ...member, pensionContributions }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, pensionContributions: { ...pensionContributions, employerRate: 120 } }, 0)).toHaveLength(1);
+    expect(validateHouseholdMember({ ...member, pensionContributions: { ...pensionContributions, salaryCeiling: -1, voluntaryDeposit: 'a' } }, 0)).toHaveLength(2);
+  });
+
+  it('validates the rights fixing allocation', () => {
+    const rightsFixing = { severanceGrants: 200000, annuityShare: 50 };
+    expect(validateHouseholdMember({ ...member, rightsFixing }, 0)).toHaveLength(0);
+    expect(validateHouseholdMember({ ...member, rightsFixing: { ...rightsFixing, severanceGrants: -1 } }, 0)).toHaveLength(1);
+    expect(validateHouseholdMember({ ...member, rightsFixing: { severanceGrants: 0, annuityShare: 150 } }, 0)).toHaveLength(1);
+  });
+
+  it('migrates the single age and salaries', () => {
+    const household = migrateLegacyHousehold(
+      { person1Gross: 40000, person1Net: 25000, person2Gross: 20000, person2Net: 15000 },
+      35,
+      '2026-01-01',
+      { transitionToHalfWorkYear: 5, stopWorkYear: 15 }
+    );
+    expect(household).toHaveLength(2);
+    expect(household[0]).toMatchObject({ birthDate: '1991-01-01', grossSalary: 40000, transitionToHalfWorkYear: 5, stopWorkYear: 15 });
+    expect(household[1]).toMatchObject({ birthDate: '1991-01-01', netSalary: 15000 });
+    expect(householdToSalaryData(household)).toEqual({ person1Gross: 40000, person1Net: 25000, person2Gross: 20000, person2Net: 15000 });
+  });
+
+  it('drops an empty second salary when migrating', () => {
+    const household = migrateLegacyHousehold(
+      { person1Gross: 40000, person1Net: 25000, person2Gross: 0, person2Net: 0 },
+      40,
+      '2026-10-31',
+      { transitionToHalfWorkYear: 0, stopWorkYear: 10 }
+    );
+    expect(household).toHaveLength(1);
+    expect(household[0].birthDate).toBe('1986-10-28');
+  });
+
+  it('is optional in export data but must be valid when present', () => {
+    const data = {
+      version: EXPORT_VERSION,
+      assets: [],
+      monthlyExpenses: [],
+      yearlyExpenses: [],
+      salaryData: { person1Gross: 0, person1Net: 0, person2Gross: 0, person2Net: 0 },
+      equityCompanies: [],
+      propertyPlan: { enabled: false, config: { price: 0, year: 2030, monthlySavings: 0 } },
+      simulationParams: { returnRate: 6, inflationRate: 2.5, transitionToHalfWorkYear: 5, stopWorkYear: 10 },
+    };
+    expect(validateExportData(data).valid).toBe(true);
+    expect(validateExportData({ ...data, household: [member] }).valid).toBe(true);
+    expect(validateExportData({ ...data, household: [] }).valid).toBe(false);
+    expect(validateExportData({ ...data, household: [member, member] }).valid).toBe(false);
+  });
+});
+
+describe('net spending mode', () => {
+  it('must be a boolean when present', () => {
+    const data = {
+      version: EXPORT_VERSION,
+      assets: [],
+      monthlyExpenses: [],
+      yearlyExpenses: [],
+      salaryData: { person1Gross: 0, person1Net: 0, person2Gross: 0, person2Net: 0 },
+      equityCompanies: [],
+      propertyPlan: { enabled: false, config: { price: 0, year: 2030, monthlySavings: 0 } },
+      simulationParams: { returnRate: 6, inflationRate: 2.5, transitionToHalfWorkYear: 5, stopWorkYear: 10 },
+    };
+    expect(validateExportData({ ...data, netSpending: true }).valid).toBe(true);
+    expect(validateExportData({ ...data, netSpending: 'yes' }).valid).toBe(false);
+  });
+
+  it('validates the annual tax true-up and Bituach Leumi flags', () => {
+    const data = {
+      version: EXPORT_VERSION,
+      assets: [],
+      monthlyExpenses: [],
+      yearlyExpenses: [],
+      salaryData: { person1Gross: 0, person1Net: 0, person2Gross: 0, person2Net: 0 },
+      equityCompanies: [],
+      propertyPlan: { enabled: false, config: { price: 0, year: 2030, monthlySavings: 0 } },
+      simulationParams: { returnRate: 6, inflationRate: 2.5, transitionToHalfWorkYear: 5, stopWorkYear: 10 },
+    };
+    expect(validateExportData({ ...data, annualTaxTrueUp: false }).valid).toBe(true);
+    expect(validateExportData({ ...data, annualTaxTrueUp: 1 }).valid).toBe(false);
+    expect(validateExportData({ ...data, oldAgePension: true }).valid).toBe(true);
+    expect(validateExportData({ ...data, oldAgePension: 'on' }).valid).toBe(false);
+    expect(validateExportData({ ...data, retireeNationalInsurance: true }).valid).toBe(true);
+    expect(validateExportData({ ...data, retireeNationalInsurance: 0 }).valid).toBe(false);
+  });
+});
+
+describe('validateWithdrawalStrategy', () => {
+  const validStrategy = {
+    type: 'guytonKlinger',
+    guardrailBand: 20,
+    guardrailAdjustment: 10,
+    floor: 85,
+    ceiling: 125,
+    minSpending: 75,
+  };
+
+  it('returns no errors for valid strategy', () => {
+    expect(validateWithdrawalStrategy(validStrategy)).toHaveLength(0);
+  });
+
+  it('returns error for unknown type', () => {
+    const errors = validateWithdrawalStrategy({ ...validStrategy, type: 'yolo' });
+    expect(errors.some(e => e.includes('type'))).toBe(true);
+  });
+
+  it('returns error when floor exceeds ceiling', () => {
+    const errors = validateWithdrawalStrategy({ ...validStrategy, floor: 130 });
+    expect(errors.some(e => e.includes('floor'))).toBe(true);
+  });
+});
+
+describe('validateAssetClassPlan', () => {
+  const validPlan = {
+    enabled: true,
+    returns: { bonds: 3, cash: 1.5 },
+    bucketEnabled: true,
+    bucket: { years: 3, assetClass: 'cash' },
+  };
+
+  it('returns no errors for valid plan', () => {
+    expect(validateAssetClassPlan(validPlan)).toHaveLength(0);
+  });
+
+  it('returns error for invalid bucket class', () => {
+    const errors = validateAssetClassPlan({ ...validPlan, bucket: { years: 3, assetClass: 'stocks' } });
+    expect(errors.some(e => e.includes('bucket.assetClass'))).toBe(true);
+  });
+
+  it('returns error for missing returns', () => {
+    const { returns, ...plan } = validPlan;
+    expect(validateAssetClassPlan(plan).some(e => e.includes('returns'))).toBe(true);
+  });
+
+  it('is optional in export data', () => {
+    const result = validateExportData({
+      version: EXPORT_VERSION,
+      assets: [],
+      monthlyExpenses: [],
+      yearlyExpenses: [],
+      salaryData: { person1Gross: 0, person1Net: 0, person2Gross: 0, person2Net: 0 },
+      equityCompanies: [],
+      propertyPlan: { enabled: false, config: { price: 0, year: 2030, monthlySavings: 0 } },
+      simulationParams: { returnRate: 6, inflationRate: 2.5, transitionToHalfWorkYear: 5, stopWorkYear: 15 },
+    });
+    expect(result.valid).toBe(true);
+  });
+});
+
 describe('validateExpense', () => {
   it('returns no errors for valid expense', () => {
     const expense = { id: 1, name: 'Rent', amount: 12000 };
@@ -276,6 +601,15 @@ describe('validateSimulationParams', () => {
     const errors = validateSimulationParams(params);
     expect(errors.some(e => e.includes('inflationRate'))).toBe(true);
   });
+
+  it('accepts optional volatility', () => {
+    expect(validateSimulationParams({ ...validParams, volatility: 15 })).toHaveLength(0);
+  });
+
+  it('returns error for negative volatility', () => {
+    const errors = validateSimulationParams({ ...validParams, volatility: -5 });
+    expect(errors.some(e => e.includes('volatility'))).toBe(true);
+  });
 });
 
 // ============================================
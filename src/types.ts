@@ -1,9 +1,62 @@
+// Asset classes for investment allocation
+export type AssetClass = 'stocks' | 'bonds' | 'cash';
+
+// Value per asset class (₪ amounts, percentages or returns depending on context)
+export type AssetClassAmounts = Record<AssetClass, number>;
+
 // Asset types
 export interface Asset {
   id: number;
   name: string;
   value: number;
-  type: 'pension' | 'liquid' | 'invest';
+  type: 'pension' | 'liquid' | 'invest' | 'hishtalmut';
+  allocation?: AssetClassAmounts; // Percent in stocks/bonds/cash (investment assets); defaults to all stocks
+  ownerId?: string; // Household member who owns a pension or study fund; defaults to the first member
+  costBasis?: number; // Purchase cost (₪) of an investment asset, for capital gains tax; defaults to its value
+  openDate?: string; // Study fund (קרן השתלמות) opening date (YYYY-MM-DD); without it the fund opens on the as-of date
+  balanceFee?: number; // Annual management fee, % of the balance (דמי ניהול מצבירה)
+  depositFee?: number; // Management fee, % of each deposit (דמי ניהול מהפקדה)
+}
+
+// Expected annual returns (%) of the non-equity asset classes
+// Stocks follow the simulation's returnRate (or the Monte Carlo / historical path)
+export interface AssetClassReturns {
+  bonds: number;
+  cash: number;
+}
+
+// Bucket strategy: keep N years of retirement spending in a safe class,
+// refilled once a year from stocks
+export interface BucketStrategy {
+  years: number;
+  assetClass: 'bonds' | 'cash';
+}
+
+// Glide path waypoint: target stock share (%) of the stock/bond mix
+// 'at' is an age, or years relative to the household stopping work (negative = before);
+// both follow the member who stops working last
+export interface GlidePathPoint {
+  at: number;
+  stockShare: number;
+}
+
+// Glide path: stock share interpolated linearly between waypoints
+export interface GlidePath {
+  basis: 'age' | 'retirement';
+  points: GlidePathPoint[];
+}
+
+// Retirement withdrawal strategy
+// Every strategy starts from the same initial monthly withdrawal and adjusts it once a year
+export type WithdrawalStrategyType = 'constant' | 'fixedPercent' | 'vpw' | 'guytonKlinger' | 'floorCeiling';
+
+export interface WithdrawalStrategy {
+  type: WithdrawalStrategyType;
+  guardrailBand: number; // Guyton-Klinger: % drift from the initial rate that triggers an adjustment
+  guardrailAdjustment: number; // Guyton-Klinger: % cut or raise when a guardrail is hit
+  floor: number; // Floor-and-ceiling: minimum spending, % of the initial withdrawal
+  ceiling: number; // Floor-and-ceiling: maximum spending, % of the initial withdrawal
+  minSpending: number; // Real spending below this % of the initial withdrawal counts as failure
 }
 
 // Expense types
@@ -21,6 +74,103 @@ export interface SalaryData {
   person2Net: number;
 }
 
+export type Gender = 'male' | 'female';
+export type AcademicDegree = 'none' | 'bachelor' | 'master' | 'doctorate';
+
+// What a member's tax credit points (נקודות זיכוי) are based on
+export interface CreditPointsProfile {
+  gender: Gender;
+  childBirthYears: number[];
+  degree: AcademicDegree;
+  degreeYear: number; // Year the degree was completed
+  immigrationDate?: string; // YYYY-MM-DD, new immigrant (עולה חדש)
+  dischargeDate?: string; // YYYY-MM-DD, discharged soldier (חייל משוחרר)
+}
+
+// Household member with their own age, salary and work timeline
+// Years are counted from the plan's as-of date
+export interface HouseholdMember {
+  id: string;
+  name: string;
+  birthDate: string; // YYYY-MM-DD
+  grossSalary: number;
+  netSalary: number;
+  transitionToHalfWorkYear: number;
+  stopWorkYear: number;
+  creditPoints?: CreditPointsProfile; // Without it no credit points are applied
+  deriveNet?: boolean; // Net salary is computed from gross instead of typed in
+  gender?: Gender; // Sets the old-age pension age; defaults to the credit points gender, then male
+  annuity?: AnnuityOptions; // Without it the pension converts at 60 with the fixed coefficient
+  rightsFixing?: RightsFixingOptions; // Without it the annuity is taxed at the flat rate
+  pensionContributions?: PensionContributions; // Without it 20% of the gross salary goes to the pension
+  salaryGrowth?: number; // Real % a year; with it (or with steps) pay also follows inflation
+  salarySteps?: SalaryStep[]; // Without growth or steps, pay stays frozen in nominal terms
+  partTime?: PartTimeJob; // Without it half-time work pays half the salary
+  phases?: LifePhase[]; // Months outside them follow the half-time and stop-work years
+  rentalIncome?: number; // Monthly rent received, in today's prices
+  insuredSinceYear?: number; // First year insured with Bituach Leumi (e.g. after immigrating); defaults to the year they turned 18
+}
+
+export type LifePhaseType = 'fullTime' | 'partTime' | 'sabbatical' | 'unemployment' | 'selfEmployed' | 'returnToWork' | 'retired';
+
+// A dated stretch of a member's life; salaries are monthly, in today's prices
+export interface LifePhase {
+  id: string;
+  type: LifePhaseType;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, exclusive; open-ended without it
+  jobPercent?: number; // Part-time only
+  grossSalary?: number; // Part-time, self-employment and a new job; unemployment benefits. Full-time uses the salary path
+  netSalary?: number; // Ignored when the member's net is derived from gross
+}
+
+// Job after the switch to part-time work, in today's prices
+export interface PartTimeJob {
+  jobPercent: number; // % of a full-time position
+  grossSalary: number;
+  netSalary: number; // Ignored when the member's net is derived from gross
+}
+
+// A new salary from a date (promotion, job change), in today's prices
+export interface SalaryStep {
+  date: string; // YYYY-MM-DD
+  grossSalary: number;
+  netSalary: number; // Ignored when the member's net is derived from gross
+}
+
+// Monthly pension deposits: % of the gross salary, plus voluntary deposits
+export interface PensionContributions {
+  employeeRate: number; // % deducted from the salary (תגמולי עובד)
+  employerRate: number; // % (תגמולי מעסיק)
+  severanceRate: number; // % (פיצויים)
+  salaryCeiling: number; // Salary (₪/month) with the tax benefit; employer deposits above it are taxed as pay
+  voluntaryDeposit: number; // ₪/month on top, deducted from the salary
+}
+
+// How a member's pension fund turns into an annuity
+export interface AnnuityOptions {
+  startAge: number; // 60-70
+  guaranteeMonths: number; // Guarantee period (תקופת הבטחה): 0, 60, 120, 180 or 240
+  survivorPercent: number; // Spouse's survivor pension (קצבת שארים), % of the annuity
+}
+
+// Rights fixing (קיבוע זכויות): how the exempt capital is split when the annuity starts
+export interface RightsFixingOptions {
+  severanceGrants: number; // Taxable severance grants to exempt (₪, today's prices)
+  annuityShare: number; // % of the exempt capital kept for the annuity; the rest exempts the grants
+}
+
+// Monthly payslip (תלוש שכר) from gross to net, employee side
+export interface Payslip {
+  gross: number;
+  incomeTax: number; // After credit points
+  nationalInsurance: number; // ביטוח לאומי
+  healthTax: number; // מס בריאות
+  pension: number; // Employee pension contribution
+  studyFund: number; // Employee study fund (קרן השתלמות) contribution
+  net: number;
+}
+
 // Stock configuration
 // Equity exit configuration
 export interface EquityExitConfig {
@@ -66,6 +216,9 @@ export interface SimulationDataPoint {
   totalLegacy: number;
   liquidWealth: number;
   investments: number;
+  investmentsStocks: number;
+  investmentsBonds: number;
+  investmentsCash: number;
   pension: number;
   property: number;
   monthlyOutflow: number;
@@ -79,6 +232,51 @@ export interface SimulationDataPoint {
   withdrawalFromPension: number;
   pensionAnnuity: number; // Monthly pension annuity after age 60
   taxPaid: number; // Total tax paid this month
+  grossWithdrawal: number; // Taken out in retirement before tax (investments, pension, gross annuity)
+  netWithdrawal: number; // grossWithdrawal minus taxPaid
+  taxTrueUp: number; // Year-end tax settlement since the previous point (+ payment, - refund)
+  oldAgePension: number; // Monthly Bituach Leumi old-age pension (קצבת זקנה) of the household
+  nationalInsurance: number; // Bituach Leumi and health tax paid by non-working members under pension age
+  realSpending: number; // Monthly outflow in today's money
+  studyFunds: number; // Study fund balance, liquid or not
+  withdrawalFromStudyFunds: number; // Tax-free study fund withdrawal this month
+  totalFees: number; // Management fees paid since the start
+}
+
+// One taxpayer's gross income for a calendar year (₪)
+export interface AnnualTaxableIncome {
+  salary: number;
+  annuity: number; // Pension annuity, taxed like salary
+  earlyPension: number; // Pension withdrawn before 60
+  rental: number;
+  capitalGains: number; // Real gains on investment sales
+  equity: number; // Gains on equity exits
+}
+
+// Annual tax per income type, each stacked on top of the previous ones
+export interface AnnualTaxBreakdown {
+  employmentTax: number; // Salary and annuity
+  nonEmploymentTax: number; // Early pension and rental
+  capitalGainsTax: number; // Investment and equity gains
+  taxCredit: number; // Credit points used against the income tax
+  total: number;
+}
+
+// Exempt capital (סל הפטור) split between the annuity and the severance grants
+export interface RightsFixingResult {
+  exemptCapital: number;
+  annuityExemption: number; // Monthly exempt part of the annuity
+  grantExemption: number; // Exempt part of the severance grants
+  taxableGrant: number;
+}
+
+// Tax under one rights fixing allocation
+export interface RightsFixingComparison {
+  annuityShare: number;
+  annuityExemption: number;
+  monthlyAnnuityTax: number;
+  grantTax: number;
+  totalTax: number; // Grant tax plus the annuity tax over the horizon
 }
 
 // Budget summary
@@ -94,6 +292,82 @@ export interface SimulationResult {
   data: SimulationDataPoint[];
 }
 
+// Real monthly spending over the retirement phase (today's money)
+export interface SpendingSummary {
+  initial: number;
+  min: number;
+  max: number;
+  average: number;
+}
+
+// Earliest retirement that sustains a target monthly spend
+export interface RetirementSolverResult {
+  feasible: boolean; // False if even the latest allowed stop year runs out of money
+  stopWorkYear: number;
+  transitionToHalfWorkYear: number;
+  maxWithdrawal: number; // Sustainable monthly withdrawal at the solved dates
+  slack: number; // maxWithdrawal - target (₪/month, today's money)
+  minLiquidWealth: number; // Lowest liquid wealth during retirement
+}
+
+// Optimal withdrawal over every half-time / stop-work year combination
+export interface RetirementHeatmap {
+  halfYears: number[];
+  stopYears: number[];
+  values: number[][]; // [halfYear][stopYear]; half-time after stopping is clipped to the stop year
+  marginalYearValues: (number | null)[][]; // Gain from stopping one year later (null on the last column)
+}
+
+// How far one input nudge moves the optimal withdrawal (tornado chart row)
+export interface SensitivityResult {
+  id: string;
+  label: string;
+  nudge: string; // Human readable size of the nudge, e.g. "±1%"
+  lowValue: number; // Optimal withdrawal with the input nudged down
+  highValue: number; // Optimal withdrawal with the input nudged up
+  lowDelta: number; // lowValue - base
+  highDelta: number; // highValue - base
+}
+
+// Monte Carlo percentile band for a single data point
+export interface MonteCarloBand {
+  index: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+// Monte Carlo result
+export interface MonteCarloResult {
+  successProbability: number; // Share of runs that never ran out of liquid wealth
+  runs: number;
+  bands: MonteCarloBand[];
+}
+
+// Historical market year (annual %, total return)
+export interface HistoricalYear {
+  year: number;
+  ta125: number;
+  sp500Ils: number; // S&P 500 total return converted to ILS
+  cpi: number; // Israeli consumer price index change
+}
+
+// Backtest outcome for a single historical start year
+export interface BacktestStartYearResult {
+  startYear: number;
+  success: boolean;
+  depletionAge: number | null; // Age when liquid wealth first hits zero before the last year
+  finalWealth: number;
+  minLiquidWealth: number;
+  wrapped: boolean; // Ran past the last year of history and wrapped to the first: not a real sequence
+}
+
+// Historical backtest result
+export interface BacktestResult {
+  successRate: number | null; // Over the start years whose window fits the history; null when none does
+  results: BacktestStartYearResult[];
+}
+
 // Equity timeline point (for charts)
 export interface EquityTimelinePoint {
   index: number;
@@ -104,6 +378,7 @@ export interface EquityTimelinePoint {
 export type { 
   EquityCompany, 
   PropertyPlan, 
+  AssetClassPlan, 
   AppExportData, 
   ValidationResult 
 } from './utils/storage';
@@ -5,15 +5,53 @@ import type {
   BudgetSummary, 
   Expense, 
   SalaryData,
-  Asset 
+  HouseholdMember,
+  Asset,
+  SimulationDataPoint,
+  MonteCarloBand,
+  MonteCarloResult,
+  HistoricalYear,
+  BacktestStartYearResult,
+  BacktestResult,
+  AssetClass,
+  AssetClassAmounts,
+  AssetClassReturns,
+  BucketStrategy,
+  GlidePath,
+  WithdrawalStrategy,
+  WithdrawalStrategyType,
+  SpendingSummary,
+  RetirementSolverResult,
+  RetirementHeatmap,
+  SensitivityResult,
+  AnnualTaxableIncome,
+  AnnualTaxBreakdown,
+  CreditPointsProfile,
+  AcademicDegree,
+  Gender,
+  Payslip,
+  AnnuityOptions,
+  RightsFixingOptions,
+  RightsFixingResult,
+  RightsFixingComparison,
+  PensionContributions,
+  SalaryStep,
+  PartTimeJob,
+  LifePhase,
+  LifePhaseType
 } from '../types';
 
 // Constants
 export const SURTAX_THRESHOLD = 721560;
 export const PENSION_CONTRIBUTION_RATE = 0.20;
+// Salary that pension deposits get the tax benefit on: 2.5 times the average wage (2025)
+export const PENSION_SALARY_CEILING = 33290;
 export const PROPERTY_APPRECIATION_RATE = 0.02;
 export const FIXED_COEFFICIENT = 210;
 export const FIXED_PENSION_TAX = 0.15;
+export const ASSET_CLASSES: AssetClass[] = ['stocks', 'bonds', 'cash'];
+// Plans saved before the as-of date existed started in January 2026
+export const LEGACY_START_DATE = '2026-01-01';
 
 /**
  * Israeli Income Tax Brackets (2025-2027)
@@ -44,6 +82,143 @@ export const NON_EMPLOYMENT_TAX_BRACKETS = [
 // Legacy constant for backwards compatibility (minimum rate for non-employment)
 export const EARLY_PENSION_PENALTY_TAX = 0.31;
 
+/**
+ * Israeli tax credit points (נקודות זיכוי), simplified
+ * Each point reduces income tax by its annual value (2025: 242 ₪ a month), never below zero
+ */
+export const CREDIT_POINT_ANNUAL_VALUE = 2904;
+export const BASE_CREDIT_POINTS = 2.25; // Every resident
+export const FEMALE_CREDIT_POINTS = 0.5;
+
+// Points per child by the child's age in the tax year
+export const CHILD_CREDIT_POINTS = [
+  { maxAge: 0, female: 1.5, male: 1.5 },
+  { maxAge: 5, female: 2.5, male: 2.5 },
+  { maxAge: 17, female: 1, male: 0 },
+  { maxAge: 18, female: 0.5, male: 0 },
+];
+
+// Points a year, for a number of years starting the year after the degree is completed
+export const DEGREE_CREDIT_POINTS: Record<AcademicDegree, { points: number; years: number }> = {
+  none: { points: 0, years: 0 },
+  bachelor: { points: 1, years: 1 },
+  master: { points: 0.5, years: 1 },
+  doctorate: { points: 1, years: 2 },
+};
+
+// New immigrant: points a year by months since immigration
+export const IMMIGRANT_CREDIT_POINTS = [
+  { untilMonth: 18, points: 3 },
+  { untilMonth: 30, points: 2 },
+  { untilMonth: 42, points: 1 },
+];
+
+// Discharged soldier: points a year for the months after discharge
+export const DISCHARGED_SOLDIER_CREDIT_POINTS = 2;
+export const DISCHARGED_SOLDIER_CREDIT_MONTHS = 36;
+
+/**
+ * Employee National Insurance (ביטוח לאומי) and health tax (מס בריאות), monthly (2025)
+ * A reduced rate up to 60% of the average wage, the full rate up to the maximum insured income
+ */
+export const NATIONAL_INSURANCE_REDUCED_THRESHOLD = 7522;
+export const NATIONAL_INSURANCE_MAX_INCOME = 50695;
+export const NATIONAL_INSURANCE_RATES = { reduced: 0.0104, full: 0.07 };
+export const HEALTH_TAX_RATES = { reduced: 0.0323, full: 0.0517 };
+
+// Non-working residents under pension age: a monthly minimum (NI and health together),
+// or the passive income rates when their pension and rental income is higher
+export const NON_WORKING_MIN_INSURANCE_PAYMENT = 123;
+export const PASSIVE_NATIONAL_INSURANCE_RATES = { reduced: 0.0447, full: 0.0783 };
+
+// Residential rent is taxed on the final 10% track (מסלול 10%)
+export const RENTAL_INCOME_TAX_RATE = 0.10;
+
+// Employee deductions from gross salary
+export const EMPLOYEE_PENSION_RATE = 0.06;
+export const EMPLOYEE_STUDY_FUND_RATE = 0.025;
+
+// Study fund (קרן השתלמות): employer contribution on salary up to the ceiling,
+// liquid (and tax-free) 6 years after opening
+export const STUDY_FUND_EMPLOYER_RATE = 0.075;
+export const STUDY_FUND_SALARY_CEILING = 15712;
+export const STUDY_FUND_LIQUIDITY_YEARS = 6;
+
+// Life phases as they show in the income source and events
+export const LIFE_PHASE_LABELS: Record<LifePhaseType, string> = {
+  fullTime: 'שכר מלא',
+  partTime: 'משרה חלקית',
+  sabbatical: 'שבתון',
+  unemployment: 'אבטלה',
+  selfEmployed: 'עצמאי',
+  returnToWork: 'חזרה לעבודה',
+  retired: 'פרישה',
+};
+// Phases with an employer, who pays into the study fund
+const SALARIED_PHASES: LifePhaseType[] = ['fullTime', 'partTime', 'returnToWork'];
+
+/**
+ * Bituach Leumi old-age pension (קצבת זקנה), monthly amounts (2025)
+ * The basic pension grows 2% for every insurance year beyond 10 (up to 50%);
+ * a dependent spouse adds a supplement
+ */
+export const OLD_AGE_PENSION_BASE = 1795;
+export const OLD_AGE_PENSION_SPOUSE_SUPPLEMENT = 903;
+export const OLD_AGE_PENSION_SENIORITY_RATE = 0.02;
+export const OLD_AGE_PENSION_MAX_SENIORITY = 0.5;
+export const MALE_OLD_AGE_PENSION_AGE = 67;
+
+// Women's eligibility age by birth year (rising from 62 to 65)
+export const FEMALE_OLD_AGE_PENSION_AGES = [
+  { bornBefore: 1960, age: 62 },
+  { bornBefore: 1961, age: 62 + 4 / 12 },
+  { bornBefore: 1962, age: 62 + 8 / 12 },
+  { bornBefore: 1963, age: 63 },
+  { bornBefore: 1964, age: 63 + 3 / 12 },
+  { bornBefore: 1965, age: 63 + 6 / 12 },
+  { bornBefore: 1966, age: 63 + 9 / 12 },
+  { bornBefore: 1967, age: 64 },
+  { bornBefore: 1968, age: 64 + 3 / 12 },
+  { bornBefore: 1969, age: 64 + 6 / 12 },
+  { bornBefore: 1970, age: 64 + 9 / 12 },
+  { bornBefore: Infinity, age: 65 },
+];
+
+/**
+ * Pension fund conversion factors (מקדם המרה) without guarantee or survivor pension,
+ * for someone born in 1960; interpolated between ages
+ */
+export const CONVERSION_FACTOR_TABLE = [
+  { age: 60, male: 223, female: 236 },
+  { age: 62, male: 214, female: 228 },
+  { age: 64, male: 205, female: 219 },
+  { age: 65, male: 200, female: 214 },
+  { age: 67, male: 190, female: 204 },
+  { age: 70, male: 174, female: 188 },
+];
+export const CONVERSION_FACTOR_BASE_COHORT = 1960;
+export const CONVERSION_FACTOR_COHORT_RATE = 0.003; // Later cohorts live longer: per birth year
+// Extra factor for a guarantee period (months)
+export const GUARANTEE_PERIOD_LOADING: Record<number, number> = { 0: 0, 60: 0.01, 120: 0.03, 180: 0.06, 240: 0.1 };
+export const SURVIVOR_PENSION_LOADING = 0.22; // Extra factor for a 100% survivor pension, pro rata
+export const MIN_ANNUITY_AGE = 60;
+export const MAX_ANNUITY_AGE = 70;
+
+/**
+ * Rights fixing (קיבוע זכויות, תיקון 190): part of a qualifying annuity is tax-exempt
+ * The exempt capital is 180 months of the exempt share of the qualifying pension ceiling
+ */
+export const QUALIFYING_PENSION_CEILING = 9430; // Monthly, 2025
+export const EXEMPT_PENSION_RATES = [
+  { fromYear: 2012, rate: 0.435 },
+  { fromYear: 2020, rate: 0.52 },
+  { fromYear: 2025, rate: 0.57 },
+  { fromYear: 2028, rate: 0.67 },
+];
+export const EXEMPT_CAPITAL_MONTHS = 180;
+export const SEVERANCE_GRANT_FACTOR = 1.35; // Exempt capital used per ₪ of exempted grant
+export const RIGHTS_FIXING_COMPARISON_SHARES = [0, 25, 50, 75, 100];
+
 /**
  * Israeli Capital Gains Tax Brackets (מס רווחי הון)
  * 
@@ -132,7 +307,8 @@ export function getVestingAtDate(contracts: EquityContract[], targetDate: Date):
 export function calculateBudgetSummary(
   monthlyExpenses: Expense[], 
   yearlyExpenses: Expense[], 
-  salaryData: SalaryData
+  salaries: SalaryData | HouseholdMember[],
+  date?: string // Sets the credit points of members whose net is derived
 ): BudgetSummary {
   // Guard against undefined arrays - bug that was encountered
   const safeMonthly = monthlyExpenses || [];
@@ -148,15 +324,38 @@ export function calculateBudgetSummary(
     0
   ) / 12;
   
+  const people: Array<{ gross: number; net: number; contributions?: PensionContributions }> = Array.isArray(salaries)
+    ? salaries.map(member => ({ 
+        gross: member.grossSalary, 
+        net: getMemberNetSalary(member, date), 
+        contributions: member.pensionContributions 
+      }))
+    : [
+        { gross: salaries.person1Gross, net: salaries.person1Net },
+        { gross: salaries.person2Gross, net: salaries.person2Net },
+      ];
+  
   return { 
     totalExpenseToday: Math.round(totalMonthlyFixed + totalYearlyToMonthly),
-    totalIncomeNet: (parseFloat(String(salaryData.person1Net)) || 0) + 
-                    (parseFloat(String(salaryData.person2Net)) || 0),
-    totalPensionInflow: ((parseFloat(String(salaryData.person1Gross)) || 0) + 
-                         (parseFloat(String(salaryData.person2Gross)) || 0)) * PENSION_CONTRIBUTION_RATE
+    totalIncomeNet: people.reduce((sum, person) => sum + (parseFloat(String(person.net)) || 0), 0),
+    totalPensionInflow: people.reduce(
+      (sum, person) => sum + calculatePensionInflow(parseFloat(String(person.gross)) || 0, person.contributions), 
+      0
+    )
   };
 }
 
+/**
+ * Monthly pension deposits on a gross salary
+ * Without contribution settings, a flat 20% of the whole salary. The rates apply to the
+ * whole salary; the ceiling only limits the tax benefit (see calculatePayslip)
+ */
+export function calculatePensionInflow(monthlyGross: number, contributions?: PensionContributions): number {
+  if (!contributions) return monthlyGross * PENSION_CONTRIBUTION_RATE;
+  const rate = (contributions.employeeRate + contributions.employerRate + contributions.severanceRate) / 100;
+  return Math.max(0, monthlyGross) * rate + contributions.voluntaryDeposit;
+}
+
 /**
  * Calculate total assets value
  */
@@ -175,15 +374,143 @@ export function calculatePensionValue(assets: Asset[]): number {
     .reduce((sum, a) => sum + (parseFloat(String(a.value)) || 0), 0);
 }
 
+/**
+ * Pension balance of each household member (same order as memberIds)
+ * Pension assets without a known owner belong to the first member
+ */
+export function calculatePensionValueByOwner(assets: Asset[], memberIds: string[]): number[] {
+  const values = memberIds.map(() => 0);
+  if (memberIds.length === 0) return values;
+  
+  assets
+    .filter(a => a.type === "pension")
+    .forEach(a => {
+      values[getAssetOwnerIndex(a, memberIds)] += parseFloat(String(a.value)) || 0;
+    });
+  
+  return values;
+}
+
+// Index of the member who owns an asset; the first member when the owner is unknown
+const getAssetOwnerIndex = (asset: Asset, memberIds: string[]): number => 
+  Math.max(0, asset.ownerId ? memberIds.indexOf(asset.ownerId) : -1);
+
+/**
+ * Value-weighted management fees of a group of assets
+ * Undefined when none of them charges fees
+ */
+export function calculateWeightedFees(assets: Asset[]): ManagementFees | undefined {
+  if (!assets.some(a => a.balanceFee || a.depositFee)) return undefined;
+  const values = assets.map(a => Math.max(0, parseFloat(String(a.value)) || 0));
+  const total = sumValues(values);
+  const weights = values.map(value => (total > 0 ? value / total : 1 / assets.length));
+  return {
+    balanceFee: sumValues(assets.map((a, i) => (a.balanceFee ?? 0) * weights[i])),
+    depositFee: sumValues(assets.map((a, i) => (a.depositFee ?? 0) * weights[i])),
+  };
+}
+
+/**
+ * Age in years (whole months) on a given date
+ */
+export function calculateAgeAtDate(birthDate: string, date: string = LEGACY_START_DATE): number {
+  const [birthYear, birthMonth, birthDay] = birthDate.split('-').map(Number);
+  const [year, month, day] = date.split('-').map(Number);
+  const months = (year - birthYear) * 12 + (month - birthMonth) - (day < birthDay ? 1 : 0);
+  return Math.max(0, months) / 12;
+}
+
+// Investments are everything except pensions and study funds
+const isInvestmentAsset = (asset: Asset): boolean => asset.type !== "pension" && asset.type !== "hishtalmut";
+
+/**
+ * Management fees on the investments (non-pension assets)
+ */
+export function calculateInvestmentFees(assets: Asset[]): ManagementFees | undefined {
+  return calculateWeightedFees(assets.filter(isInvestmentAsset));
+}
+
 /**
  * Calculate investment initial value (non-pension assets)
  */
 export function calculateInvestmentValue(assets: Asset[]): number {
   return assets
-    .filter(a => a.type !== "pension")
+    .filter(isInvestmentAsset)
     .reduce((sum, a) => sum + (parseFloat(String(a.value)) || 0), 0);
 }
 
+/**
+ * Cost basis of the investments (non-pension assets)
+ * Assets without a cost basis are counted at their value (no unrealized gain)
+ */
+export function calculateInvestmentCostBasis(assets: Asset[]): number {
+  return assets
+    .filter(isInvestmentAsset)
+    .reduce((sum, a) => sum + (parseFloat(String(a.costBasis ?? a.value)) || 0), 0);
+}
+
+/**
+ * Split non-pension assets into asset classes (₪ per class)
+ * Assets without an allocation are treated as 100% stocks
+ */
+export function calculateInvestmentAllocation(assets: Asset[]): AssetClassAmounts {
+  const result: AssetClassAmounts = { stocks: 0, bonds: 0, cash: 0 };
+  
+  assets
+    .filter(isInvestmentAsset)
+    .forEach(a => {
+      const value = parseFloat(String(a.value)) || 0;
+      const allocation = a.allocation ?? { stocks: 100, bonds: 0, cash: 0 };
+      const totalPct = allocation.stocks + allocation.bonds + allocation.cash;
+      if (totalPct <= 0) {
+        result.stocks += value;
+        return;
+      }
+      ASSET_CLASSES.forEach(cls => {
+        result[cls] += value * allocation[cls] / totalPct;
+      });
+    });
+  
+  return result;
+}
+
+/**
+ * Get the target stock share (0-1) of a glide path at a point in time
+ * Linear interpolation between waypoints, flat before the first and after the last
+ * 
+ * @param glidePath - Glide path definition
+ * @param age - Current age of the household member who stops working last
+ * @param yearsFromRetirement - Years since the household stopped working (negative while anyone works)
+ */
+export function getGlidePathStockShare(glidePath: GlidePath, age: number, yearsFromRetirement: number): number {
+  const points = [...glidePath.points].sort((a, b) => a.at - b.at);
+  if (points.length === 0) return 1;
+  
+  const x = glidePath.basis === 'age' ? age : yearsFromRetirement;
+  let share: number;
+  
+  if (x <= points[0].at) {
+    share = points[0].stockShare;
+  } else if (x >= points[points.length - 1].at) {
+    share = points[points.length - 1].stockShare;
+  } else {
+    const nextIdx = points.findIndex(p => p.at > x);
+    const prev = points[nextIdx - 1];
+    const next = points[nextIdx];
+    share = prev.stockShare + (next.stockShare - prev.stockShare) * (x - prev.at) / (next.at - prev.at);
+  }
+  
+  return Math.min(100, Math.max(0, share)) / 100;
+}
+
+/**
+ * First day of a simulation month, counting from the month of the start date (YYYY-MM-DD)
+ */
+export function getSimulationMonthDate(startDate: string | undefined, month: number): Date {
+  const [year, startMonth] = (startDate ?? LEGACY_START_DATE).split('-').map(Number);
+  return new Date(year, startMonth - 1 + month, 1);
+}
+
 /**
  * Calculate monthly return rate from annual rate
  */
@@ -209,6 +536,85 @@ export interface EquityCompanyConfig {
   sharePriceAtExit: number;
 }
 
+/**
+ * Household member as seen by the simulation
+ * Pension inflow is in the same units as budgetSummary.totalPensionInflow
+ */
+export interface HouseholdMemberParams {
+  id: string;
+  name: string;
+  initialAge: number; // Age at the start date
+  netIncome: number; // Monthly net salary while working full-time
+  grossIncome?: number; // Monthly gross salary; defaults to the one implied by pensionInflow
+  pensionInflow: number;
+  pensionInitialValue: number;
+  transitionToHalfWorkYear: number;
+  stopWorkYear: number;
+  creditPoints?: CreditPointsProfile;
+  oldAgePension?: { age: number; amount: number }; // Bituach Leumi pension from this age (monthly, start-date prices)
+  pensionAge?: number; // Old-age pension age by gender and birth year; defaults to the men's age
+  rentalIncome?: number; // Monthly rent received, start-date prices
+  annuity?: AnnuityOptions & { gender: Gender; birthYear: number }; // Defaults to age 60 and the fixed coefficient
+  pensionFees?: ManagementFees;
+  rightsFixing?: RightsFixingOptions; // Exempt part of the annuity; without it the flat annuity tax applies
+  salaryGrowth?: number; // Real % a year
+  salarySteps?: SalaryStepParams[]; // By month
+  partTime?: PartTimeParams; // Pay from transitionToHalfWorkYear; without it half-time work pays half the salary
+  phases?: LifePhaseParams[]; // By month; override the half-time and stop-work years where they apply
+}
+
+/**
+ * Life phase as seen by the simulation: its months and pay, in start-date prices
+ * Full-time phases are paid by the member's salary path
+ */
+export interface LifePhaseParams {
+  type: LifePhaseType;
+  startMonth: number;
+  endMonth: number; // Exclusive; Infinity when open-ended
+  jobPercent?: number;
+  netIncome: number;
+  grossIncome: number;
+  pensionInflow: number;
+}
+
+/**
+ * Part-time job as seen by the simulation, in start-date prices
+ */
+export interface PartTimeParams {
+  jobPercent: number;
+  netIncome: number;
+  grossIncome: number;
+  pensionInflow: number;
+}
+
+/**
+ * Salary step as seen by the simulation: the member's pay from a month, in start-date prices
+ */
+export interface SalaryStepParams {
+  month: number;
+  netIncome: number;
+  grossIncome: number;
+  pensionInflow: number;
+}
+
+/**
+ * Study fund as seen by the simulation
+ */
+export interface StudyFundParams {
+  value: number;
+  ownerId?: string; // Member whose salary pays into it; defaults to the first member
+  liquidMonth: number; // Simulation month it becomes liquid (0 or less: already liquid)
+  fees?: ManagementFees;
+}
+
+/**
+ * Management fees (דמי ניהול), charged monthly
+ */
+export interface ManagementFees {
+  balanceFee: number; // Annual, % of the balance
+  depositFee: number; // % of each deposit
+}
+
 export interface SimulationParams {
   investmentInitialValue: number;
   pensionInitialValue: number;
@@ -223,11 +629,280 @@ export interface SimulationParams {
   equityCompanies: EquityCompanyConfig[];
   initialAge: number;
   endOfLifeAge: number;
+  monthlyReturns?: number[]; // Optional per-month return path (Monte Carlo); overrides returnRate
+  monthlyInflationFactors?: number[]; // Optional per-month inflation factors (backtesting); overrides inflationRate
+  investmentAllocation?: AssetClassAmounts; // Initial investments per asset class (₪); defaults to all stocks
+  assetClassReturns?: AssetClassReturns; // Without it, every class earns returnRate
+  bucketStrategy?: BucketStrategy;
+  glidePath?: GlidePath; // Rebalances stocks/bonds monthly to the glide path's stock share
+  withdrawalStrategy?: WithdrawalStrategy; // Defaults to a constant real withdrawal
+  startDate?: string; // Plan "as of" date (YYYY-MM-DD); month 0 is its month. Defaults to January 2026
+  investmentCostBasis?: number; // Purchase cost of the initial investments (₪); without it they are all gain
+  netSpending?: boolean; // Withdrawals are grossed up so the target is spent after tax; by default the tax is part of it
+  household?: HouseholdMemberParams[]; // Per-person salaries, pensions and timelines; replaces the single-person fields
+  annualTaxTrueUp?: boolean; // Settle each calendar year's tax on combined income in December
+  oldAgePension?: boolean; // Pay household members their Bituach Leumi old-age pension
+  retireeNationalInsurance?: boolean; // Members who stopped working pay Bituach Leumi and health tax until pension age
+  studyFunds?: StudyFundParams[]; // Kept apart from the investments; spent first once liquid
+  investmentFees?: ManagementFees; // Without it the investments pay no fees
+}
+
+interface MemberTimeline {
+  transitionToHalfWorkYear: number;
+  stopWorkYear: number;
+}
+
+/**
+ * Household timeline: the years of the member who stops working last
+ */
+export function getHouseholdTimeline(members: MemberTimeline[]): MemberTimeline {
+  const reference = members.reduce<MemberTimeline | null>(
+    (latest, member) => (latest === null || member.stopWorkYear > latest.stopWorkYear ? member : latest), 
+    null
+  );
+  return reference 
+    ? { transitionToHalfWorkYear: reference.transitionToHalfWorkYear, stopWorkYear: reference.stopWorkYear } 
+    : { transitionToHalfWorkYear: 0, stopWorkYear: 0 };
+}
+
+/**
+ * Move every member's timeline so the household timeline becomes the given years
+ * Members keep their offsets from the reference member (clamped at year 0)
+ */
+export function shiftHouseholdTimeline<T extends MemberTimeline>(
+  members: T[], 
+  transitionToHalfWorkYear: number, 
+  stopWorkYear: number
+): T[] {
+  const reference = getHouseholdTimeline(members);
+  const halfShift = transitionToHalfWorkYear - reference.transitionToHalfWorkYear;
+  const stopShift = stopWorkYear - reference.stopWorkYear;
+  if (halfShift === 0 && stopShift === 0) return members;
+  
+  return members.map(member => ({ 
+    ...member, 
+    transitionToHalfWorkYear: Math.max(0, member.transitionToHalfWorkYear + halfShift), 
+    stopWorkYear: Math.max(0, member.stopWorkYear + stopShift) 
+  }));
+}
+
+export function getMemberGender(member: HouseholdMember): Gender {
+  return member.gender ?? member.creditPoints?.gender ?? 'male';
+}
+
+/**
+ * A member's old-age pension, insured from their insured-since year (by default from 18)
+ * until they become eligible
+ */
+export function buildOldAgePension(member: HouseholdMember): { age: number; amount: number } {
+  const age = getOldAgePensionAge(member.birthDate, getMemberGender(member));
+  const birthYear = Number(member.birthDate.slice(0, 4));
+  const insuredFromAge = member.insuredSinceYear !== undefined ? member.insuredSinceYear - birthYear : 18;
+  return { age, amount: calculateOldAgePension(age - Math.max(18, insuredFromAge)) };
+}
+
+/**
+ * Household members as the simulation sees them on the start date
+ */
+export function buildHouseholdParams(
+  household: HouseholdMember[], 
+  assets: Asset[], 
+  startDate?: string
+): HouseholdMemberParams[] {
+  const memberIds = household.map(member => member.id);
+  const pensions = calculatePensionValueByOwner(assets, memberIds);
+  return household.map((member, i) => ({
+    id: member.id,
+    name: member.name,
+    initialAge: calculateAgeAtDate(member.birthDate, startDate),
+    netIncome: getMemberNetSalary(member, startDate),
+    grossIncome: parseFloat(String(member.grossSalary)) || 0,
+    pensionInflow: calculatePensionInflow(parseFloat(String(member.grossSalary)) || 0, member.pensionContributions),
+    pensionInitialValue: pensions[i],
+    transitionToHalfWorkYear: member.transitionToHalfWorkYear,
+    stopWorkYear: member.stopWorkYear,
+    creditPoints: member.creditPoints,
+    oldAgePension: buildOldAgePension(member),
+    pensionAge: getOldAgePensionAge(member.birthDate, getMemberGender(member)),
+    rentalIncome: member.rentalIncome,
+    annuity: member.annuity && { 
+      ...member.annuity, 
+      gender: getMemberGender(member), 
+      birthYear: Number(member.birthDate.slice(0, 4)) 
+    },
+    rightsFixing: member.rightsFixing,
+    pensionFees: calculateWeightedFees(assets.filter(a => a.type === "pension" && getAssetOwnerIndex(a, memberIds) === i)),
+    salaryGrowth: member.salaryGrowth,
+    salarySteps: member.salarySteps && buildSalaryStepParams(member, member.salarySteps, startDate),
+    partTime: member.partTime && buildPartTimeParams(member, member.partTime, startDate),
+    phases: member.phases && buildLifePhaseParams(member, member.phases, startDate),
+  }));
+}
+
+/**
+ * A member's life phases by simulation month, with net and pension deposits worked out
+ * as for their current salary. Unemployment benefits carry no pension deposits.
+ */
+function buildLifePhaseParams(member: HouseholdMember, phases: LifePhase[], startDate: string = LEGACY_START_DATE): LifePhaseParams[] {
+  return phases
+    .map(phase => {
+      const paid = phase.type !== 'fullTime' && phase.type !== 'sabbatical' && phase.type !== 'retired';
+      const grossIncome = paid ? parseFloat(String(phase.grossSalary)) || 0 : 0;
+      return {
+        type: phase.type,
+        startMonth: monthsBetween(startDate, phase.startDate),
+        endMonth: phase.endDate ? monthsBetween(startDate, phase.endDate) : Infinity,
+        jobPercent: phase.jobPercent,
+        netIncome: paid ? getMemberNetSalary({ ...member, grossSalary: grossIncome, netSalary: phase.netSalary ?? 0 }, phase.startDate) : 0,
+        grossIncome,
+        pensionInflow: paid && phase.type !== 'unemployment' ? calculatePensionInflow(grossIncome, member.pensionContributions) : 0,
+      };
+    })
+    .sort((a, b) => a.startMonth - b.startMonth);
+}
+
+/**
+ * How a life phase shows in the income source and events
+ */
+export function getLifePhaseLabel(phase: { type: LifePhaseType; jobPercent?: number }): string {
+  return phase.type === 'partTime' && phase.jobPercent !== undefined 
+    ? `משרה ${phase.jobPercent}%` 
+    : LIFE_PHASE_LABELS[phase.type];
+}
+
+/**
+ * A member's part-time pay, with net and pension deposits worked out as for their current salary
+ */
+function buildPartTimeParams(member: HouseholdMember, partTime: PartTimeJob, startDate?: string): PartTimeParams {
+  const grossIncome = parseFloat(String(partTime.grossSalary)) || 0;
+  return {
+    jobPercent: partTime.jobPercent,
+    netIncome: getMemberNetSalary({ ...member, grossSalary: grossIncome, netSalary: partTime.netSalary }, startDate),
+    grossIncome,
+    pensionInflow: calculatePensionInflow(grossIncome, member.pensionContributions),
+  };
+}
+
+/**
+ * A member's salary steps by simulation month, with net and pension deposits worked out
+ * as for their current salary
+ */
+function buildSalaryStepParams(member: HouseholdMember, steps: SalaryStep[], startDate: string = LEGACY_START_DATE): SalaryStepParams[] {
+  return steps
+    .map(step => {
+      const grossIncome = parseFloat(String(step.grossSalary)) || 0;
+      return {
+        month: monthsBetween(startDate, step.date),
+        netIncome: getMemberNetSalary({ ...member, grossSalary: grossIncome, netSalary: step.netSalary }, step.date),
+        grossIncome,
+        pensionInflow: calculatePensionInflow(grossIncome, member.pensionContributions),
+      };
+    })
+    .sort((a, b) => a.month - b.month);
+}
+
+/**
+ * Whole calendar months from one date to another (YYYY-MM-DD)
+ */
+export function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+/**
+ * First day of the month a number of months after a date (YYYY-MM-DD)
+ */
+export function addMonthsToDate(date: string, months: number): string {
+  const [year, month] = date.split('-').map(Number);
+  const total = year * 12 + (month - 1) + months;
+  return `${Math.floor(total / 12)}-${String(total % 12 + 1).padStart(2, '0')}-01`;
+}
+
+/**
+ * Study fund assets as the simulation sees them on the start date
+ * A fund without an opening date counts as opened on the start date
+ */
+export function buildStudyFundParams(assets: Asset[], startDate: string = LEGACY_START_DATE): StudyFundParams[] {
+  return assets
+    .filter(a => a.type === "hishtalmut")
+    .map(a => ({
+      value: parseFloat(String(a.value)) || 0,
+      ownerId: a.ownerId,
+      liquidMonth: STUDY_FUND_LIQUIDITY_YEARS * 12 + (a.openDate ? monthsBetween(startDate, a.openDate) : 0),
+      fees: calculateWeightedFees([a]),
+    }));
+}
+
+/**
+ * Members the simulation runs with: the household shifted to the params' timeline,
+ * or a single member built from the single-person fields
+ */
+function resolveHouseholdMembers(params: SimulationParams): HouseholdMemberParams[] {
+  if (params.household && params.household.length > 0) {
+    return shiftHouseholdTimeline(params.household, params.transitionToHalfWorkYear, params.stopWorkYear);
+  }
+  return [{
+    id: 'self',
+    name: '',
+    initialAge: params.initialAge,
+    netIncome: params.budgetSummary.totalIncomeNet,
+    pensionInflow: params.budgetSummary.totalPensionInflow,
+    pensionInitialValue: params.pensionInitialValue,
+    transitionToHalfWorkYear: params.transitionToHalfWorkYear,
+    stopWorkYear: params.stopWorkYear,
+  }];
+}
+
+/**
+ * Whether any member follows a life-phase timeline; inside it the phases, not the
+ * half-time and stop-work years, decide who works
+ */
+export function hasLifePhases(params: Pick<SimulationParams, 'household'>): boolean {
+  return !!params.household?.some(member => member.phases && member.phases.length > 0);
+}
+
+/**
+ * Find the first point where liquid wealth hits zero before the last year of the simulation
+ */
+function findDepletion(data: SimulationDataPoint[], params: SimulationParams): SimulationDataPoint | undefined {
+  return data.find(p => 
+    p.liquidWealth <= 0 && 
+    p.index < (params.endOfLifeAge - params.initialAge) * 12 - 12
+  );
+}
+
+/**
+ * Check whether liquid wealth hits zero before the last year of the simulation
+ */
+function hasRunOutOfMoney(data: SimulationDataPoint[], params: SimulationParams): boolean {
+  return findDepletion(data, params) !== undefined;
+}
+
+/**
+ * Check whether real spending drops below the strategy's minimum share of the initial withdrawal
+ */
+function hasSpendingFallenTooLow(data: SimulationDataPoint[], targetWithdrawal: number, params: SimulationParams): boolean {
+  const strategy = params.withdrawalStrategy;
+  if (!strategy || strategy.type === 'constant') return false;
+  const minSpending = targetWithdrawal * strategy.minSpending / 100;
+  return data.some(p => p.index >= params.stopWorkYear * 12 && p.realSpending < minSpending);
+}
+
+/**
+ * Check whether a simulated plan lasts: money never runs out, spending stays above
+ * the strategy's minimum and something is left at the end
+ */
+function isSustainable(data: SimulationDataPoint[], targetWithdrawal: number, params: SimulationParams): boolean {
+  return !hasRunOutOfMoney(data, params) && 
+    !hasSpendingFallenTooLow(data, targetWithdrawal, params) && 
+    data[data.length - 1].liquidWealth > 2000;
 }
 
 /**
  * Run simulation to find optimal withdrawal rate
  * Uses binary search to find maximum sustainable withdrawal
+ * With a variable strategy, this is the initial withdrawal
  */
 export function findOptimalWithdrawal(params: SimulationParams): { val: number; data: ReturnType<typeof runSimulation> } {
   let low = 5000;
@@ -238,13 +913,7 @@ export function findOptimalWithdrawal(params: SimulationParams): { val: number;
     const mid = (low + high) / 2;
     const data = runSimulation(mid, params);
     
-    const bankrupt = data.some(p => 
-      p.liquidWealth <= 0 && 
-      p.index < (params.endOfLifeAge - params.initialAge) * 12 - 12
-    );
-    const finalSolvent = data[data.length - 1].liquidWealth <= 2000;
-    
-    if (!bankrupt && !finalSolvent) {
+    if (isSustainable(data, mid, params)) {
       bestVal = mid;
       low = mid;
     } else {
@@ -256,72 +925,540 @@ export function findOptimalWithdrawal(params: SimulationParams): { val: number;
 }
 
 /**
- * Calculate marginal tax using Israeli tax brackets
+ * Bracketed search for the maximum sustainable withdrawal around a guess
+ * Steps away from the guess (doubling) until the answer is bracketed, then bisects to the tolerance
  * 
- * @param amount - Annual income to tax
- * @param brackets - Tax brackets to use
- * @param existingIncome - Existing annual income (for stacking)
- * @returns Total tax amount
+ * @param floor - Withdrawal expected to be sustainable (lower bound); checked, and dropped if it isn't
  */
-export function calculateMarginalTax(
-  amount: number, 
-  brackets: Array<{ upTo: number; rate: number }>,
-  existingIncome: number = 0
-): number {
-  if (amount <= 0) return 0;
-  
-  let remainingAmount = amount;
-  let totalTax = 0;
-  let currentThreshold = existingIncome;
+function searchMaxWithdrawal(params: SimulationParams, guess: number, floor: number, tolerance: number): number {
+  const works = (withdrawal: number) => isSustainable(runSimulation(withdrawal, params), withdrawal, params);
+  const maxWithdrawal = 500000;
+  // Life phases, the tax true-up or a glide path can make a neighbour's answer fail here
+  if (floor > 0 && !works(floor)) {
+    floor = 0;
+  }
+  let low = floor;
+  let high = maxWithdrawal;
+  let step = tolerance * 2;
+  const start = Math.min(maxWithdrawal, Math.max(guess, floor + tolerance));
   
-  for (const bracket of brackets) {
-    if (currentThreshold >= bracket.upTo) continue;
-    
-    const taxableInBracket = Math.min(
-      remainingAmount, 
-      bracket.upTo - currentThreshold
-    );
-    
-    if (taxableInBracket <= 0) continue;
-    
-    totalTax += taxableInBracket * bracket.rate;
-    remainingAmount -= taxableInBracket;
-    currentThreshold += taxableInBracket;
-    
-    if (remainingAmount <= 0) break;
+  if (works(start)) {
+    low = start;
+    while (low + step < maxWithdrawal && works(low + step)) {
+      low += step;
+      step *= 2;
+    }
+    high = Math.min(maxWithdrawal, low + step);
+  } else {
+    high = start;
+    while (high - step > floor && !works(high - step)) {
+      high -= step;
+      step *= 2;
+    }
+    low = Math.max(floor, high - step);
   }
   
-  return totalTax;
+  while (high - low > tolerance) {
+    const mid = (low + high) / 2;
+    if (works(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.round(low);
 }
 
-/**
- * Calculate effective tax rate for a given amount
- */
-export function calculateEffectiveTaxRate(
-  amount: number,
-  brackets: Array<{ upTo: number; rate: number }>,
-  existingIncome: number = 0
-): number {
-  if (amount <= 0) return 0;
-  const tax = calculateMarginalTax(amount, brackets, existingIncome);
-  return tax / amount;
+export interface RetirementHeatmapOptions {
+  maxHalfYear?: number;
+  maxStopYear?: number;
+  tolerance?: number; // ₪/month precision of each cell
 }
 
 /**
- * Calculate early withdrawal tax (before age 60)
- * Uses Israeli non-employment income tax brackets (starts at 31%)
+ * Optimal withdrawal for every (transitionToHalfWorkYear, stopWorkYear) combination
  * 
- * @param grossAmount - Amount to withdraw (gross, annual)
- * @param existingAnnualIncome - Other annual income for bracket calculation
- * @returns Object with net amount and tax paid
+ * Stays interactive by leaning on monotonicity: working longer (or full-time longer) never
+ * lowers the sustainable withdrawal, so each cell's search is bounded below by its left and
+ * upper neighbours and starts from a guess extrapolated from them, instead of a full binary
+ * search. Cells where half-time would start after stopping work reuse the diagonal.
  */
-export function calculateEarlyPensionWithdrawal(
-  grossAmount: number, 
-  existingAnnualIncome: number = 0
-): { netAmount: number; taxPaid: number; effectiveRate: number } {
-  if (grossAmount <= 0) return { netAmount: 0, taxPaid: 0, effectiveRate: 0 };
+export function calculateRetirementHeatmap(
+  params: SimulationParams, 
+  options: RetirementHeatmapOptions = {}
+): RetirementHeatmap {
+  const { maxHalfYear = 20, maxStopYear = 40, tolerance = 100 } = options;
+  const halfYears = Array.from({ length: maxHalfYear + 1 }, (_, i) => i);
+  const stopYears = Array.from({ length: maxStopYear + 1 }, (_, i) => i);
+  const values: number[][] = [];
   
-  const taxPaid = calculateMarginalTax(grossAmount, NON_EMPLOYMENT_TAX_BRACKETS, existingAnnualIncome);
+  for (const half of halfYears) {
+    const row: number[] = [];
+    for (const stop of stopYears) {
+      if (half > stop) {
+        row.push(values[stop][stop]);
+        continue;
+      }
+      const fromLeft = stop > 0 ? row[stop - 1] : 0;
+      const fromAbove = half > 0 ? values[half - 1][stop] : 0;
+      // Neighbouring differences barely change from cell to cell, so extrapolate them
+      let guess = fromLeft + (stop > 1 ? row[stop - 1] - row[stop - 2] : 0);
+      if (half > 0 && stop > 0) {
+        guess = fromLeft + fromAbove - values[half - 1][stop - 1];
+      }
+      row.push(searchMaxWithdrawal(
+        { ...params, transitionToHalfWorkYear: half, stopWorkYear: stop },
+        guess,
+        Math.max(fromLeft, fromAbove),
+        tolerance
+      ));
+    }
+    values.push(row);
+  }
+  
+  const marginalYearValues = values.map(row => 
+    row.map((value, stop) => stop < row.length - 1 ? row[stop + 1] - value : null)
+  );
+  
+  return { halfYears, stopYears, values, marginalYearValues };
+}
+
+/**
+ * An input the sensitivity analysis nudges down and up
+ */
+export interface SensitivityDriver {
+  id: string;
+  label: string;
+  nudge: string;
+  isApplicable?: (params: SimulationParams) => boolean;
+  apply: (params: SimulationParams, direction: 1 | -1) => SimulationParams;
+}
+
+const scaleExpenses = (expenses: Expense[], factor: number): Expense[] => 
+  expenses.map(e => ({ ...e, amount: (parseFloat(String(e.amount)) || 0) * factor }));
+
+/**
+ * Default sensitivity drivers
+ */
+export const SENSITIVITY_DRIVERS: SensitivityDriver[] = [
+  {
+    id: 'returnRate',
+    label: 'תשואה שנתית',
+    nudge: '±1%',
+    apply: (p, d) => ({ ...p, returnRate: p.returnRate + d }),
+  },
+  {
+    id: 'inflationRate',
+    label: 'אינפלציה',
+    nudge: '±0.5%',
+    apply: (p, d) => ({ ...p, inflationRate: p.inflationRate + d * 0.5 }),
+  },
+  {
+    id: 'expenses',
+    label: 'הוצאות',
+    nudge: '±10%',
+    apply: (p, d) => ({ 
+      ...p, 
+      monthlyExpenses: scaleExpenses(p.monthlyExpenses, 1 + d * 0.1), 
+      yearlyExpenses: scaleExpenses(p.yearlyExpenses, 1 + d * 0.1) 
+    }),
+  },
+  {
+    id: 'salaries',
+    label: 'משכורות',
+    nudge: '±10%',
+    apply: (p, d) => ({ 
+      ...p, 
+      budgetSummary: { 
+        ...p.budgetSummary, 
+        totalIncomeNet: p.budgetSummary.totalIncomeNet * (1 + d * 0.1), 
+        totalPensionInflow: p.budgetSummary.totalPensionInflow * (1 + d * 0.1) 
+      },
+      household: p.household?.map(member => ({ 
+        ...member, 
+        netIncome: member.netIncome * (1 + d * 0.1), 
+        pensionInflow: member.pensionInflow * (1 + d * 0.1),
+        salarySteps: member.salarySteps?.map(step => ({
+          ...step,
+          netIncome: step.netIncome * (1 + d * 0.1),
+          pensionInflow: step.pensionInflow * (1 + d * 0.1),
+        })),
+        partTime: member.partTime && {
+          ...member.partTime,
+          netIncome: member.partTime.netIncome * (1 + d * 0.1),
+          pensionInflow: member.partTime.pensionInflow * (1 + d * 0.1),
+        },
+        phases: member.phases?.map(phase => ({
+          ...phase,
+          netIncome: phase.netIncome * (1 + d * 0.1),
+          pensionInflow: phase.pensionInflow * (1 + d * 0.1),
+        })),
+      })),
+    }),
+  },
+  {
+    id: 'equityExitPrice',
+    label: 'מחיר מניה באקזיט',
+    nudge: '±25%',
+    isApplicable: (p) => p.equityCompanies.some(c => c.contracts.length > 0 && c.sharePriceAtExit > 0),
+    apply: (p, d) => ({ 
+      ...p, 
+      equityCompanies: p.equityCompanies.map(c => ({ ...c, sharePriceAtExit: c.sharePriceAtExit * (1 + d * 0.25) })) 
+    }),
+  },
+  {
+    id: 'propertyPrice',
+    label: 'מחיר דירה',
+    nudge: '±10%',
+    isApplicable: (p) => p.propertyConfig.price > 0 && p.propertyConfig.year < getSimulationMonthDate(p.startDate, 0).getFullYear() + p.endOfLifeAge - p.initialAge,
+    apply: (p, d) => ({ ...p, propertyConfig: { ...p.propertyConfig, price: p.propertyConfig.price * (1 + d * 0.1) } }),
+  },
+  {
+    id: 'investments',
+    label: 'תיק השקעות היום',
+    nudge: '±10%',
+    apply: (p, d) => {
+      const factor = 1 + d * 0.1;
+      const allocation = p.investmentAllocation;
+      return { 
+        ...p, 
+        investmentInitialValue: p.investmentInitialValue * factor,
+        investmentCostBasis: p.investmentCostBasis !== undefined ? p.investmentCostBasis * factor : undefined,
+        investmentAllocation: allocation 
+          ? { stocks: allocation.stocks * factor, bonds: allocation.bonds * factor, cash: allocation.cash * factor } 
+          : undefined,
+      };
+    },
+  },
+  {
+    id: 'pension',
+    label: 'יתרת פנסיה היום',
+    nudge: '±10%',
+    apply: (p, d) => ({ 
+      ...p, 
+      pensionInitialValue: p.pensionInitialValue * (1 + d * 0.1),
+      household: p.household?.map(member => ({ ...member, pensionInitialValue: member.pensionInitialValue * (1 + d * 0.1) })),
+    }),
+  },
+  {
+    id: 'initialAge',
+    label: 'גיל נוכחי',
+    nudge: '±1 שנה',
+    apply: (p, d) => ({ 
+      ...p, 
+      initialAge: p.initialAge + d,
+      household: p.household?.map(member => ({ ...member, initialAge: member.initialAge + d })),
+    }),
+  },
+  {
+    id: 'stopWorkYear',
+    label: 'שנים לפרישה',
+    nudge: '±1 שנה',
+    isApplicable: (p) => !hasLifePhases(p),
+    apply: (p, d) => ({ 
+      ...p, 
+      stopWorkYear: Math.max(0, p.stopWorkYear + d), 
+      transitionToHalfWorkYear: Math.min(p.transitionToHalfWorkYear, Math.max(0, p.stopWorkYear + d)) 
+    }),
+  },
+];
+
+/**
+ * Sensitivity (tornado) analysis: how much nudging each input down and up moves the
+ * optimal withdrawal. Each search starts from the base withdrawal, since a nudge only
+ * moves the answer a little. Sorted by the largest swing first.
+ * 
+ * @param baseWithdrawal - findOptimalWithdrawal result for the unchanged params
+ */
+export function runSensitivityAnalysis(
+  params: SimulationParams,
+  baseWithdrawal: number,
+  drivers: SensitivityDriver[] = SENSITIVITY_DRIVERS,
+  tolerance: number = 50
+): SensitivityResult[] {
+  return drivers
+    .filter(driver => !driver.isApplicable || driver.isApplicable(params))
+    .map(driver => {
+      const lowValue = searchMaxWithdrawal(driver.apply(params, -1), baseWithdrawal, 0, tolerance);
+      const highValue = searchMaxWithdrawal(driver.apply(params, 1), baseWithdrawal, 0, tolerance);
+      return {
+        id: driver.id,
+        label: driver.label,
+        nudge: driver.nudge,
+        lowValue,
+        highValue,
+        lowDelta: lowValue - baseWithdrawal,
+        highDelta: highValue - baseWithdrawal,
+      };
+    })
+    .sort((a, b) => 
+      Math.max(Math.abs(b.lowDelta), Math.abs(b.highDelta)) - Math.max(Math.abs(a.lowDelta), Math.abs(a.highDelta))
+    );
+}
+
+/**
+ * Find the smallest integer year in [min, max] for which isFeasible holds
+ * Assumes feasibility is monotone (once feasible, later years stay feasible)
+ * Returns null if even max is infeasible
+ */
+function findEarliestFeasibleYear(min: number, max: number, isFeasible: (year: number) => boolean): number | null {
+  if (!isFeasible(max)) return null;
+  let low = min;
+  let high = max;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (isFeasible(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Retirement-age solver: earliest stop-work year (and then the earliest move to half-time)
+ * that sustains a target monthly spend in today's money until end of life
+ * 
+ * Working full-time longer only adds savings, so the stop year is found first with no
+ * half-time phase; the half-time year is then pulled as early as the plan allows.
+ * 
+ * @param targetWithdrawal - Net monthly spend in retirement (today's ₪)
+ * @param params - Simulation params; stopWorkYear and transitionToHalfWorkYear are ignored
+ * @param maxStopWorkYear - Latest stop year to consider
+ */
+export function findEarliestRetirement(
+  targetWithdrawal: number,
+  params: SimulationParams,
+  maxStopWorkYear: number = 40
+): RetirementSolverResult {
+  const maxYear = Math.min(maxStopWorkYear, Math.floor(params.endOfLifeAge - params.initialAge));
+  const withYears = (stopWorkYear: number, transitionToHalfWorkYear: number): SimulationParams => 
+    ({ ...params, stopWorkYear, transitionToHalfWorkYear });
+  const works = (stopWorkYear: number, transitionToHalfWorkYear: number) => {
+    const yearsParams = withYears(stopWorkYear, transitionToHalfWorkYear);
+    return isSustainable(runSimulation(targetWithdrawal, yearsParams), targetWithdrawal, yearsParams);
+  };
+  
+  const stopWorkYear = findEarliestFeasibleYear(0, maxYear, year => works(year, year));
+  if (stopWorkYear === null) {
+    const maxWithdrawal = findOptimalWithdrawal(withYears(maxYear, maxYear)).val;
+    return {
+      feasible: false,
+      stopWorkYear: maxYear,
+      transitionToHalfWorkYear: maxYear,
+      maxWithdrawal,
+      slack: maxWithdrawal - targetWithdrawal,
+      minLiquidWealth: 0,
+    };
+  }
+  const transitionToHalfWorkYear = findEarliestFeasibleYear(0, stopWorkYear, year => works(stopWorkYear, year)) ?? stopWorkYear;
+  
+  const solvedParams = withYears(stopWorkYear, transitionToHalfWorkYear);
+  const maxWithdrawal = findOptimalWithdrawal(solvedParams).val;
+  const retirement = runSimulation(targetWithdrawal, solvedParams).filter(p => p.index >= stopWorkYear * 12);
+  
+  return {
+    feasible: true,
+    stopWorkYear,
+    transitionToHalfWorkYear,
+    maxWithdrawal,
+    slack: maxWithdrawal - targetWithdrawal,
+    minLiquidWealth: Math.min(...retirement.map(p => p.liquidWealth)),
+  };
+}
+
+/**
+ * Calculate marginal tax using Israeli tax brackets
+ * 
+ * @param amount - Annual income to tax
+ * @param brackets - Tax brackets to use
+ * @param existingIncome - Existing annual income (for stacking)
+ * @returns Total tax amount
+ */
+export function calculateMarginalTax(
+  amount: number, 
+  brackets: Array<{ upTo: number; rate: number }>,
+  existingIncome: number = 0
+): number {
+  if (amount <= 0) return 0;
+  
+  let remainingAmount = amount;
+  let totalTax = 0;
+  let currentThreshold = existingIncome;
+  
+  for (const bracket of brackets) {
+    if (currentThreshold >= bracket.upTo) continue;
+    
+    const taxableInBracket = Math.min(
+      remainingAmount, 
+      bracket.upTo - currentThreshold
+    );
+    
+    if (taxableInBracket <= 0) continue;
+    
+    totalTax += taxableInBracket * bracket.rate;
+    remainingAmount -= taxableInBracket;
+    currentThreshold += taxableInBracket;
+    
+    if (remainingAmount <= 0) break;
+  }
+  
+  return totalTax;
+}
+
+/**
+ * Calculate effective tax rate for a given amount
+ */
+export function calculateEffectiveTaxRate(
+  amount: number,
+  brackets: Array<{ upTo: number; rate: number }>,
+  existingIncome: number = 0
+): number {
+  if (amount <= 0) return 0;
+  const tax = calculateMarginalTax(amount, brackets, existingIncome);
+  return tax / amount;
+}
+
+/**
+ * Credit points for a tax year (months of the year with immigrant or soldier points count pro rata)
+ */
+export function calculateCreditPoints(profile: CreditPointsProfile, year: number): number {
+  let points = BASE_CREDIT_POINTS;
+  if (profile.gender === 'female') points += FEMALE_CREDIT_POINTS;
+  
+  for (const birthYear of profile.childBirthYears) {
+    const bracket = CHILD_CREDIT_POINTS.find(b => year - birthYear >= 0 && year - birthYear <= b.maxAge);
+    if (bracket) points += bracket[profile.gender];
+  }
+  
+  const degree = DEGREE_CREDIT_POINTS[profile.degree];
+  if (year > profile.degreeYear && year <= profile.degreeYear + degree.years) {
+    points += degree.points;
+  }
+  
+  // Months since a YYYY-MM-DD date for each month of the year
+  const monthsSince = (date: string) => {
+    const [dateYear, dateMonth] = date.split('-').map(Number);
+    return Array.from({ length: 12 }, (_, month) => (year * 12 + month) - (dateYear * 12 + dateMonth - 1));
+  };
+  if (profile.immigrationDate) {
+    for (const months of monthsSince(profile.immigrationDate)) {
+      const bracket = months >= 0 ? IMMIGRANT_CREDIT_POINTS.find(b => months < b.untilMonth) : undefined;
+      if (bracket) points += bracket.points / 12;
+    }
+  }
+  if (profile.dischargeDate) {
+    const months = monthsSince(profile.dischargeDate).filter(m => m >= 1 && m <= DISCHARGED_SOLDIER_CREDIT_MONTHS);
+    points += DISCHARGED_SOLDIER_CREDIT_POINTS * months.length / 12;
+  }
+  
+  return points;
+}
+
+/**
+ * Annual tax credit (₪) of a number of points, with the point value indexed to inflation
+ * 
+ * @param inflationIndex - Price level relative to the plan's start
+ */
+export function calculateTaxCredit(points: number, inflationIndex: number = 1): number {
+  return Math.max(0, points) * CREDIT_POINT_ANNUAL_VALUE * inflationIndex;
+}
+
+/**
+ * Tax on a monthly income in reduced/full tiers (National Insurance, health tax)
+ */
+function calculateTieredInsurance(monthlyIncome: number, rates: { reduced: number; full: number }): number {
+  const insured = Math.min(Math.max(0, monthlyIncome), NATIONAL_INSURANCE_MAX_INCOME);
+  const reduced = Math.min(insured, NATIONAL_INSURANCE_REDUCED_THRESHOLD);
+  return reduced * rates.reduced + (insured - reduced) * rates.full;
+}
+
+/**
+ * Monthly Bituach Leumi and health tax of a non-working resident under pension age
+ * Passive income pays the passive income rates, never less than the minimum payment
+ * Capital gains are not insured income
+ * 
+ * @param monthlyPassiveIncome - Annuity, early pension withdrawals and rent (gross)
+ * @param inflationIndex - Price level relative to the plan's start; indexes the thresholds
+ */
+export function calculateNonWorkingNationalInsurance(monthlyPassiveIncome: number, inflationIndex: number = 1): number {
+  const income = Math.max(0, monthlyPassiveIncome) / inflationIndex;
+  const onIncome = calculateTieredInsurance(income, PASSIVE_NATIONAL_INSURANCE_RATES) + 
+                   calculateTieredInsurance(income, HEALTH_TAX_RATES);
+  return Math.max(NON_WORKING_MIN_INSURANCE_PAYMENT, onIncome) * inflationIndex;
+}
+
+/**
+ * Net monthly pay from gross salary (simplified payslip)
+ * Income tax uses the employment brackets on the annualized salary, less credit points
+ * Employer pension deposits are tax-exempt up to the salary ceiling; above it they are taxed as pay
+ * 
+ * @param creditPoints - The employee's credit points for the year
+ * @param contributions - Sets the employee's pension deduction; defaults to 6% of the salary
+ */
+export function calculatePayslip(
+  monthlyGross: number, 
+  creditPoints: number = 0, 
+  contributions?: PensionContributions
+): Payslip {
+  const gross = Math.max(0, monthlyGross || 0);
+  const taxableDeposits = contributions 
+    ? Math.max(0, gross - contributions.salaryCeiling) * (contributions.employerRate + contributions.severanceRate) / 100 
+    : 0;
+  const incomeTax = Math.max(
+    0, 
+    calculateMarginalTax((gross + taxableDeposits) * 12, EMPLOYMENT_TAX_BRACKETS) - calculateTaxCredit(creditPoints)
+  ) / 12;
+  const nationalInsurance = calculateTieredInsurance(gross, NATIONAL_INSURANCE_RATES);
+  const healthTax = calculateTieredInsurance(gross, HEALTH_TAX_RATES);
+  const pension = contributions 
+    ? gross * contributions.employeeRate / 100 + contributions.voluntaryDeposit 
+    : gross * EMPLOYEE_PENSION_RATE;
+  const studyFund = Math.min(gross, STUDY_FUND_SALARY_CEILING) * EMPLOYEE_STUDY_FUND_RATE;
+  
+  return {
+    gross,
+    incomeTax,
+    nationalInsurance,
+    healthTax,
+    pension,
+    studyFund,
+    net: gross - incomeTax - nationalInsurance - healthTax - pension - studyFund,
+  };
+}
+
+/**
+ * A member's monthly net salary: typed in, or derived from gross with their credit points
+ * 
+ * @param date - Date whose tax year sets the credit points (YYYY-MM-DD)
+ */
+export function getMemberNetSalary(member: HouseholdMember, date: string = LEGACY_START_DATE): number {
+  if (!member.deriveNet) return parseFloat(String(member.netSalary)) || 0;
+  const points = member.creditPoints ? calculateCreditPoints(member.creditPoints, Number(date.slice(0, 4))) : 0;
+  return Math.round(calculatePayslip(parseFloat(String(member.grossSalary)) || 0, points, member.pensionContributions).net);
+}
+
+/**
+ * Calculate early withdrawal tax (before age 60)
+ * Uses Israeli non-employment income tax brackets (starts at 31%)
+ * 
+ * @param grossAmount - Amount to withdraw (gross, annual)
+ * @param existingAnnualIncome - Other annual income for bracket calculation
+ * @param taxCredit - Annual credit points value (₪) that offsets the tax
+ * @returns Object with net amount and tax paid
+ */
+export function calculateEarlyPensionWithdrawal(
+  grossAmount: number, 
+  existingAnnualIncome: number = 0,
+  taxCredit: number = 0
+): { netAmount: number; taxPaid: number; effectiveRate: number } {
+  if (grossAmount <= 0) return { netAmount: 0, taxPaid: 0, effectiveRate: 0 };
+  
+  const taxPaid = Math.max(
+    0, 
+    calculateMarginalTax(grossAmount, NON_EMPLOYMENT_TAX_BRACKETS, existingAnnualIncome) - taxCredit
+  );
   const netAmount = grossAmount - taxPaid;
   const effectiveRate = taxPaid / grossAmount;
   
@@ -334,11 +1471,13 @@ export function calculateEarlyPensionWithdrawal(
  * 
  * @param desiredNet - Net amount needed (annual)
  * @param existingAnnualIncome - Other annual income
+ * @param taxCredit - Annual credit points value (₪) that offsets the tax
  * @returns Gross amount needed to withdraw
  */
 export function calculateGrossForDesiredNet(
   desiredNet: number, 
-  existingAnnualIncome: number = 0
+  existingAnnualIncome: number = 0,
+  taxCredit: number = 0
 ): number {
   if (desiredNet <= 0) return 0;
   
@@ -348,7 +1487,7 @@ export function calculateGrossForDesiredNet(
   
   for (let i = 0; i < 50; i++) {
     const mid = (low + high) / 2;
-    const result = calculateEarlyPensionWithdrawal(mid, existingAnnualIncome);
+    const result = calculateEarlyPensionWithdrawal(mid, existingAnnualIncome, taxCredit);
     
     if (Math.abs(result.netAmount - desiredNet) < 1) {
       return mid;
@@ -365,72 +1504,614 @@ export function calculateGrossForDesiredNet(
 }
 
 /**
- * Calculate pension annuity at age 60 (קצבה)
- * Uses fixed coefficient method common in Israel
+ * Calculate pension annuity (קצבה): the balance divided by a conversion factor
+ * Defaults to the fixed coefficient at age 60
  * 
  * @param pensionBalance - Total pension balance
+ * @param conversionFactor - מקדם המרה
  * @returns Monthly annuity (gross before tax)
  */
-export function calculatePensionAnnuity(pensionBalance: number): number {
+export function calculatePensionAnnuity(pensionBalance: number, conversionFactor: number = FIXED_COEFFICIENT): number {
   if (pensionBalance <= 0) return 0;
-  return pensionBalance / FIXED_COEFFICIENT;
+  return pensionBalance / conversionFactor;
+}
+
+/**
+ * Conversion factor for an annuity starting at an age (60-70)
+ * Adjusted for the birth cohort, the guarantee period and the survivor pension
+ * The simulation has no deaths: guaranteed and survivor payments are never paid, only their cost
+ */
+export function calculateConversionFactor(
+  age: number, 
+  gender: Gender, 
+  birthYear: number, 
+  options: Pick<AnnuityOptions, 'guaranteeMonths' | 'survivorPercent'>
+): number {
+  const clampedAge = Math.min(MAX_ANNUITY_AGE, Math.max(MIN_ANNUITY_AGE, age));
+  const upper = CONVERSION_FACTOR_TABLE.findIndex(row => row.age >= clampedAge);
+  const high = CONVERSION_FACTOR_TABLE[upper];
+  const low = CONVERSION_FACTOR_TABLE[Math.max(0, upper - 1)];
+  const share = high.age === low.age ? 0 : (clampedAge - low.age) / (high.age - low.age);
+  const base = low[gender] + (high[gender] - low[gender]) * share;
+  
+  const cohort = 1 + (birthYear - CONVERSION_FACTOR_BASE_COHORT) * CONVERSION_FACTOR_COHORT_RATE;
+  const guarantee = GUARANTEE_PERIOD_LOADING[options.guaranteeMonths] ?? 0;
+  const survivor = SURVIVOR_PENSION_LOADING * Math.min(100, Math.max(0, options.survivorPercent)) / 100;
+  return base * cohort * (1 + guarantee + survivor);
+}
+
+/**
+ * Age a person becomes eligible for the old-age pension
+ */
+export function getOldAgePensionAge(birthDate: string, gender: Gender): number {
+  if (gender === 'male') return MALE_OLD_AGE_PENSION_AGE;
+  const birthYear = Number(birthDate.slice(0, 4));
+  return FEMALE_OLD_AGE_PENSION_AGES.find(bracket => birthYear < bracket.bornBefore)!.age;
+}
+
+/**
+ * Monthly old-age pension with the seniority increment (today's prices)
+ * 
+ * @param insuranceYears - Years insured with Bituach Leumi
+ */
+export function calculateOldAgePension(insuranceYears: number): number {
+  const seniority = Math.min(
+    OLD_AGE_PENSION_MAX_SENIORITY, 
+    Math.max(0, insuranceYears - 10) * OLD_AGE_PENSION_SENIORITY_RATE
+  );
+  return OLD_AGE_PENSION_BASE * (1 + seniority);
+}
+
+/**
+ * Share of the qualifying pension ceiling that is exempt in a year
+ */
+export function getExemptPensionRate(year: number): number {
+  const applicable = EXEMPT_PENSION_RATES.filter(r => r.fromYear <= year);
+  return (applicable[applicable.length - 1] ?? EXEMPT_PENSION_RATES[0]).rate;
+}
+
+/**
+ * Split the year's exempt capital between the severance grants and the annuity
+ * Whatever the grants don't use stays with the annuity
+ * 
+ * @param inflationIndex - Price level relative to today; indexes the ceiling and the grants
+ */
+export function calculateRightsFixing(
+  options: RightsFixingOptions, 
+  year: number, 
+  inflationIndex: number = 1
+): RightsFixingResult {
+  const exemptCapital = QUALIFYING_PENSION_CEILING * inflationIndex * getExemptPensionRate(year) * EXEMPT_CAPITAL_MONTHS;
+  const grantShare = 1 - Math.min(100, Math.max(0, options.annuityShare)) / 100;
+  const grants = Math.max(0, options.severanceGrants) * inflationIndex;
+  const grantCapital = Math.min(exemptCapital * grantShare, grants * SEVERANCE_GRANT_FACTOR);
+  const grantExemption = grantCapital / SEVERANCE_GRANT_FACTOR;
+  
+  return {
+    exemptCapital,
+    annuityExemption: (exemptCapital - grantCapital) / EXEMPT_CAPITAL_MONTHS,
+    grantExemption,
+    taxableGrant: grants - grantExemption,
+  };
+}
+
+/**
+ * Tax under each allocation of the exempt capital, in today's prices
+ * 
+ * @param monthlyAnnuity - Gross annuity
+ * @param months - How long the annuity is expected to be paid
+ */
+export function compareRightsFixingAllocations(
+  monthlyAnnuity: number, 
+  severanceGrants: number, 
+  year: number, 
+  annualTaxCredit: number = 0,
+  months: number = 240
+): RightsFixingComparison[] {
+  return RIGHTS_FIXING_COMPARISON_SHARES.map(annuityShare => {
+    const result = calculateRightsFixing({ severanceGrants, annuityShare }, year);
+    const monthlyAnnuityTax = calculatePensionAnnuityTax(monthlyAnnuity, result.annuityExemption, annualTaxCredit);
+    const grantTax = calculateMarginalTax(result.taxableGrant, EMPLOYMENT_TAX_BRACKETS);
+    return {
+      annuityShare,
+      annuityExemption: result.annuityExemption,
+      monthlyAnnuityTax,
+      grantTax,
+      totalTax: grantTax + monthlyAnnuityTax * months,
+    };
+  });
 }
 
 /**
  * Calculate tax on pension annuity (after age 60)
  * Standard 15% tax on pension income in Israel
+ * With a rights fixing exemption, the rest is taxed through the income brackets with credit points
+ * 
+ * @param monthlyExemption - Exempt part of the monthly annuity (קצבה פטורה)
+ * @param annualTaxCredit - Credit points value, used only with an exemption
  */
-export function calculatePensionAnnuityTax(monthlyAnnuity: number): number {
+export function calculatePensionAnnuityTax(
+  monthlyAnnuity: number, 
+  monthlyExemption?: number, 
+  annualTaxCredit: number = 0
+): number {
   if (monthlyAnnuity <= 0) return 0;
+  if (monthlyExemption !== undefined) {
+    const taxable = Math.max(0, monthlyAnnuity - monthlyExemption) * 12;
+    return Math.max(0, calculateMarginalTax(taxable, EMPLOYMENT_TAX_BRACKETS) - annualTaxCredit) / 12;
+  }
   return monthlyAnnuity * FIXED_PENSION_TAX;
 }
 
 /**
  * Calculate capital gains tax on investment withdrawals
- * 25% capital gains + 3% surtax if above threshold
+ * 25% capital gains + 3% surtax if above threshold, on the real gain part of the withdrawal
+ * 
+ * @param gainRatio - Share of the withdrawal that is real gain (defaults to all of it)
  */
-export function calculateInvestmentWithdrawalTax(amount: number, annualIncome: number): number {
+export function calculateInvestmentWithdrawalTax(amount: number, annualIncome: number, gainRatio: number = 1): number {
   if (amount <= 0) return 0;
+  const gain = amount * gainRatio;
   
   // Base capital gains tax: 25%
-  let tax = amount * 0.25;
+  let tax = gain * 0.25;
   
   // Add surtax if total annual income exceeds threshold
   if (annualIncome > SURTAX_THRESHOLD) {
-    tax += amount * 0.03;
+    tax += gain * 0.03;
   }
   
   return tax;
 }
 
+/**
+ * Gross investment withdrawal that leaves the desired net amount after capital gains tax
+ * 
+ * @param otherAnnualIncome - Other annual income counted toward the surtax threshold
+ * @param gainRatio - Share of the withdrawal that is real gain
+ */
+export function calculateGrossForNetInvestmentWithdrawal(
+  net: number, 
+  otherAnnualIncome: number, 
+  gainRatio: number = 1
+): number {
+  if (net <= 0) return 0;
+  
+  const gross = net / (1 - gainRatio * 0.25);
+  if (otherAnnualIncome + gross * 12 <= SURTAX_THRESHOLD) return gross;
+  return net / (1 - gainRatio * 0.28);
+}
+
+/**
+ * Annual tax of one taxpayer on all their income for the year
+ * Income types are stacked in order: salary and annuity (employment brackets), then early pension
+ * and rental (non-employment brackets), then gains - so the surtax applies to combined income
+ * 
+ * @param taxCredit - Annual credit points value (₪); offsets income tax but not tax on gains
+ */
+export function calculateAnnualTax(income: AnnualTaxableIncome, taxCredit: number = 0): AnnualTaxBreakdown {
+  const employmentIncome = Math.max(0, income.salary) + Math.max(0, income.annuity);
+  const nonEmploymentIncome = Math.max(0, income.earlyPension) + Math.max(0, income.rental);
+  const capitalIncome = Math.max(0, income.capitalGains) + Math.max(0, income.equity);
+  
+  const employmentBracketTax = calculateMarginalTax(employmentIncome, EMPLOYMENT_TAX_BRACKETS);
+  const nonEmploymentBracketTax = calculateMarginalTax(nonEmploymentIncome, NON_EMPLOYMENT_TAX_BRACKETS, employmentIncome);
+  const employmentTax = Math.max(0, employmentBracketTax - taxCredit);
+  const nonEmploymentTax = Math.max(0, nonEmploymentBracketTax - Math.max(0, taxCredit - employmentBracketTax));
+  const capitalGainsTax = calculateMarginalTax(
+    capitalIncome, 
+    CAPITAL_GAINS_TAX_BRACKETS, 
+    employmentIncome + nonEmploymentIncome
+  );
+  
+  return {
+    employmentTax,
+    nonEmploymentTax,
+    capitalGainsTax,
+    taxCredit: employmentBracketTax + nonEmploymentBracketTax - employmentTax - nonEmploymentTax,
+    total: employmentTax + nonEmploymentTax + capitalGainsTax,
+  };
+}
+
+/**
+ * Sum of all asset class balances
+ */
+function portfolioTotal(portfolio: AssetClassAmounts): number {
+  return portfolio.stocks + portfolio.bonds + portfolio.cash;
+}
+
+function sumValues(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * Add money to the portfolio according to target weights (mutates portfolio)
+ */
+function depositToPortfolio(portfolio: AssetClassAmounts, amount: number, weights: AssetClassAmounts): void {
+  ASSET_CLASSES.forEach(cls => {
+    portfolio[cls] += amount * weights[cls];
+  });
+}
+
+/**
+ * Take money out of the portfolio (mutates portfolio)
+ * With an order, classes are drained one after another; otherwise proportionally to balances.
+ * Any shortfall beyond the total balance is taken from stocks (goes negative, like a debt).
+ */
+function withdrawFromPortfolio(portfolio: AssetClassAmounts, amount: number, order?: AssetClass[]): void {
+  if (amount <= 0) return;
+  let remaining = amount;
+  
+  if (order) {
+    for (const cls of order) {
+      const take = Math.min(remaining, Math.max(0, portfolio[cls]));
+      portfolio[cls] -= take;
+      remaining -= take;
+      if (remaining <= 0) return;
+    }
+  } else {
+    const positiveTotal = ASSET_CLASSES.reduce((sum, cls) => sum + Math.max(0, portfolio[cls]), 0);
+    if (positiveTotal > 0) {
+      const take = Math.min(remaining, positiveTotal);
+      ASSET_CLASSES.forEach(cls => {
+        portfolio[cls] -= take * Math.max(0, portfolio[cls]) / positiveTotal;
+      });
+      remaining -= take;
+    }
+  }
+  
+  portfolio.stocks -= remaining;
+}
+
+/**
+ * Apply a net cash flow to the portfolio: deposit when positive, withdraw when negative
+ */
+function applyPortfolioCashFlow(
+  portfolio: AssetClassAmounts, 
+  amount: number, 
+  weights: AssetClassAmounts, 
+  order?: AssetClass[]
+): void {
+  if (amount >= 0) {
+    depositToPortfolio(portfolio, amount, weights);
+  } else {
+    withdrawFromPortfolio(portfolio, -amount, order);
+  }
+}
+
+/**
+ * State passed to a withdrawal strategy at the start of each retirement year
+ * Amounts are monthly and in today's money
+ */
+export interface WithdrawalStrategyContext {
+  initialWithdrawal: number; // Withdrawal in the first retirement year
+  initialWealth: number; // Strategy wealth when retirement started
+  initialYearsLeft: number;
+  previousWithdrawal: number; // Withdrawal during the past year
+  wealth: number; // Investments + pension balance + present value of the annuity
+  yearsLeft: number; // Years until end of life
+  realReturn: number; // Expected annual real return (%)
+  lastYearReturn: number; // Market return over the past year (fraction)
+  lastYearInflation: number; // Price level growth over the past year (factor)
+}
+
+/**
+ * VPW withdrawal rate: the annual payment that spends the portfolio down to zero
+ * over the remaining years at the expected real return
+ */
+export function calculateVpwRate(realReturn: number, yearsLeft: number): number {
+  const years = Math.max(1, yearsLeft);
+  const r = realReturn / 100;
+  if (Math.abs(r) < 1e-9) return 1 / years;
+  return r / (1 - Math.pow(1 + r, -years));
+}
+
+/**
+ * Built-in withdrawal strategies
+ * Each returns the real monthly withdrawal for the coming year
+ */
+export const WITHDRAWAL_STRATEGIES: Record<
+  WithdrawalStrategyType, 
+  (ctx: WithdrawalStrategyContext, strategy: WithdrawalStrategy) => number
+> = {
+  // Same real amount every year
+  constant: (ctx) => ctx.initialWithdrawal,
+  
+  // Same percentage of wealth every year (the initial withdrawal rate)
+  fixedPercent: (ctx) => 
+    ctx.initialWealth > 0 ? ctx.initialWithdrawal * Math.max(0, ctx.wealth) / ctx.initialWealth : 0,
+  
+  // Percentage grows as the remaining horizon shrinks, scaled to match the initial withdrawal
+  vpw: (ctx) => {
+    const initialAmount = calculateVpwRate(ctx.realReturn, ctx.initialYearsLeft) * ctx.initialWealth;
+    const amount = calculateVpwRate(ctx.realReturn, ctx.yearsLeft) * Math.max(0, ctx.wealth);
+    return initialAmount > 0 ? ctx.initialWithdrawal * amount / initialAmount : 0;
+  },
+  
+  // Guardrails: skip the inflation raise after a losing year, cut or raise when the rate drifts too far
+  guytonKlinger: (ctx, strategy) => {
+    const initialRate = ctx.initialWealth > 0 ? ctx.initialWithdrawal / ctx.initialWealth : 0;
+    const wealth = Math.max(0, ctx.wealth);
+    let withdrawal = ctx.previousWithdrawal;
+    if (ctx.lastYearReturn < 0 && withdrawal > initialRate * wealth) {
+      withdrawal /= ctx.lastYearInflation;
+    }
+    const rate = wealth > 0 ? withdrawal / wealth : Infinity;
+    const band = strategy.guardrailBand / 100;
+    const adjustment = strategy.guardrailAdjustment / 100;
+    // Capital preservation rule is not applied in the last 15 years
+    if (rate > initialRate * (1 + band) && ctx.yearsLeft > 15) {
+      withdrawal *= 1 - adjustment;
+    } else if (rate < initialRate * (1 - band)) {
+      withdrawal *= 1 + adjustment;
+    }
+    return withdrawal;
+  },
+  
+  // Fixed percentage, kept between a floor and a ceiling of the initial withdrawal
+  floorCeiling: (ctx, strategy) => {
+    const amount = WITHDRAWAL_STRATEGIES.fixedPercent(ctx, strategy);
+    return Math.min(
+      ctx.initialWithdrawal * strategy.ceiling / 100, 
+      Math.max(ctx.initialWithdrawal * strategy.floor / 100, amount)
+    );
+  },
+};
+
+/**
+ * Summarize real monthly spending over the retirement phase
+ */
+export function calculateSpendingSummary(data: SimulationDataPoint[], stopWorkYear: number): SpendingSummary {
+  const retired = data.filter(p => p.index >= stopWorkYear * 12);
+  if (retired.length === 0) {
+    return { initial: 0, min: 0, max: 0, average: 0 };
+  }
+  const spending = retired.map(p => p.realSpending);
+  return {
+    initial: spending[0],
+    min: Math.min(...spending),
+    max: Math.max(...spending),
+    average: Math.round(spending.reduce((sum, v) => sum + v, 0) / spending.length),
+  };
+}
+
+interface EquityCashFlow {
+  amount: number; // Net ₪ deposited into investments
+  gain: number; // Taxable gain behind the amount
+  tax: number; // Tax withheld on the gain
+  event: string | null;
+}
+
+// Equity schedules per companies array; vesting lookups are the slowest part of a simulation
+const equityCashFlowCache = new WeakMap<
+  EquityCompanyConfig[], 
+  { startDate: string | undefined; flows: EquityCashFlow[][] }
+>();
+
+/**
+ * Net equity cash flows per simulation month
+ * Cached per companies array, so the array must not be mutated after it is simulated
+ */
+function getEquityCashFlows(
+  equityCompanies: EquityCompanyConfig[], 
+  totalMonths: number, 
+  startDate: string | undefined
+): EquityCashFlow[][] {
+  const cached = equityCashFlowCache.get(equityCompanies);
+  if (cached && cached.startDate === startDate && cached.flows.length === totalMonths + 1) return cached.flows;
+  
+  const flows: EquityCashFlow[][] = [];
+  // Track vested shares already cashed out per company (to avoid double counting)
+  const exitedCompanies = new Set<string>();
+  const previousVestedShares: Record<string, number> = {};
+  
+  // Initialize previous vested to 0 for all companies
+  equityCompanies.forEach(company => {
+    previousVestedShares[company.id] = 0;
+  });
+  
+  for (let m = 0; m <= totalMonths; m++) {
+    const date = getSimulationMonthDate(startDate, m);
+    const curYear = date.getFullYear();
+    const monthFlows: EquityCashFlow[] = [];
+    
+    for (const company of equityCompanies) {
+      if (company.contracts.length === 0 || company.sharePriceAtExit <= 0) continue;
+      
+      const vest = getVestingAtDate(company.contracts, date);
+      const currentVested = vest.totalVested;
+      
+      // At exit year (January, or the first month if the plan starts mid-year): cash out all vested shares
+      if (curYear === company.exitYear && (date.getMonth() === 0 || m === 0) && !exitedCompanies.has(company.id)) {
+        const grossValue = (currentVested * company.sharePriceAtExit * 3.5) - (vest.totalCost * 3.5);
+        const amount = calculateNetEquity(grossValue);
+        monthFlows.push({ amount, gain: Math.max(0, grossValue), tax: Math.max(0, grossValue) - amount, event: `${company.name} Exit` });
+        exitedCompanies.add(company.id);
+        previousVestedShares[company.id] = currentVested;
+      }
+      // After exit: cash out newly vested shares each month
+      else if (exitedCompanies.has(company.id)) {
+        const newlyVested = currentVested - previousVestedShares[company.id];
+        if (newlyVested > 0) {
+          // Calculate cost basis for newly vested shares
+          const totalShares = company.contracts.reduce((sum, c) => sum + c.shares, 0);
+          const avgStrike = totalShares > 0 ? vest.totalCost / currentVested : 0;
+          const grossValue = (newlyVested * company.sharePriceAtExit * 3.5) - (newlyVested * avgStrike * 3.5);
+          const amount = calculateNetEquity(grossValue);
+          monthFlows.push({ amount, gain: Math.max(0, grossValue), tax: Math.max(0, grossValue) - amount, event: null });
+          previousVestedShares[company.id] = currentVested;
+        }
+      }
+    }
+    flows.push(monthFlows);
+  }
+  
+  equityCashFlowCache.set(equityCompanies, { startDate, flows });
+  return flows;
+}
+
 /**
  * Run monthly simulation
  */
 export function runSimulation(targetWithdrawal: number, params: SimulationParams) {
   const {
     investmentInitialValue,
-    pensionInitialValue,
     returnRate,
     inflationRate,
-    transitionToHalfWorkYear,
-    stopWorkYear,
-    budgetSummary,
     monthlyExpenses,
     yearlyExpenses,
     propertyConfig,
     equityCompanies,
     initialAge,
     endOfLifeAge,
+    monthlyReturns,
+    monthlyInflationFactors,
+    investmentAllocation,
+    assetClassReturns,
+    bucketStrategy,
+    glidePath,
+    withdrawalStrategy,
+    startDate,
+    investmentCostBasis,
+    netSpending,
+    annualTaxTrueUp,
+    oldAgePension,
+    retireeNationalInsurance,
+    investmentFees,
   } = params;
 
-  let curInv = investmentInitialValue;
-  let curPen = pensionInitialValue;
+  // Investment portfolio per asset class (total is the old single investment balance)
+  const portfolio: AssetClassAmounts = investmentAllocation 
+    ? { ...investmentAllocation } 
+    : { stocks: investmentInitialValue, bonds: 0, cash: 0 };
+  const initialPortfolioTotal = portfolioTotal(portfolio);
+  // New money is invested in the initial mix
+  const targetWeights: AssetClassAmounts = initialPortfolioTotal > 0
+    ? { 
+        stocks: portfolio.stocks / initialPortfolioTotal, 
+        bonds: portfolio.bonds / initialPortfolioTotal, 
+        cash: portfolio.cash / initialPortfolioTotal 
+      }
+    : { stocks: 1, bonds: 0, cash: 0 };
+  // Spending is drawn from the bucket first, then the other safe class, stocks last
+  const withdrawalOrder: AssetClass[] | undefined = bucketStrategy 
+    ? [bucketStrategy.assetClass, bucketStrategy.assetClass === 'cash' ? 'bonds' : 'cash', 'stocks'] 
+    : undefined;
+  const bondMonthlyReturn = assetClassReturns ? calculateMonthlyReturn(assetClassReturns.bonds) : null;
+  const cashMonthlyReturn = assetClassReturns ? calculateMonthlyReturn(assetClassReturns.cash) : null;
+  let retirementStartMonth: number | null = null;
+  // Withdrawal strategy state (real monthly amounts)
+  let realWithdrawal = targetWithdrawal;
+  let initialStrategyWealth = 0;
+  let initialYearsLeft = 0;
+  let yearStartInflationIndex = 1;
+  let yearMarketGrowth = 1;
+
+  // Each member's pension turns into their own annuity at age 60
+  const members = resolveHouseholdMembers(params);
+  const pensions = members.map(member => member.pensionInitialValue);
+  const annuities = members.map(() => 0); // Net of tax
+  // Fixed when each annuity starts: its tax and exempt part as shares of the gross annuity
+  const annuityTaxRates = members.map(() => FIXED_PENSION_TAX);
+  const annuityExemptShares = members.map(() => 0);
+  const grossAnnuity = (i: number) => annuities[i] / (1 - annuityTaxRates[i]);
+  // Study funds grow tax-free with contributions from their owner's salary
+  const studyFunds = (params.studyFunds ?? []).map(fund => ({
+    ...fund,
+    owner: Math.max(0, members.findIndex(member => member.id === fund.ownerId)),
+  }));
+  const studyFundTotal = () => sumValues(studyFunds.map(fund => fund.value));
+  // Frozen pay keeps its nominal value; a salary path follows inflation
+  const hasSalaryPath = (member: HouseholdMemberParams) => 
+    member.salaryGrowth !== undefined || !!member.salarySteps?.length;
+  // A member's pay this month: frozen in nominal terms, or indexed to inflation
+  // with real growth since their last salary step
+  const memberPay = (member: HouseholdMemberParams, m: number) => {
+    const grossIncome = member.grossIncome ?? member.pensionInflow / PENSION_CONTRIBUTION_RATE;
+    if (!hasSalaryPath(member)) {
+      return { netIncome: member.netIncome, grossIncome, pensionInflow: member.pensionInflow };
+    }
+    const step = member.salarySteps?.filter(s => s.month <= m).pop();
+    const base = step ?? { month: 0, netIncome: member.netIncome, grossIncome, pensionInflow: member.pensionInflow };
+    const factor = inflationIndex * Math.pow(1 + (member.salaryGrowth ?? 0) / 100, (m - Math.max(0, base.month)) / 12);
+    return { 
+      netIncome: base.netIncome * factor, 
+      grossIncome: base.grossIncome * factor, 
+      pensionInflow: base.pensionInflow * factor 
+    };
+  };
+  // Pay of a part-time job or life phase: set in start-date prices, indexed to inflation
+  const jobPay = (job: PartTimeParams | LifePhaseParams) => ({
+    netIncome: job.netIncome * inflationIndex,
+    grossIncome: job.grossIncome * inflationIndex,
+    pensionInflow: job.pensionInflow * inflationIndex
+  });
+  // Half-time work without a part-time job: a 50% job on half the month's salary
+  const halfTimePay = (member: HouseholdMemberParams, m: number) => {
+    const pay = memberPay(member, m);
+    return { netIncome: pay.netIncome / 2, grossIncome: pay.grossIncome / 2, pensionInflow: pay.pensionInflow / 2 };
+  };
+  // A member's life phase this month, if their timeline covers it
+  const memberPhase = (member: HouseholdMemberParams, m: number) => 
+    member.phases?.find(phase => m >= phase.startMonth && m < phase.endMonth);
+  // Stopped working: in a retirement phase, or past the stop-work year outside the timeline
+  const isRetired = (member: HouseholdMemberParams, m: number) => {
+    const phase = memberPhase(member, m);
+    return phase ? phase.type === 'retired' : m / 12 >= member.stopWorkYear;
+  };
+  let totalFees = 0;
+  // Deposit fee on money going into a balance; returns what is deposited after it
+  const chargeDepositFee = (amount: number, fees?: ManagementFees) => {
+    if (!fees || amount <= 0) return amount;
+    const fee = amount * fees.depositFee / 100;
+    totalFees += fee;
+    return amount - fee;
+  };
   let propValue = 0;
-  let monthlyAnnuity = 0; // Pension annuity after age 60
+  let inflationIndex = 1; // Cumulative price level relative to the first month
+  
+  // Income of the current calendar year for the year-end tax true-up:
+  // per member, plus the shared portfolio's gains (split evenly between members)
+  const yearSalary = members.map(() => 0);
+  const yearAnnuity = members.map(() => 0);
+  const yearEarlyPension = members.map(() => 0);
+  let yearCapitalGains = 0;
+  let yearEquity = 0;
+  let yearWithheld = 0; // Tax already taken during the year
+  let pendingTrueUp = 0; // Settlements not yet shown in a data point
+  // Each member's annual credit points value, recomputed when the calendar year changes
+  let creditYear: number | null = null;
+  let memberCredits = members.map(() => 0);
+  const receivingOldAgePension = members.map(() => false);
+  
+  // Investment cost basis (average cost): nominal ₪, and in first-month prices for inflation indexing
+  let basisNominal = investmentCostBasis ?? 0;
+  let basisReal = basisNominal;
+  const addToBasis = (amount: number) => {
+    if (amount <= 0) return;
+    basisNominal += amount;
+    basisReal += amount / inflationIndex;
+  };
+  // Selling part of the portfolio takes the same share of the basis (and realizes its gain)
+  const removeFromBasis = (amount: number) => {
+    const value = portfolioTotal(portfolio);
+    yearCapitalGains += Math.min(Math.max(0, amount), Math.max(0, value)) * realGainRatio();
+    const remaining = value > 0 ? 1 - Math.min(1, Math.max(0, amount) / value) : 0;
+    basisNominal *= remaining;
+    basisReal *= remaining;
+  };
+  // Taxable share of a sale: real gain (רווח ריאלי) over the inflation-indexed basis,
+  // which never drops below the nominal basis
+  const realGainRatio = () => {
+    const value = portfolioTotal(portfolio);
+    if (value <= 0) return 1;
+    const basis = Math.max(basisNominal, basisReal * inflationIndex);
+    return Math.max(0, value - basis) / value;
+  };
   
   const monthlyReturn = calculateMonthlyReturn(returnRate);
   const monthlyInflation = calculateMonthlyInflation(inflationRate);
-  const data: any[] = [];
+  const data: SimulationDataPoint[] = [];
 
   // Monthly savings after buying property (e.g., rent that we stop paying)
   const monthlySavingsAfterProperty = propertyConfig.monthlySavings || 0;
@@ -440,64 +2121,194 @@ export function runSimulation(targetWithdrawal: number, params: SimulationParams
     .reduce((sum, e) => sum + (parseFloat(String(e.amount)) || 0), 0) + 
     ((yearlyExpenses || []).reduce((sum, e) => sum + (parseFloat(String(e.amount)) || 0), 0) / 12);
 
-  const totalMonths = (endOfLifeAge - initialAge) * 12;
-  
-  // Track vested shares already cashed out per company (to avoid double counting)
-  const exitedCompanies = new Set<string>();
-  const previousVestedShares: Record<string, number> = {};
-  
-  // Initialize previous vested to 0 for all companies
-  equityCompanies.forEach(company => {
-    previousVestedShares[company.id] = 0;
+  const totalMonths = Math.round((endOfLifeAge - initialAge) * 12);
+  const equityCashFlows = getEquityCashFlows(equityCompanies, totalMonths, startDate);
+  // The glide path follows the member who stops working last: the household retires with them
+  const memberRetirementMonths = members.map(member => {
+    const month = Array.from({ length: totalMonths + 1 }, (_, m) => m).find(m => isRetired(member, m));
+    return month ?? totalMonths + 1;
   });
+  const householdRetirementMonth = Math.max(...memberRetirementMonths);
+  const glidePathMember = memberRetirementMonths.indexOf(householdRetirementMonth);
 
   for (let m = 0; m <= totalMonths; m++) {
-    const date = new Date(2026, m, 1);
+    const date = getSimulationMonthDate(startDate, m);
     const curYear = date.getFullYear();
     const yearsPassed = m / 12;
     const curAge = initialAge + yearsPassed;
+    const memberAges = members.map(member => member.initialAge + yearsPassed);
+    const monthEarlyPension = members.map(() => 0);
     const eventLabels: string[] = [];
     let income = 0;
     let source = "שכר";
     let taxPaid = 0;
+    let grantTaxPaid = 0; // Tax on severance grants paid with a rights fixing
     let withdrawalFromInvestments = 0;
     let withdrawalFromPension = 0;
+    let withdrawalFromStudyFunds = 0;
+    let grossWithdrawal = 0; // Everything taken out in retirement, before tax
     let currentPensionAnnuity = 0;
-
-    // Handle equity - dynamic for all companies
-    for (const company of equityCompanies) {
-      if (company.contracts.length === 0 || company.sharePriceAtExit <= 0) continue;
-      
-      const vest = getVestingAtDate(company.contracts, date);
-      const currentVested = vest.totalVested;
-      
-      // At exit year (January): cash out all vested shares
-      if (curYear === company.exitYear && date.getMonth() === 0 && !exitedCompanies.has(company.id)) {
-        const grossValue = (currentVested * company.sharePriceAtExit * 3.5) - (vest.totalCost * 3.5);
-        curInv += calculateNetEquity(grossValue);
-        exitedCompanies.add(company.id);
-        previousVestedShares[company.id] = currentVested;
-        eventLabels.push(`${company.name} Exit`);
+    const monthReturn = monthlyReturns?.[m] ?? monthlyReturn;
+    const monthInflation = monthlyInflationFactors?.[m] ?? monthlyInflation;
+    if (m > 0) {
+      inflationIndex *= monthInflation;
+    }
+    if (curYear !== creditYear) {
+      creditYear = curYear;
+      // Salary is counted per calendar year (the true-up also clears it in December)
+      yearSalary.fill(0);
+      memberCredits = members.map(member => (member.creditPoints 
+        ? calculateTaxCredit(calculateCreditPoints(member.creditPoints, curYear), inflationIndex) 
+        : 0));
+    }
+    // Glide path: rebalance the stock/bond mix before this month's growth
+    if (glidePath) {
+      const riskyTotal = portfolio.stocks + portfolio.bonds;
+      if (riskyTotal > 0) {
+        const stockShare = getGlidePathStockShare(glidePath, memberAges[glidePathMember], (m - householdRetirementMonth) / 12);
+        portfolio.stocks = riskyTotal * stockShare;
+        portfolio.bonds = riskyTotal * (1 - stockShare);
       }
-      // After exit: cash out newly vested shares each month
-      else if (exitedCompanies.has(company.id)) {
-        const newlyVested = currentVested - previousVestedShares[company.id];
-        if (newlyVested > 0) {
-          // Calculate cost basis for newly vested shares
-          const totalShares = company.contracts.reduce((sum, c) => sum + c.shares, 0);
-          const avgStrike = totalShares > 0 ? vest.totalCost / currentVested : 0;
-          const grossValue = (newlyVested * company.sharePriceAtExit * 3.5) - (newlyVested * avgStrike * 3.5);
-          curInv += calculateNetEquity(grossValue);
-          previousVestedShares[company.id] = currentVested;
-        }
+    }
+    const growPortfolio = () => {
+      portfolio.stocks *= (1 + monthReturn);
+      portfolio.bonds *= (1 + (bondMonthlyReturn ?? monthReturn));
+      portfolio.cash *= (1 + (cashMonthlyReturn ?? monthReturn));
+    };
+    // Pension balance to annuity, with the member's conversion factor at their current age
+    const convertToAnnuity = (i: number) => {
+      const options = members[i].annuity;
+      const factor = options 
+        ? calculateConversionFactor(memberAges[i], options.gender, options.birthYear, options) 
+        : FIXED_COEFFICIENT;
+      const gross = calculatePensionAnnuity(pensions[i], factor);
+      const fixing = members[i].rightsFixing && calculateRightsFixing(members[i].rightsFixing, curYear, inflationIndex);
+      const exemption = fixing?.annuityExemption;
+      const annuityTax = calculatePensionAnnuityTax(gross, exemption, memberCredits[i]);
+      annuities[i] = gross - annuityTax;
+      if (gross > 0) {
+        annuityTaxRates[i] = annuityTax / gross;
+        annuityExemptShares[i] = exemption !== undefined ? Math.min(1, exemption / gross) : 0;
+      }
+      pensions[i] = 0;
+      eventLabels.push(members.length > 1 ? `המרה לקצבת פנסיה (${members[i].name})` : "המרה לקצבת פנסיה");
+      // Severance grants are paid with the annuity's start and invested; the part the
+      // rights fixing doesn't exempt is taxed on the employment brackets
+      if (fixing && fixing.grantExemption + fixing.taxableGrant > 0) {
+        const grantTax = calculateMarginalTax(fixing.taxableGrant / inflationIndex, EMPLOYMENT_TAX_BRACKETS) * inflationIndex;
+        const invested = chargeDepositFee(fixing.grantExemption + fixing.taxableGrant - grantTax, investmentFees);
+        grantTaxPaid += grantTax;
+        addToBasis(invested);
+        depositToPortfolio(portfolio, invested, targetWeights);
+        eventLabels.push(members.length > 1 ? `מענק פרישה (${members[i].name})` : "מענק פרישה");
+      }
+    };
+    // A retired member's pension keeps growing until their annuity age (60 by default),
+    // then becomes an inflation-linked annuity
+    const updateRetiredPension = (i: number) => {
+      if (memberAges[i] < (members[i].annuity?.startAge ?? MIN_ANNUITY_AGE) && annuities[i] === 0) {
+        pensions[i] *= (1 + monthReturn);
+        return;
       }
+      if (pensions[i] > 0 && annuities[i] === 0) {
+        convertToAnnuity(i);
+      }
+      if (m > 0) {
+        annuities[i] *= monthInflation;
+      }
+    };
+    // Taxable gross annuities paid this month, for the year-end tax true-up
+    const recordAnnuities = () => {
+      annuities.forEach((_, i) => {
+        yearAnnuity[i] += grossAnnuity(i) * (1 - annuityExemptShares[i]);
+      });
+    };
+    // Early pension withdrawal (marginal income tax): the net need is split between members
+    // under 60 by balance, and each share grossed up on the member's own brackets with the
+    // credit points payroll didn't use against this year's salary
+    const withdrawEarlyPension = (netNeeded: number) => {
+      const eligible = members.map((_, i) => i).filter(i => memberAges[i] < 60);
+      const eligibleTotal = sumValues(eligible.map(i => pensions[i]));
+      let gross = 0;
+      let tax = 0;
+      eligible.forEach((i, k) => {
+        const share = eligibleTotal !== 0 ? pensions[i] / eligibleTotal : (k === 0 ? 1 : 0);
+        const taxCredit = Math.max(0, memberCredits[i] - calculateMarginalTax(yearSalary[i], EMPLOYMENT_TAX_BRACKETS));
+        const memberGross = calculateGrossForDesiredNet(netNeeded * share * 12, 0, taxCredit) / 12;
+        tax += calculateEarlyPensionWithdrawal(memberGross * 12, 0, taxCredit).taxPaid / 12;
+        gross += memberGross;
+        pensions[i] -= memberGross;
+        yearEarlyPension[i] += memberGross;
+        monthEarlyPension[i] += memberGross;
+      });
+      return { gross, tax, effectiveRate: gross > 0 ? tax / gross : 0 };
+    };
+    // Liquid study funds are spent before anything taxable
+    const drawStudyFunds = (amount: number) => {
+      let drawn = 0;
+      studyFunds.forEach(fund => {
+        if (m < fund.liquidMonth || drawn >= amount) return;
+        const take = Math.min(Math.max(0, fund.value), amount - drawn);
+        fund.value -= take;
+        drawn += take;
+      });
+      withdrawalFromStudyFunds += drawn;
+      return drawn;
+    };
+
+    // Bituach Leumi old-age pension from each member's eligibility age, indexed to inflation
+    // A member who stopped working and isn't eligible yet counts as a dependent spouse
+    members.forEach((member, i) => {
+      const eligible = !!oldAgePension && !!member.oldAgePension && memberAges[i] >= member.oldAgePension.age;
+      if (eligible && !receivingOldAgePension[i]) {
+        eventLabels.push(members.length > 1 ? `קצבת זקנה (${member.name})` : "קצבת זקנה");
+      }
+      receivingOldAgePension[i] = eligible;
+    });
+    const oldAgePensions = members.map((member, i) => {
+      if (!receivingOldAgePension[i] || !member.oldAgePension) return 0;
+      const dependentSpouse = members.some((other, j) => 
+        j !== i && !receivingOldAgePension[j] && isRetired(other, m)
+      );
+      return (member.oldAgePension.amount + (dependentSpouse ? OLD_AGE_PENSION_SPOUSE_SUPPLEMENT : 0)) * inflationIndex;
+    });
+    const monthlyOldAgePension = sumValues(oldAgePensions);
+    // Taxed like the annuity at year end; Bituach Leumi withholds nothing
+    oldAgePensions.forEach((amount, i) => {
+      yearAnnuity[i] += amount;
+    });
+
+    studyFunds.forEach(fund => {
+      fund.value *= (1 + monthReturn);
+      if (m === fund.liquidMonth) eventLabels.push("קרן השתלמות נזילה");
+    });
+
+    // Handle equity (cash flows don't depend on the rest of the simulation)
+    for (const inflow of equityCashFlows[m]) {
+      yearEquity += inflow.gain;
+      yearWithheld += inflow.tax;
+      const invested = chargeDepositFee(inflow.amount, investmentFees);
+      addToBasis(invested);
+      depositToPortfolio(portfolio, invested, targetWeights);
+      if (inflow.event) eventLabels.push(inflow.event);
+    }
+
+    // Rent received, indexed to inflation: taxed on the 10% track and invested
+    const rents = members.map(member => (member.rentalIncome ?? 0) * inflationIndex);
+    const rentTotal = sumValues(rents);
+    if (rentTotal > 0) {
+      const invested = chargeDepositFee(rentTotal * (1 - RENTAL_INCOME_TAX_RATE), investmentFees);
+      addToBasis(invested);
+      depositToPortfolio(portfolio, invested, targetWeights);
     }
 
     // Handle property
     const ownsProp = curYear >= propertyConfig.year;
     if (ownsProp) {
-      if (curYear === propertyConfig.year && date.getMonth() === 0) {
-        curInv -= propertyConfig.price;
+      // Bought in January, or in the first month if the plan starts mid-year
+      if (curYear === propertyConfig.year && (date.getMonth() === 0 || m === 0)) {
+        removeFromBasis(propertyConfig.price);
+        withdrawFromPortfolio(portfolio, propertyConfig.price);
         propValue = propertyConfig.price;
         eventLabels.push(`רכישת דירה`);
       } else {
@@ -508,132 +2319,336 @@ export function runSimulation(targetWithdrawal: number, params: SimulationParams
     // Calculate monthly expenses (adjusted for inflation)
     // After buying property, we save the monthlySavings amount (e.g., rent)
     const expenseBeforeSavings = totalMonthlyExpenses;
-    const monthlyExpenseBase = (ownsProp ? expenseBeforeSavings - monthlySavingsAfterProperty : expenseBeforeSavings) * Math.pow(monthlyInflation, m);
+    const monthlyExpenseBase = (ownsProp ? expenseBeforeSavings - monthlySavingsAfterProperty : expenseBeforeSavings) * inflationIndex;
     let monthlyOut = monthlyExpenseBase;
     let monthlySavings = 0;
 
-    if (yearsPassed < stopWorkYear) {
-      // Working phase
-      income = (yearsPassed < transitionToHalfWorkYear) ? budgetSummary.totalIncomeNet : monthlyExpenseBase;
-      source = (yearsPassed < transitionToHalfWorkYear) ? "שכר מלא" : "חצי משרה";
-      curPen = (curPen * (1 + monthlyReturn)) + 
-               (yearsPassed < transitionToHalfWorkYear ? 
-                 budgetSummary.totalPensionInflow/12 : 
-                 budgetSummary.totalPensionInflow/24);
-      curInv = (curInv * (1 + monthlyReturn)) + income - monthlyOut;
+    // A new life phase is an event from the second month on
+    members.forEach(member => {
+      const phase = m > 0 ? member.phases?.find(p => p.startMonth === m) : undefined;
+      if (phase) {
+        const label = getLifePhaseLabel(phase);
+        eventLabels.push(members.length > 1 ? `${label} (${member.name})` : label);
+      }
+    });
+
+    if (members.some(member => !isRetired(member, m))) {
+      // Working phase - as long as anyone still works
+      let salaryIncome = 0;
+      const sources = new Set<string>();
+      members.forEach((member, i) => {
+        if (isRetired(member, m)) {
+          updateRetiredPension(i);
+          return;
+        }
+        const phase = memberPhase(member, m);
+        const fullTime = phase ? phase.type === 'fullTime' : yearsPassed < member.transitionToHalfWorkYear;
+        // Pay of a life phase or a part-time job; without either, half-time work on half the salary
+        const job = fullTime ? undefined : phase ?? member.partTime;
+        const { netIncome, grossIncome, pensionInflow } = fullTime 
+          ? memberPay(member, m) 
+          : job ? jobPay(job) : halfTimePay(member, m);
+        yearSalary[i] += grossIncome;
+        salaryIncome += netIncome;
+        sources.add(fullTime ? "שכר מלא" : phase ? getLifePhaseLabel(phase) : job ? `משרה ${job.jobPercent}%` : "חצי משרה");
+        pensions[i] = (pensions[i] * (1 + monthReturn)) + chargeDepositFee(pensionInflow/12, member.pensionFees);
+        // Employer and employee contributions go to the member's first study fund
+        const studyFund = studyFunds.find(fund => fund.owner === i);
+        if (studyFund && (!phase || SALARIED_PHASES.includes(phase.type))) {
+          const insuredSalary = Math.min(grossIncome, STUDY_FUND_SALARY_CEILING * inflationIndex);
+          studyFund.value += chargeDepositFee(insuredSalary * (STUDY_FUND_EMPLOYER_RATE + EMPLOYEE_STUDY_FUND_RATE), studyFund.fees);
+        }
+      });
+      currentPensionAnnuity = sumValues(annuities);
+      recordAnnuities();
+      yearWithheld += sumValues(annuities.map((annuity, i) => grossAnnuity(i) - annuity));
+      if (currentPensionAnnuity > 0) sources.add("קצבת פנסיה");
+      if (monthlyOldAgePension > 0) sources.add("קצבת זקנה");
+      income = salaryIncome + currentPensionAnnuity + monthlyOldAgePension;
+      source = Array.from(sources).join(" + ");
+      growPortfolio();
       monthlySavings = income - monthlyOut;
+      const invested = chargeDepositFee(monthlySavings, investmentFees);
+      if (invested >= 0) {
+        addToBasis(invested);
+      } else {
+        removeFromBasis(-invested);
+      }
+      applyPortfolioCashFlow(portfolio, invested, targetWeights);
     } else {
-      // Retirement phase - target withdrawal is constant (adjusted for inflation)
-      const desiredWithdrawal = targetWithdrawal * Math.pow(monthlyInflation, m);
+      // Retirement phase - the strategy sets the real withdrawal once a year (constant by default)
+      if (retirementStartMonth === null) retirementStartMonth = m;
+      const isRetirementYearStart = (m - retirementStartMonth) % 12 === 0;
+      if (withdrawalStrategy && withdrawalStrategy.type !== 'constant' && isRetirementYearStart) {
+        // The annuity counts at its present value over the remaining years,
+        // so converting the pension doesn't look like a loss
+        const yearsLeft = endOfLifeAge - curAge;
+        const annuityValue = (sumValues(annuities) + monthlyOldAgePension) * 12 / calculateVpwRate(returnRate - inflationRate, yearsLeft);
+        const wealth = (portfolioTotal(portfolio) + sumValues(pensions) + studyFundTotal() + annuityValue) / inflationIndex;
+        if (m === retirementStartMonth) {
+          initialStrategyWealth = wealth;
+          initialYearsLeft = yearsLeft;
+        } else {
+          realWithdrawal = WITHDRAWAL_STRATEGIES[withdrawalStrategy.type]({
+            initialWithdrawal: targetWithdrawal,
+            initialWealth: initialStrategyWealth,
+            initialYearsLeft,
+            previousWithdrawal: realWithdrawal,
+            wealth,
+            yearsLeft,
+            realReturn: returnRate - inflationRate,
+            lastYearReturn: yearMarketGrowth - 1,
+            lastYearInflation: inflationIndex / yearStartInflationIndex,
+          }, withdrawalStrategy);
+        }
+        yearStartInflationIndex = inflationIndex;
+        yearMarketGrowth = 1;
+      }
+      const desiredWithdrawal = realWithdrawal * inflationIndex;
       monthlyOut = desiredWithdrawal;
       
-      if (curAge < 60) {
+      // Bucket strategy: once a year, top up the safe bucket from stocks
+      if (bucketStrategy && isRetirementYearStart) {
+        const bucketTarget = bucketStrategy.years * 12 * desiredWithdrawal;
+        const refill = Math.min(
+          Math.max(0, bucketTarget - portfolio[bucketStrategy.assetClass]), 
+          Math.max(0, portfolio.stocks)
+        );
+        if (refill > 0) {
+          portfolio.stocks -= refill;
+          portfolio[bucketStrategy.assetClass] += refill;
+          eventLabels.push("מילוי דלי");
+        }
+      }
+      
+      if (memberAges.every(age => age < 60)) {
         // Before age 60: Early withdrawal with marginal tax brackets
         // Non-employment income: 31% up to 269K, 35% up to 560K, 47% up to 721K, 52% above
         // First try to withdraw from investments (25% capital gains tax)
         // If not enough, withdraw from pension (marginal income tax)
         
         // Apply growth first
-        curInv *= (1 + monthlyReturn);
-        curPen *= (1 + monthlyReturn);
+        growPortfolio();
+        members.forEach((_, i) => updateRetiredPension(i));
+        const curInv = portfolioTotal(portfolio);
         
         // Annualize for tax bracket calculation
-        const annualWithdrawal = desiredWithdrawal * 12;
+        // In net mode the investment withdrawal is grossed up so the tax comes on top of spending;
+        // otherwise the tax is embedded in the withdrawal
+        const gainRatio = realGainRatio();
+        const investmentNeed = desiredWithdrawal - drawStudyFunds(desiredWithdrawal);
+        const investmentWithdrawal = netSpending 
+          ? calculateGrossForNetInvestmentWithdrawal(investmentNeed, 0, gainRatio) 
+          : investmentNeed;
+        const annualWithdrawal = investmentWithdrawal * 12;
         
-        if (curInv >= desiredWithdrawal) {
+        if (curInv >= investmentWithdrawal) {
           // Can cover entirely from investments
-          withdrawalFromInvestments = desiredWithdrawal;
-          const invTax = calculateInvestmentWithdrawalTax(desiredWithdrawal, annualWithdrawal);
+          withdrawalFromInvestments = investmentWithdrawal;
+          const invTax = calculateInvestmentWithdrawalTax(investmentWithdrawal, annualWithdrawal, gainRatio);
           taxPaid = invTax;
-          // Withdraw gross amount (tax is embedded)
-          curInv -= desiredWithdrawal;
+          removeFromBasis(investmentWithdrawal);
+          withdrawFromPortfolio(portfolio, investmentWithdrawal, withdrawalOrder);
           source = "משיכה מהשקעות";
         } else {
           // Need to withdraw from pension too
           withdrawalFromInvestments = Math.max(0, curInv);
-          const invTax = calculateInvestmentWithdrawalTax(withdrawalFromInvestments, annualWithdrawal);
-          curInv = 0;
+          const invTax = calculateInvestmentWithdrawalTax(withdrawalFromInvestments, annualWithdrawal, gainRatio);
+          removeFromBasis(curInv);
+          ASSET_CLASSES.forEach(cls => { portfolio[cls] = 0; });
           
           // Remaining needed from pension (with marginal tax brackets)
-          const remainingNeeded = desiredWithdrawal - withdrawalFromInvestments;
-          // Calculate annual gross needed and convert to monthly
-          const annualGrossFromPension = calculateGrossForDesiredNet(remainingNeeded * 12, 0);
-          const monthlyGrossFromPension = annualGrossFromPension / 12;
-          withdrawalFromPension = monthlyGrossFromPension;
-          
-          const pensionTaxResult = calculateEarlyPensionWithdrawal(monthlyGrossFromPension * 12, 0);
-          const pensionTaxMonthly = pensionTaxResult.taxPaid / 12;
-          
-          curPen -= monthlyGrossFromPension;
-          taxPaid = invTax + pensionTaxMonthly;
+          const remainingNeeded = investmentNeed - (netSpending ? withdrawalFromInvestments - invTax : withdrawalFromInvestments);
+          const earlyPension = withdrawEarlyPension(remainingNeeded);
+          withdrawalFromPension = earlyPension.gross;
+          taxPaid = invTax + earlyPension.tax;
           
           // Show effective rate in source description
-          const effectiveRate = Math.round(pensionTaxResult.effectiveRate * 100);
+          const effectiveRate = Math.round(earlyPension.effectiveRate * 100);
           source = `משיכה מהון + פנסיה (מס ${effectiveRate}%)`;
         }
         
+        grossWithdrawal = withdrawalFromStudyFunds + withdrawalFromInvestments + withdrawalFromPension;
         income = 0;
       } else {
-        // Age 60+: Convert pension to annuity on first month
-        if (curPen > 0 && monthlyAnnuity === 0) {
-          // Convert pension balance to monthly annuity
-          const grossAnnuity = calculatePensionAnnuity(curPen);
-          const annuityTax = calculatePensionAnnuityTax(grossAnnuity);
-          monthlyAnnuity = grossAnnuity - annuityTax;
-          curPen = 0;
-          eventLabels.push("המרה לקצבת פנסיה");
-        }
-        
-        // Annuity grows with inflation each month
-        if (m > 0) {
-          monthlyAnnuity *= monthlyInflation;
+        // Age 60+: Convert each member's pension to an annuity when they reach 60
+        // Annuities grow with inflation each month
+        members.forEach((_, i) => updateRetiredPension(i));
+        // A member past 60 who planned a later annuity starts it early once investments run out
+        if (portfolioTotal(portfolio) <= 0) {
+          members.forEach((_, i) => {
+            if (memberAges[i] >= MIN_ANNUITY_AGE && pensions[i] > 0 && annuities[i] === 0) convertToAnnuity(i);
+          });
         }
+        const monthlyAnnuity = sumValues(annuities);
         currentPensionAnnuity = monthlyAnnuity;
+        recordAnnuities();
+        // The old-age pension comes on top of the annuity
+        const guaranteedIncome = monthlyAnnuity + monthlyOldAgePension;
+        const guaranteedSource = monthlyOldAgePension > 0 ? " + קצבת זקנה" : "";
         
         // Apply investment growth
-        curInv *= (1 + monthlyReturn);
+        growPortfolio();
         
         // Calculate how much more we need beyond the annuity
-        if (desiredWithdrawal <= monthlyAnnuity) {
+        if (desiredWithdrawal <= guaranteedIncome) {
           // Annuity covers everything
-          income = monthlyAnnuity;
+          income = guaranteedIncome;
           withdrawalFromPension = monthlyAnnuity;
           withdrawalFromInvestments = 0;
-          taxPaid = monthlyAnnuity * (FIXED_PENSION_TAX / (1 - FIXED_PENSION_TAX)); // Already deducted
-          source = "קצבת פנסיה";
+          taxPaid = sumValues(annuities.map((annuity, i) => grossAnnuity(i) - annuity)); // Already deducted
+          grossWithdrawal = monthlyAnnuity + taxPaid + monthlyOldAgePension;
+          source = monthlyAnnuity === 0 && monthlyOldAgePension > 0 ? "קצבת זקנה" : `קצבת פנסיה${guaranteedSource}`;
           // Excess annuity goes back to investments
-          curInv += (monthlyAnnuity - desiredWithdrawal);
+          const excess = chargeDepositFee(guaranteedIncome - desiredWithdrawal, investmentFees);
+          addToBasis(excess);
+          depositToPortfolio(portfolio, excess, targetWeights);
         } else {
           // Need to supplement from investments
-          const gapNeeded = desiredWithdrawal - monthlyAnnuity;
+          const gapNeeded = desiredWithdrawal - guaranteedIncome - drawStudyFunds(desiredWithdrawal - guaranteedIncome);
           withdrawalFromPension = monthlyAnnuity;
-          withdrawalFromInvestments = gapNeeded;
           
           // Tax on annuity (already deducted) + capital gains on investment withdrawal
-          const annuityGross = monthlyAnnuity / (1 - FIXED_PENSION_TAX);
-          const annuityTaxPaid = annuityGross * FIXED_PENSION_TAX;
-          const invTax = calculateInvestmentWithdrawalTax(gapNeeded, (monthlyAnnuity + gapNeeded) * 12);
-          taxPaid = annuityTaxPaid + invTax;
+          const annuityGross = sumValues(annuities.map((_, i) => grossAnnuity(i)));
+          const annuityTaxPaid = annuityGross - monthlyAnnuity;
+          const curInv = portfolioTotal(portfolio);
+          const gainRatio = realGainRatio();
+          const investmentWithdrawal = netSpending 
+            ? calculateGrossForNetInvestmentWithdrawal(gapNeeded, guaranteedIncome * 12, gainRatio) 
+            : gapNeeded;
+          const annualIncome = (guaranteedIncome + investmentWithdrawal) * 12;
+          const earlyPensionBalance = sumValues(members.map((_, i) => (memberAges[i] < 60 ? Math.max(0, pensions[i]) : 0)));
+          withdrawalFromInvestments = investmentWithdrawal;
+          income = guaranteedIncome;
           
-          curInv -= gapNeeded;
-          income = monthlyAnnuity;
-          source = "קצבה + השקעות";
+          if (curInv < investmentWithdrawal && earlyPensionBalance > 0) {
+            // A member under 60 draws early from their pension once investments run out
+            withdrawalFromInvestments = Math.max(0, curInv);
+            const invTax = calculateInvestmentWithdrawalTax(withdrawalFromInvestments, annualIncome, gainRatio);
+            removeFromBasis(curInv);
+            ASSET_CLASSES.forEach(cls => { portfolio[cls] = 0; });
+            const earlyPension = withdrawEarlyPension(
+              gapNeeded - (netSpending ? withdrawalFromInvestments - invTax : withdrawalFromInvestments)
+            );
+            withdrawalFromPension += earlyPension.gross;
+            taxPaid = annuityTaxPaid + invTax + earlyPension.tax;
+            grossWithdrawal = annuityGross + monthlyOldAgePension + withdrawalFromStudyFunds + withdrawalFromInvestments + earlyPension.gross;
+            source = `קצבה${guaranteedSource} + השקעות + פנסיה`;
+          } else {
+            const invTax = calculateInvestmentWithdrawalTax(investmentWithdrawal, annualIncome, gainRatio);
+            taxPaid = annuityTaxPaid + invTax;
+            grossWithdrawal = annuityGross + monthlyOldAgePension + withdrawalFromStudyFunds + investmentWithdrawal;
+            
+            removeFromBasis(investmentWithdrawal);
+            withdrawFromPortfolio(portfolio, investmentWithdrawal, withdrawalOrder);
+            source = `קצבה${guaranteedSource} + השקעות`;
+          }
         }
       }
       
+      if (withdrawalFromStudyFunds > 0) {
+        source = grossWithdrawal > withdrawalFromStudyFunds ? `קרן השתלמות + ${source}` : "קרן השתלמות";
+      }
       monthlySavings = income - monthlyOut;
+      yearWithheld += taxPaid;
     }
+    
+    // Members who stopped working pay Bituach Leumi and health tax until pension age,
+    // on their pension and rental income or the minimum, as far as the portfolio can pay
+    let nationalInsurance = 0;
+    if (retireeNationalInsurance) {
+      members.forEach((member, i) => {
+        const pensionAge = member.pensionAge ?? MALE_OLD_AGE_PENSION_AGE;
+        if (!isRetired(member, m) || memberAges[i] >= pensionAge) return;
+        const passiveIncome = monthEarlyPension[i] + grossAnnuity(i) + rents[i];
+        nationalInsurance += calculateNonWorkingNationalInsurance(passiveIncome, inflationIndex);
+      });
+      if (nationalInsurance > 0) {
+        removeFromBasis(nationalInsurance);
+        withdrawFromPortfolio(portfolio, nationalInsurance, withdrawalOrder);
+        monthlySavings -= nationalInsurance;
+      }
+    }
+    
+    // Management fees: a twelfth of the annual rate on each balance
+    const chargeBalanceFee = (balance: number, fees?: ManagementFees) => {
+      if (!fees || balance <= 0) return 0;
+      const fee = balance * fees.balanceFee / 1200;
+      totalFees += fee;
+      return fee;
+    };
+    members.forEach((member, i) => {
+      pensions[i] -= chargeBalanceFee(pensions[i], member.pensionFees);
+    });
+    studyFunds.forEach(fund => {
+      fund.value -= chargeBalanceFee(fund.value, fund.fees);
+    });
+    ASSET_CLASSES.forEach(cls => {
+      portfolio[cls] -= chargeBalanceFee(portfolio[cls], investmentFees);
+    });
 
-    const liquidWealth = Math.max(0, curInv + curPen);
+    // Year-end tax true-up: each member's tax on the year's combined income,
+    // less what was withheld (payroll is assumed to withhold the tax on salary alone, using the
+    // credit points first; early pension withholding only got what was left of them)
+    if (annualTaxTrueUp && (date.getMonth() === 11 || m === totalMonths)) {
+      const gainsShare = 1 / members.length;
+      let annualTax = 0;
+      let withheld = yearWithheld;
+      members.forEach((_, i) => {
+        // Rent is taxed on the final 10% track, outside the annual tax
+        const salaryOnly = { salary: yearSalary[i], annuity: 0, earlyPension: 0, rental: 0, capitalGains: 0, equity: 0 };
+        annualTax += calculateAnnualTax({
+          ...salaryOnly,
+          annuity: yearAnnuity[i],
+          earlyPension: yearEarlyPension[i],
+          capitalGains: yearCapitalGains * gainsShare,
+          equity: yearEquity * gainsShare,
+        }, memberCredits[i]).total;
+        withheld += calculateAnnualTax(salaryOnly, memberCredits[i]).total;
+      });
+      const trueUp = annualTax - withheld;
+      
+      members.forEach((_, i) => {
+        yearSalary[i] = 0;
+        yearAnnuity[i] = 0;
+        yearEarlyPension[i] = 0;
+      });
+      yearCapitalGains = 0;
+      yearEquity = 0;
+      yearWithheld = 0;
+      
+      if (Math.abs(trueUp) >= 1) {
+        // Paid from (or refunded into) the portfolio; selling to pay counts toward next year
+        if (trueUp > 0) {
+          removeFromBasis(trueUp);
+        } else {
+          addToBasis(-trueUp);
+        }
+        applyPortfolioCashFlow(portfolio, -trueUp, targetWeights, withdrawalOrder);
+        pendingTrueUp += trueUp;
+        eventLabels.push(trueUp > 0 ? "תשלום מס שנתי" : "החזר מס שנתי");
+      }
+    }
 
-    if (m % 3 === 0 || m < 36) {
+    const curInv = portfolioTotal(portfolio);
+    const curPen = sumValues(pensions);
+    const curStudyFunds = studyFundTotal();
+    // A study fund counts toward solvency only once it can be withdrawn
+    const liquidStudyFunds = sumValues(studyFunds.filter(fund => m >= fund.liquidMonth).map(fund => fund.value));
+    const liquidWealth = Math.max(0, curInv + curPen + liquidStudyFunds);
+
+    // Every quarter, monthly for the first three years, and the last month for the final totals
+    if (m % 3 === 0 || m < 36 || m === totalMonths) {
       data.push({ 
         index: m, 
         label: `${date.getMonth()+1}/${date.getFullYear()}`, 
         fullAge: curAge.toFixed(1), 
-        totalLegacy: Math.round(liquidWealth + propValue), 
+        totalLegacy: Math.round(Math.max(0, curInv + curPen + curStudyFunds) + propValue), 
         liquidWealth: Math.round(liquidWealth), 
         investments: Math.round(Math.max(0, curInv)), 
+        investmentsStocks: Math.round(Math.max(0, portfolio.stocks)),
+        investmentsBonds: Math.round(Math.max(0, portfolio.bonds)),
+        investmentsCash: Math.round(Math.max(0, portfolio.cash)),
         pension: Math.round(Math.max(0, curPen)), 
         property: Math.round(propValue), 
         monthlyOutflow: Math.round(monthlyOut), 
@@ -646,10 +2661,224 @@ export function runSimulation(targetWithdrawal: number, params: SimulationParams
         withdrawalFromInvestments: Math.round(withdrawalFromInvestments),
         withdrawalFromPension: Math.round(withdrawalFromPension),
         pensionAnnuity: Math.round(currentPensionAnnuity),
-        taxPaid: Math.round(taxPaid)
+        taxPaid: Math.round(taxPaid + grantTaxPaid),
+        grossWithdrawal: Math.round(grossWithdrawal),
+        netWithdrawal: Math.round(grossWithdrawal - taxPaid),
+        taxTrueUp: Math.round(pendingTrueUp),
+        oldAgePension: Math.round(monthlyOldAgePension),
+        nationalInsurance: Math.round(nationalInsurance),
+        realSpending: Math.round(monthlyOut / inflationIndex),
+        studyFunds: Math.round(Math.max(0, curStudyFunds)),
+        withdrawalFromStudyFunds: Math.round(withdrawalFromStudyFunds),
+        totalFees: Math.round(totalFees)
       });
+      pendingTrueUp = 0;
     }
+    
+    // Market return since the last strategy adjustment (Guyton-Klinger's inflation rule)
+    yearMarketGrowth *= (1 + monthReturn);
   }
   
   return data;
 }
+
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32)
+ * Same seed always produces the same sequence, so Monte Carlo runs are reproducible
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a standard normal sample (Box-Muller)
+ */
+function randomNormal(random: () => number): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Generate a randomized path of monthly returns
+ * Log-normal model: the median path compounds at exactly returnRate,
+ * so the deterministic simulation sits on the 50th percentile
+ * 
+ * @param returnRate - Expected annual return (%)
+ * @param volatility - Annual standard deviation of returns (%)
+ * @param months - Number of months to generate
+ * @param random - Uniform random source (use createSeededRandom)
+ */
+export function generateReturnPath(
+  returnRate: number,
+  volatility: number,
+  months: number,
+  random: () => number
+): number[] {
+  const monthlyLogMean = Math.log(1 + returnRate / 100) / 12;
+  const monthlyLogStd = (volatility / 100) / Math.sqrt(12);
+  const path: number[] = [];
+  
+  for (let m = 0; m < months; m++) {
+    path.push(Math.exp(monthlyLogMean + monthlyLogStd * randomNormal(random)) - 1);
+  }
+  
+  return path;
+}
+
+/**
+ * Get a percentile from a sorted array (linear interpolation)
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * p;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+export interface MonteCarloOptions {
+  volatility: number; // Annual standard deviation of returns (%)
+  runs?: number;
+  seed?: number;
+}
+
+export const MONTE_CARLO_DEFAULT_RUNS = 300;
+export const MONTE_CARLO_DEFAULT_SEED = 42;
+
+/**
+ * Run the simulation over many randomized return paths
+ * 
+ * @param targetWithdrawal - Monthly withdrawal in retirement (today's money)
+ * @param params - Simulation parameters (returnRate is the expected return)
+ * @param options - Volatility, number of runs and RNG seed
+ * @returns Probability of never running out of liquid wealth and 10/50/90 percentile bands
+ */
+export function runMonteCarlo(
+  targetWithdrawal: number,
+  params: SimulationParams,
+  options: MonteCarloOptions
+): MonteCarloResult {
+  const runs = options.runs ?? MONTE_CARLO_DEFAULT_RUNS;
+  const random = createSeededRandom(options.seed ?? MONTE_CARLO_DEFAULT_SEED);
+  const totalMonths = Math.round((params.endOfLifeAge - params.initialAge) * 12) + 1;
+  
+  let successes = 0;
+  const valuesByPoint: number[][] = [];
+  let indexes: number[] = [];
+  
+  for (let run = 0; run < runs; run++) {
+    const monthlyReturns = generateReturnPath(params.returnRate, options.volatility, totalMonths, random);
+    const data = runSimulation(targetWithdrawal, { ...params, monthlyReturns });
+    
+    if (!hasRunOutOfMoney(data, params)) {
+      successes++;
+    }
+    
+    if (run === 0) {
+      indexes = data.map(p => p.index);
+      data.forEach(() => valuesByPoint.push([]));
+    }
+    data.forEach((p, i) => valuesByPoint[i].push(p.totalLegacy));
+  }
+  
+  const bands: MonteCarloBand[] = valuesByPoint.map((values, i) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      index: indexes[i],
+      p10: Math.round(percentile(sorted, 0.1)),
+      p50: Math.round(percentile(sorted, 0.5)),
+      p90: Math.round(percentile(sorted, 0.9)),
+    };
+  });
+  
+  return {
+    successProbability: runs > 0 ? successes / runs : 0,
+    runs,
+    bands,
+  };
+}
+
+export interface BacktestOptions {
+  ta125Share?: number; // Share of the portfolio in TA-125 (0-1), the rest in S&P 500 (ILS)
+}
+
+/**
+ * Replay the simulation against every possible historical start year (cFIREsim style)
+ * 
+ * Each start year feeds the annual returns and CPI of the following years, month by month.
+ * The bundled history is shorter than a full lifetime, so sequences wrap around to the
+ * first year when they run past the last one. Such a sequence never happened, so wrapped
+ * start years are marked and left out of the success rate.
+ * 
+ * @param targetWithdrawal - Monthly withdrawal in retirement (today's money)
+ * @param params - Simulation parameters (returnRate and inflationRate are ignored)
+ * @param history - Annual returns and inflation, ordered by year
+ * @param options - Portfolio mix between TA-125 and S&P 500
+ */
+export function runHistoricalBacktest(
+  targetWithdrawal: number,
+  params: SimulationParams,
+  history: HistoricalYear[],
+  options: BacktestOptions = {}
+): BacktestResult {
+  const ta125Share = options.ta125Share ?? 0.5;
+  const totalMonths = Math.round((params.endOfLifeAge - params.initialAge) * 12) + 1;
+  const yearsNeeded = Math.floor((totalMonths - 1) / 12) + 1;
+  const results: BacktestStartYearResult[] = [];
+  
+  history.forEach((startYear, startIdx) => {
+    const monthlyReturns: number[] = [];
+    const monthlyInflationFactors: number[] = [];
+    
+    for (let m = 0; m < totalMonths; m++) {
+      const year = history[(startIdx + Math.floor(m / 12)) % history.length];
+      const annualReturn = ta125Share * year.ta125 + (1 - ta125Share) * year.sp500Ils;
+      monthlyReturns.push(calculateMonthlyReturn(annualReturn));
+      monthlyInflationFactors.push(calculateMonthlyInflation(year.cpi));
+    }
+    
+    const data = runSimulation(targetWithdrawal, { ...params, monthlyReturns, monthlyInflationFactors });
+    const depleted = findDepletion(data, params);
+    
+    results.push({
+      startYear: startYear.year,
+      success: depleted === undefined,
+      depletionAge: depleted ? parseFloat(depleted.fullAge) : null,
+      finalWealth: data[data.length - 1].liquidWealth,
+      minLiquidWealth: Math.min(...data.map(p => p.liquidWealth)),
+      wrapped: startIdx + yearsNeeded > history.length,
+    });
+  });
+  
+  const fitting = results.filter(r => !r.wrapped);
+  const successes = fitting.filter(r => r.success).length;
+  
+  return {
+    successRate: fitting.length > 0 ? successes / fitting.length : null,
+    results,
+  };
+}
+
+/**
+ * Sort backtest results from worst to best start year
+ * Earliest depletion first, then lowest final wealth
+ */
+export function getWorstStartYears(result: BacktestResult, count: number = 5): BacktestStartYearResult[] {
+  return [...result.results]
+    .sort((a, b) => {
+      const depletionA = a.depletionAge ?? Infinity;
+      const depletionB = b.depletionAge ?? Infinity;
+      if (depletionA !== depletionB) return depletionA - depletionB;
+      return a.finalWealth - b.finalWealth;
+    })
+    .slice(0, count);
+}
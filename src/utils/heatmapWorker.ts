@@ -0,0 +1,12 @@
+import { calculateRetirementHeatmap } from './calculations';
+import type { SimulationParams } from './calculations';
+
+const worker = self as unknown as Worker;
+
+/**
+ * Compute the retirement timing heatmap off the main thread
+ * Receives the plan's simulation parameters and posts back the finished heatmap
+ */
+worker.onmessage = (e: MessageEvent<SimulationParams>) => {
+  worker.postMessage(calculateRetirementHeatmap(e.data));
+};
@@ -2,8 +2,13 @@ import type {
   Asset,
   Expense,
   SalaryData,
+  HouseholdMember,
   PropertyConfig,
   EquityContract,
+  AssetClassReturns,
+  BucketStrategy,
+  GlidePath,
+  WithdrawalStrategy,
 } from '../types';
 
 /**
@@ -32,21 +37,52 @@ export interface PropertyPlan {
   config: PropertyConfig;
 }
 
+/**
+ * Asset class returns and bucket strategy (optional)
+ */
+export interface AssetClassPlan {
+  enabled: boolean; // When disabled, all investments earn the main return rate
+  returns: AssetClassReturns;
+  bucketEnabled: boolean;
+  bucket: BucketStrategy;
+  glidePathEnabled: boolean;
+  glidePath: GlidePath;
+  comparisonGlidePath: GlidePath; // Second glide path shown side by side in the scenario tab
+}
+
+/**
+ * Asset class plan as saved; the glide path fields were added later, so older files may not have them
+ */
+export interface SavedAssetClassPlan extends Omit<AssetClassPlan, 'glidePathEnabled' | 'glidePath' | 'comparisonGlidePath'> {
+  glidePathEnabled?: boolean;
+  glidePath?: GlidePath;
+  comparisonGlidePath?: GlidePath;
+}
+
 /**
  * Complete app state for export/import
  */
 export interface AppExportData {
   version: string;
   exportDate: string;
+  asOfDate?: string; // Plan start (YYYY-MM-DD); files without it start in January 2026
   initialAge: number;
   assets: Asset[];
   monthlyExpenses: Expense[];
   yearlyExpenses: Expense[];
-  salaryData: SalaryData;
+  salaryData: SalaryData; // First two household members, for files read by older versions
+  household?: HouseholdMember[]; // Files without it are migrated from salaryData and initialAge
   equityCompanies: EquityCompany[];
   propertyPlan: PropertyPlan;
+  assetClassPlan?: SavedAssetClassPlan;
+  withdrawalStrategy?: WithdrawalStrategy;
+  netSpending?: boolean; // Withdrawals are grossed up for tax; files without it embed the tax
+  annualTaxTrueUp?: boolean; // Year-end tax settlement; files without it have none
+  oldAgePension?: boolean; // Bituach Leumi old-age pension; files without it have none
+  retireeNationalInsurance?: boolean; // Bituach Leumi payments of early retirees; files without it have none
   simulationParams: {
     returnRate: number;
+    volatility?: number; // Annual std dev of returns (%), for Monte Carlo mode
     inflationRate: number;
     transitionToHalfWorkYear: number;
     stopWorkYear: number;
@@ -86,8 +122,31 @@ export function validateAsset(asset: unknown, index: number): string[] {
   if (typeof a.value !== 'number' || isNaN(a.value)) {
     errors.push(`Asset ${index}: Missing or invalid 'value' (must be number)`);
   }
-  if (!['pension', 'liquid', 'invest'].includes(a.type as string)) {
-    errors.push(`Asset ${index}: Invalid 'type' (must be pension, liquid, or invest)`);
+  if (!['pension', 'liquid', 'invest', 'hishtalmut'].includes(a.type as string)) {
+    errors.push(`Asset ${index}: Invalid 'type' (must be pension, liquid, invest, or hishtalmut)`);
+  }
+  if (a.allocation !== undefined) {
+    const alloc = a.allocation as Record<string, unknown> | null;
+    const classes = ['stocks', 'bonds', 'cash'];
+    if (!alloc || typeof alloc !== 'object' || 
+        classes.some(c => typeof alloc[c] !== 'number' || isNaN(alloc[c] as number) || (alloc[c] as number) < 0)) {
+      errors.push(`Asset ${index}: Invalid 'allocation' (stocks, bonds and cash must be non-negative numbers)`);
+    }
+  }
+  if (a.costBasis !== undefined && (typeof a.costBasis !== 'number' || isNaN(a.costBasis) || a.costBasis < 0)) {
+    errors.push(`Asset ${index}: Invalid 'costBasis' (must be non-negative number)`);
+  }
+  if (a.ownerId !== undefined && typeof a.ownerId !== 'string') {
+    errors.push(`Asset ${index}: Invalid 'ownerId' (must be string)`);
+  }
+  if (a.openDate !== undefined && validateAsOfDate(a.openDate).length > 0) {
+    errors.push(`Asset ${index}: Invalid 'openDate' (must be YYYY-MM-DD)`);
+  }
+  for (const field of ['balanceFee', 'depositFee']) {
+    const fee = a[field];
+    if (fee !== undefined && (typeof fee !== 'number' || isNaN(fee) || fee < 0 || fee > 100)) {
+      errors.push(`Asset ${index}: Invalid '${field}' (must be 0-100)`);
+    }
   }
   
   return errors;
@@ -140,6 +199,313 @@ export function validateSalaryData(salary: unknown): string[] {
   return errors;
 }
 
+/**
+ * Validate a member's credit points profile
+ */
+export function validateCreditPointsProfile(profile: unknown, memberName: string): string[] {
+  const errors: string[] = [];
+  if (!profile || typeof profile !== 'object') {
+    errors.push(`Credit points (${memberName}): Invalid object`);
+    return errors;
+  }
+  
+  const p = profile as Record<string, unknown>;
+  
+  if (p.gender !== 'male' && p.gender !== 'female') {
+    errors.push(`Credit points (${memberName}): Invalid 'gender' (must be male or female)`);
+  }
+  if (!Array.isArray(p.childBirthYears) || p.childBirthYears.some(year => typeof year !== 'number' || !Number.isInteger(year))) {
+    errors.push(`Credit points (${memberName}): 'childBirthYears' must be an array of years`);
+  }
+  if (!['none', 'bachelor', 'master', 'doctorate'].includes(p.degree as string)) {
+    errors.push(`Credit points (${memberName}): Invalid 'degree'`);
+  }
+  if (typeof p.degreeYear !== 'number' || !Number.isInteger(p.degreeYear)) {
+    errors.push(`Credit points (${memberName}): Invalid 'degreeYear' (must be a year)`);
+  }
+  for (const field of ['immigrationDate', 'dischargeDate']) {
+    if (p[field] !== undefined && validateAsOfDate(p[field]).length > 0) {
+      errors.push(`Credit points (${memberName}): Invalid '${field}' (must be YYYY-MM-DD)`);
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a member's annuity options
+ */
+export function validateAnnuityOptions(options: unknown, memberName: string): string[] {
+  const errors: string[] = [];
+  if (!options || typeof options !== 'object') {
+    errors.push(`Annuity (${memberName}): Invalid object`);
+    return errors;
+  }
+  
+  const o = options as Record<string, unknown>;
+  
+  if (typeof o.startAge !== 'number' || isNaN(o.startAge) || o.startAge < 60 || o.startAge > 70) {
+    errors.push(`Annuity (${memberName}): Invalid 'startAge' (must be 60-70)`);
+  }
+  if (![0, 60, 120, 180, 240].includes(o.guaranteeMonths as number)) {
+    errors.push(`Annuity (${memberName}): Invalid 'guaranteeMonths' (must be 0, 60, 120, 180 or 240)`);
+  }
+  if (typeof o.survivorPercent !== 'number' || isNaN(o.survivorPercent) || o.survivorPercent < 0 || o.survivorPercent > 100) {
+    errors.push(`Annuity (${memberName}): Invalid 'survivorPercent' (must be 0-100)`);
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a member's rights fixing allocation
+ */
+export function validateRightsFixingOptions(options: unknown, memberName: string): string[] {
+  const errors: string[] = [];
+  if (!options || typeof options !== 'object') {
+    errors.push(`Rights fixing (${memberName}): Invalid object`);
+    return errors;
+  }
+  
+  const o = options as Record<string, unknown>;
+  
+  if (typeof o.severanceGrants !== 'number' || isNaN(o.severanceGrants) || o.severanceGrants < 0) {
+    errors.push(`Rights fixing (${memberName}): Invalid 'severanceGrants' (must be non-negative)`);
+  }
+  if (typeof o.annuityShare !== 'number' || isNaN(o.annuityShare) || o.annuityShare < 0 || o.annuityShare > 100) {
+    errors.push(`Rights fixing (${memberName}): Invalid 'annuityShare' (must be 0-100)`);
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a member's pension contribution settings
+ */
+export function validatePensionContributions(contributions: unknown, memberName: string): string[] {
+  const errors: string[] = [];
+  if (!contributions || typeof contributions !== 'object') {
+    errors.push(`Pension contributions (${memberName}): Invalid object`);
+    return errors;
+  }
+  
+  const c = contributions as Record<string, unknown>;
+  
+  for (const field of ['employeeRate', 'employerRate', 'severanceRate']) {
+    const rate = c[field];
+    if (typeof rate !== 'number' || isNaN(rate) || rate < 0 || rate > 100) {
+      errors.push(`Pension contributions (${memberName}): Invalid '${field}' (must be 0-100)`);
+    }
+  }
+  for (const field of ['salaryCeiling', 'voluntaryDeposit']) {
+    const amount = c[field];
+    if (typeof amount !== 'number' || isNaN(amount) || amount < 0) {
+      errors.push(`Pension contributions (${memberName}): Invalid '${field}' (must be non-negative)`);
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a member's dated salary steps
+ */
+export function validateSalarySteps(steps: unknown, memberName: string): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(steps)) {
+    errors.push(`Salary steps (${memberName}): Must be an array`);
+    return errors;
+  }
+  
+  steps.forEach((step, i) => {
+    const s = (step ?? {}) as Record<string, unknown>;
+    if (typeof s.date !== 'string' || validateAsOfDate(s.date).length > 0) {
+      errors.push(`Salary step ${i} (${memberName}): Invalid 'date' (must be YYYY-MM-DD)`);
+    }
+    for (const field of ['grossSalary', 'netSalary']) {
+      const amount = s[field];
+      if (typeof amount !== 'number' || isNaN(amount) || amount < 0) {
+        errors.push(`Salary step ${i} (${memberName}): Invalid '${field}' (must be non-negative)`);
+      }
+    }
+  });
+  
+  return errors;
+}
+
+/**
+ * Validate a member's part-time job
+ */
+export function validatePartTimeJob(partTime: unknown, memberName: string): string[] {
+  const errors: string[] = [];
+  if (!partTime || typeof partTime !== 'object') {
+    errors.push(`Part-time job (${memberName}): Invalid object`);
+    return errors;
+  }
+  
+  const p = partTime as Record<string, unknown>;
+  
+  if (typeof p.jobPercent !== 'number' || isNaN(p.jobPercent) || p.jobPercent <= 0 || p.jobPercent > 100) {
+    errors.push(`Part-time job (${memberName}): Invalid 'jobPercent' (must be 1-100)`);
+  }
+  for (const field of ['grossSalary', 'netSalary']) {
+    const amount = p[field];
+    if (typeof amount !== 'number' || isNaN(amount) || amount < 0) {
+      errors.push(`Part-time job (${memberName}): Invalid '${field}' (must be non-negative)`);
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a member's life phases
+ */
+export function validateLifePhases(phases: unknown, memberName: string): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(phases)) {
+    errors.push(`Life phases (${memberName}): Must be an array`);
+    return errors;
+  }
+  
+  const types = ['fullTime', 'partTime', 'sabbatical', 'unemployment', 'selfEmployed', 'returnToWork', 'retired'];
+  phases.forEach((phase, i) => {
+    const p = (phase ?? {}) as Record<string, unknown>;
+    if (typeof p.id !== 'string') {
+      errors.push(`Life phase ${i} (${memberName}): Invalid 'id'`);
+    }
+    if (!types.includes(p.type as string)) {
+      errors.push(`Life phase ${i} (${memberName}): Invalid 'type' (must be ${types.join(', ')})`);
+    }
+    if (typeof p.startDate !== 'string' || validateAsOfDate(p.startDate).length > 0) {
+      errors.push(`Life phase ${i} (${memberName}): Invalid 'startDate' (must be YYYY-MM-DD)`);
+    }
+    if (p.endDate !== undefined && (typeof p.endDate !== 'string' || validateAsOfDate(p.endDate).length > 0 || 
+        (typeof p.startDate === 'string' && p.endDate <= p.startDate))) {
+      errors.push(`Life phase ${i} (${memberName}): Invalid 'endDate' (must be YYYY-MM-DD after the start)`);
+    }
+    if (p.jobPercent !== undefined && (typeof p.jobPercent !== 'number' || isNaN(p.jobPercent) || p.jobPercent <= 0 || p.jobPercent > 100)) {
+      errors.push(`Life phase ${i} (${memberName}): Invalid 'jobPercent' (must be 1-100)`);
+    }
+    for (const field of ['grossSalary', 'netSalary']) {
+      const amount = p[field];
+      if (amount !== undefined && (typeof amount !== 'number' || isNaN(amount) || amount < 0)) {
+        errors.push(`Life phase ${i} (${memberName}): Invalid '${field}' (must be non-negative)`);
+      }
+    }
+  });
+  
+  return errors;
+}
+
+/**
+ * Validate a household member
+ */
+export function validateHouseholdMember(member: unknown, index: number): string[] {
+  const errors: string[] = [];
+  if (!member || typeof member !== 'object') {
+    errors.push(`Household member ${index}: Invalid object`);
+    return errors;
+  }
+  
+  const m = member as Record<string, unknown>;
+  
+  if (typeof m.id !== 'string' || m.id === '') {
+    errors.push(`Household member ${index}: Missing or invalid 'id' (must be non-empty string)`);
+  }
+  if (typeof m.name !== 'string') {
+    errors.push(`Household member ${index}: Missing or invalid 'name' (must be string)`);
+  }
+  if (validateAsOfDate(m.birthDate).length > 0) {
+    errors.push(`Household member ${index}: Invalid 'birthDate' (must be YYYY-MM-DD)`);
+  }
+  for (const field of ['grossSalary', 'netSalary', 'transitionToHalfWorkYear', 'stopWorkYear']) {
+    const value = m[field];
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      errors.push(`Household member ${index}: Invalid '${field}' (must be non-negative number)`);
+    }
+  }
+  if (m.creditPoints !== undefined) {
+    errors.push(...validateCreditPointsProfile(m.creditPoints, `member ${index}`));
+  }
+  if (m.deriveNet !== undefined && typeof m.deriveNet !== 'boolean') {
+    errors.push(`Household member ${index}: 'deriveNet' must be a boolean`);
+  }
+  if (m.gender !== undefined && m.gender !== 'male' && m.gender !== 'female') {
+    errors.push(`Household member ${index}: Invalid 'gender' (must be male or female)`);
+  }
+  if (m.annuity !== undefined) {
+    errors.push(...validateAnnuityOptions(m.annuity, `member ${index}`));
+  }
+  if (m.rightsFixing !== undefined) {
+    errors.push(...validateRightsFixingOptions(m.rightsFixing, `member ${index}`));
+  }
+  if (m.pensionContributions !== undefined) {
+    errors.push(...validatePensionContributions(m.pensionContributions, `member ${index}`));
+  }
+  if (m.salaryGrowth !== undefined && (typeof m.salaryGrowth !== 'number' || isNaN(m.salaryGrowth) || m.salaryGrowth < -20 || m.salaryGrowth > 50)) {
+    errors.push(`Household member ${index}: Invalid 'salaryGrowth' (must be -20 to 50)`);
+  }
+  if (m.salarySteps !== undefined) {
+    errors.push(...validateSalarySteps(m.salarySteps, `member ${index}`));
+  }
+  if (m.partTime !== undefined) {
+    errors.push(...validatePartTimeJob(m.partTime, `member ${index}`));
+  }
+  if (m.phases !== undefined) {
+    errors.push(...validateLifePhases(m.phases, `member ${index}`));
+  }
+  if (m.rentalIncome !== undefined && (typeof m.rentalIncome !== 'number' || isNaN(m.rentalIncome) || m.rentalIncome < 0)) {
+    errors.push(`Household member ${index}: Invalid 'rentalIncome' (must be non-negative number)`);
+  }
+  if (m.insuredSinceYear !== undefined && (typeof m.insuredSinceYear !== 'number' || !Number.isInteger(m.insuredSinceYear) || m.insuredSinceYear < 1900 || m.insuredSinceYear > 2100)) {
+    errors.push(`Household member ${index}: Invalid 'insuredSinceYear' (must be a year)`);
+  }
+  
+  return errors;
+}
+
+/**
+ * Build the household from a file saved before per-person members existed:
+ * everyone shares the single age and work timeline
+ * The second salary is dropped when it is empty
+ */
+export function migrateLegacyHousehold(
+  salaryData: SalaryData,
+  initialAge: number,
+  asOfDate: string,
+  timeline: { transitionToHalfWorkYear: number; stopWorkYear: number }
+): HouseholdMember[] {
+  const [year, month, day] = asOfDate.split('-').map(Number);
+  const birthMonths = year * 12 + (month - 1) - Math.round(initialAge * 12);
+  const birthDate = [
+    String(Math.floor(birthMonths / 12)).padStart(4, '0'),
+    String((birthMonths % 12) + 1).padStart(2, '0'),
+    String(Math.min(day, 28)).padStart(2, '0'),
+  ].join('-');
+  
+  const { transitionToHalfWorkYear, stopWorkYear } = timeline;
+  
+  const members: HouseholdMember[] = [
+    { id: 'person-1', name: 'בן/בת זוג 1', birthDate, grossSalary: salaryData.person1Gross, netSalary: salaryData.person1Net, transitionToHalfWorkYear, stopWorkYear },
+    { id: 'person-2', name: 'בן/בת זוג 2', birthDate, grossSalary: salaryData.person2Gross, netSalary: salaryData.person2Net, transitionToHalfWorkYear, stopWorkYear },
+  ];
+  
+  return members.filter((member, i) => i === 0 || member.grossSalary > 0 || member.netSalary > 0);
+}
+
+/**
+ * Salaries of the first two household members in the single-person format
+ */
+export function householdToSalaryData(household: HouseholdMember[]): SalaryData {
+  return {
+    person1Gross: household[0]?.grossSalary ?? 0,
+    person1Net: household[0]?.netSalary ?? 0,
+    person2Gross: household[1]?.grossSalary ?? 0,
+    person2Net: household[1]?.netSalary ?? 0,
+  };
+}
+
 /**
  * Validate equity contract
  */
@@ -260,6 +626,122 @@ export function validatePropertyPlan(plan: unknown): string[] {
   return errors;
 }
 
+/**
+ * Validate glide path
+ */
+export function validateGlidePath(glidePath: unknown, name: string): string[] {
+  const errors: string[] = [];
+  if (!glidePath || typeof glidePath !== 'object') {
+    errors.push(`${name}: Invalid object`);
+    return errors;
+  }
+  
+  const g = glidePath as Record<string, unknown>;
+  
+  if (!['age', 'retirement'].includes(g.basis as string)) {
+    errors.push(`${name}: Invalid 'basis' (must be age or retirement)`);
+  }
+  if (!Array.isArray(g.points)) {
+    errors.push(`${name}: 'points' must be an array`);
+  } else {
+    (g.points as unknown[]).forEach((point, i) => {
+      const p = point as Record<string, unknown> | null;
+      if (!p || typeof p !== 'object' || typeof p.at !== 'number' || isNaN(p.at)) {
+        errors.push(`${name} point ${i}: Invalid 'at'`);
+      } else if (typeof p.stockShare !== 'number' || isNaN(p.stockShare) || p.stockShare < 0 || p.stockShare > 100) {
+        errors.push(`${name} point ${i}: Invalid 'stockShare' (must be between 0 and 100)`);
+      }
+    });
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate asset class plan
+ */
+export function validateAssetClassPlan(plan: unknown): string[] {
+  const errors: string[] = [];
+  if (!plan || typeof plan !== 'object') {
+    errors.push('Asset class plan: Invalid object');
+    return errors;
+  }
+  
+  const p = plan as Record<string, unknown>;
+  
+  if (typeof p.enabled !== 'boolean') {
+    errors.push("Asset class plan: 'enabled' must be boolean");
+  }
+  if (typeof p.bucketEnabled !== 'boolean') {
+    errors.push("Asset class plan: 'bucketEnabled' must be boolean");
+  }
+  
+  if (!p.returns || typeof p.returns !== 'object') {
+    errors.push('Asset class plan: Missing or invalid returns');
+  } else {
+    const r = p.returns as Record<string, unknown>;
+    if (typeof r.bonds !== 'number' || isNaN(r.bonds)) {
+      errors.push("Asset class plan: Invalid 'returns.bonds'");
+    }
+    if (typeof r.cash !== 'number' || isNaN(r.cash)) {
+      errors.push("Asset class plan: Invalid 'returns.cash'");
+    }
+  }
+  
+  if (!p.bucket || typeof p.bucket !== 'object') {
+    errors.push('Asset class plan: Missing or invalid bucket');
+  } else {
+    const b = p.bucket as Record<string, unknown>;
+    if (typeof b.years !== 'number' || isNaN(b.years) || b.years < 0) {
+      errors.push("Asset class plan: Invalid 'bucket.years' (must be non-negative number)");
+    }
+    if (!['bonds', 'cash'].includes(b.assetClass as string)) {
+      errors.push("Asset class plan: Invalid 'bucket.assetClass' (must be bonds or cash)");
+    }
+  }
+  
+  // Glide path fields are optional (see SavedAssetClassPlan)
+  if (p.glidePathEnabled !== undefined && typeof p.glidePathEnabled !== 'boolean') {
+    errors.push("Asset class plan: 'glidePathEnabled' must be boolean");
+  }
+  if (p.glidePath !== undefined) {
+    errors.push(...validateGlidePath(p.glidePath, 'Glide path'));
+  }
+  if (p.comparisonGlidePath !== undefined) {
+    errors.push(...validateGlidePath(p.comparisonGlidePath, 'Comparison glide path'));
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate withdrawal strategy
+ */
+export function validateWithdrawalStrategy(strategy: unknown): string[] {
+  const errors: string[] = [];
+  if (!strategy || typeof strategy !== 'object') {
+    errors.push('Withdrawal strategy: Invalid object');
+    return errors;
+  }
+  
+  const s = strategy as Record<string, unknown>;
+  
+  if (!['constant', 'fixedPercent', 'vpw', 'guytonKlinger', 'floorCeiling'].includes(s.type as string)) {
+    errors.push("Withdrawal strategy: Invalid 'type'");
+  }
+  for (const field of ['guardrailBand', 'guardrailAdjustment', 'floor', 'ceiling', 'minSpending']) {
+    const value = s[field];
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      errors.push(`Withdrawal strategy: Invalid '${field}' (must be non-negative number)`);
+    }
+  }
+  if (typeof s.floor === 'number' && typeof s.ceiling === 'number' && s.floor > s.ceiling) {
+    errors.push("Withdrawal strategy: 'floor' must not exceed 'ceiling'");
+  }
+  
+  return errors;
+}
+
 /**
  * Validate simulation params
  */
@@ -275,6 +757,9 @@ export function validateSimulationParams(params: unknown): string[] {
   if (typeof p.returnRate !== 'number' || isNaN(p.returnRate)) {
     errors.push("Simulation params: Invalid 'returnRate'");
   }
+  if (p.volatility !== undefined && (typeof p.volatility !== 'number' || isNaN(p.volatility) || p.volatility < 0)) {
+    errors.push("Simulation params: Invalid 'volatility' (must be non-negative number)");
+  }
   if (typeof p.inflationRate !== 'number' || isNaN(p.inflationRate)) {
     errors.push("Simulation params: Invalid 'inflationRate'");
   }
@@ -288,6 +773,19 @@ export function validateSimulationParams(params: unknown): string[] {
   return errors;
 }
 
+/**
+ * Validate plan "as of" date (YYYY-MM-DD)
+ */
+export function validateAsOfDate(date: unknown): string[] {
+  const errors: string[] = [];
+  
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+    errors.push("As-of date: Invalid value (must be YYYY-MM-DD)");
+  }
+  
+  return errors;
+}
+
 /**
  * Validate initial age
  */
@@ -331,6 +829,11 @@ export function validateExportData(data: unknown): ValidationResult {
     errors.push(...validateInitialAge(d.initialAge));
   }
   
+  // Validate as-of date (optional; older files start in January 2026)
+  if (d.asOfDate !== undefined) {
+    errors.push(...validateAsOfDate(d.asOfDate));
+  }
+  
   // Validate assets
   if (!Array.isArray(d.assets)) {
     errors.push("'assets' must be an array");
@@ -361,6 +864,22 @@ export function validateExportData(data: unknown): ValidationResult {
   // Validate salary data
   errors.push(...validateSalaryData(d.salaryData));
   
+  // Validate household (optional, added after 1.0.0)
+  if (d.household !== undefined) {
+    if (!Array.isArray(d.household) || d.household.length === 0) {
+      errors.push("'household' must be a non-empty array");
+    } else {
+      const household = d.household as unknown[];
+      household.forEach((member, i) => {
+        errors.push(...validateHouseholdMember(member, i));
+      });
+      const ids = household.map(member => (member as Record<string, unknown> | null)?.id);
+      if (new Set(ids).size !== ids.length) {
+        errors.push("Household: member ids must be unique");
+      }
+    }
+  }
+  
   // Validate equity companies
   if (!Array.isArray(d.equityCompanies)) {
     errors.push("'equityCompanies' must be an array");
@@ -373,6 +892,36 @@ export function validateExportData(data: unknown): ValidationResult {
   // Validate property plan
   errors.push(...validatePropertyPlan(d.propertyPlan));
   
+  // Validate asset class plan (optional, added after 1.0.0)
+  if (d.assetClassPlan !== undefined) {
+    errors.push(...validateAssetClassPlan(d.assetClassPlan));
+  }
+  
+  // Validate withdrawal strategy (optional, added after 1.0.0)
+  if (d.withdrawalStrategy !== undefined) {
+    errors.push(...validateWithdrawalStrategy(d.withdrawalStrategy));
+  }
+  
+  // Validate net spending mode (optional, added after 1.0.0)
+  if (d.netSpending !== undefined && typeof d.netSpending !== 'boolean') {
+    errors.push("'netSpending' must be a boolean");
+  }
+  
+  // Validate annual tax true-up (optional, added after 1.0.0)
+  if (d.annualTaxTrueUp !== undefined && typeof d.annualTaxTrueUp !== 'boolean') {
+    errors.push("'annualTaxTrueUp' must be a boolean");
+  }
+  
+  // Validate old-age pension (optional, added after 1.0.0)
+  if (d.oldAgePension !== undefined && typeof d.oldAgePension !== 'boolean') {
+    errors.push("'oldAgePension' must be a boolean");
+  }
+  
+  // Validate early retiree National Insurance (optional, added after 1.0.0)
+  if (d.retireeNationalInsurance !== undefined && typeof d.retireeNationalInsurance !== 'boolean') {
+    errors.push("'retireeNationalInsurance' must be a boolean");
+  }
+  
   // Validate simulation params
   errors.push(...validateSimulationParams(d.simulationParams));
   